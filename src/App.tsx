@@ -5,11 +5,12 @@ import TestResult from './pages/TestResult';
 import AdminPanel from './pages/AdminPanel';
 import Navigation from './components/Navigation';
 import Footer from './components/Footer';
+import { clearAdminSession, hasAdminSession } from './lib/adminSession';
 
 type Page =
   | { type: 'home' }
-  | { type: 'test'; testId: string; studentName: string; fatherName: string; classApplyingFor: string; retestKeyId?: string; isMasterKey?: boolean }
-  | { type: 'result'; submissionId: string }
+  | { type: 'test'; testId: string; studentName: string; fatherName: string; classApplyingFor: string; accessCode: string; retestKeyId?: string; isMasterKey?: boolean }
+  | { type: 'result'; submissionId: string; submissionKey: string }
   | { type: 'admin' };
 
 function App() {
@@ -18,7 +19,8 @@ function App() {
 
   useEffect(() => {
     const path = window.location.pathname;
-    if (path === '/azneeta-admin-2025') {
+    // Only reopens the panel for an admin who already logged in in this tab
+    if (path === '/azneeta-admin-2025' && hasAdminSession()) {
       setCurrentPage({ type: 'admin' });
       setIsAdmin(true);
     }
@@ -36,6 +38,7 @@ function App() {
   };
 
   const handleAdminLogout = () => {
+    clearAdminSession();
     setIsAdmin(false);
     setCurrentPage({ type: 'home' });
   };
@@ -45,6 +48,7 @@ function App() {
     studentName: string,
     fatherName: string,
     classApplyingFor: string,
+    accessCode: string,
     retestKeyId?: string,
     isMasterKey?: boolean
   ) => {
@@ -54,13 +58,14 @@ function App() {
       studentName,
       fatherName,
       classApplyingFor,
+      accessCode,
       retestKeyId,
       isMasterKey
     });
   };
 
-  const navigateToResult = (submissionId: string) => {
-    setCurrentPage({ type: 'result', submissionId });
+  const navigateToResult = (submissionId: string, submissionKey: string) => {
+    setCurrentPage({ type: 'result', submissionId, submissionKey });
   };
 
   const navigateToHome = () => {
@@ -89,6 +94,7 @@ function App() {
             studentName={currentPage.studentName}
             fatherName={currentPage.fatherName}
             classApplyingFor={currentPage.classApplyingFor}
+            accessCode={currentPage.accessCode}
             retestKeyId={currentPage.retestKeyId}
             isMasterKey={currentPage.isMasterKey}
             onComplete={navigateToResult}
@@ -96,7 +102,7 @@ function App() {
         )}
 
         {currentPage.type === 'result' && (
-          <TestResult submissionId={currentPage.submissionId} onBackToHome={navigateToHome} />
+          <TestResult submissionId={currentPage.submissionId} submissionKey={currentPage.submissionKey} onBackToHome={navigateToHome} />
         )}
 
         {currentPage.type === 'home' && (
@@ -0,0 +1,63 @@
+import { Plus, Trash2 } from 'lucide-react';
+
+interface AcceptedAnswersEditorProps {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+  addLabel?: string;
+  monospace?: boolean;
+  required?: boolean;
+}
+
+export default function AcceptedAnswersEditor({
+  label,
+  values,
+  onChange,
+  placeholder = 'Enter accepted answer...',
+  addLabel = 'Add Answer',
+  monospace = false,
+  required = false,
+}: AcceptedAnswersEditorProps) {
+  const items = values.length > 0 ? values : [''];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs md:text-sm font-bold text-gray-500 uppercase tracking-wide">
+          {label} {required && <span className="text-red-500">*</span>}
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange([...items, ''])}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> {addLabel}
+        </button>
+      </div>
+      <div className="space-y-2">
+        {items.map((value, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => onChange(items.map((v, i) => (i === idx ? e.target.value : v)))}
+              className={`flex-1 px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold shadow-sm ${monospace ? 'font-mono' : ''}`}
+              placeholder={placeholder}
+            />
+            {items.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((_, i) => i !== idx))}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
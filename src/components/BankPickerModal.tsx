@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { Copy, Link2, X } from 'lucide-react';
+import {
+  EMPTY_BANK_FILTERS,
+  filterBankQuestions,
+  getCorrectRate,
+  loadQuestionBank,
+  type BankQuestion,
+  type BankUsage,
+} from '../lib/questionBank';
+import MathText from './MathText';
+import QuestionBankFilters from './QuestionBankFilters';
+
+interface BankPickerModalProps {
+  onClose: () => void;
+  // linked: the test questions follow later edits of the bank question; otherwise they are copies
+  onInsert: (questions: BankQuestion[], linked: boolean) => void;
+}
+
+export default function BankPickerModal({ onClose, onInsert }: BankPickerModalProps) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [usage, setUsage] = useState<Map<string, BankUsage>>(new Map());
+  const [filters, setFilters] = useState(EMPTY_BANK_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadQuestionBank()
+      .then((bank) => {
+        setQuestions(bank.questions);
+        setUsage(bank.usage);
+      })
+      .catch((error) => {
+        console.error('Error loading question bank:', error);
+        alert('Failed to load the question bank');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]));
+  };
+
+  const insert = (linked: boolean) => {
+    // Keep the order the questions were picked in
+    onInsert(selectedIds.map((id) => questions.find((q) => q.id === id)).filter((q): q is BankQuestion => !!q), linked);
+  };
+
+  const visibleQuestions = filterBankQuestions(questions, filters);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-2 md:p-4">
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[92vh] flex flex-col shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-4 md:px-8 py-4 md:py-6 border-b border-gray-100 flex items-center justify-between bg-white">
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900">Add from Question Bank</h2>
+            <p className="text-[10px] md:text-sm text-gray-500 mt-1 uppercase tracking-wider font-semibold">
+              {selectedIds.length} selected
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-all"
+          >
+            <X className="w-5 h-5 md:w-6 md:h-6" />
+          </button>
+        </div>
+
+        <div className="px-4 md:px-8 py-4 border-b border-gray-100 bg-gray-50">
+          <QuestionBankFilters questions={questions} filters={filters} onChange={setFilters} />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar space-y-2">
+          {loading ? (
+            <div className="text-center py-12 text-gray-500 animate-pulse">Loading question bank...</div>
+          ) : visibleQuestions.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              {questions.length === 0 ? 'No questions in the bank yet.' : 'No questions match these filters.'}
+            </div>
+          ) : (
+            visibleQuestions.map((question) => {
+              const correctRate = getCorrectRate(usage.get(question.id));
+              const selected = selectedIds.includes(question.id);
+              return (
+                <label
+                  key={question.id}
+                  className={`flex items-start gap-3 p-3 md:p-4 rounded-xl border cursor-pointer transition-colors ${
+                    selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => toggleSelected(question.id)}
+                    className="w-4 h-4 text-blue-600 rounded mt-1"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900 line-clamp-2">
+                      <MathText text={question.question_text} />
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {[question.subject, question.class_level, question.topic].filter(Boolean).join(' · ')}
+                      {' · '}<span className="capitalize">{question.difficulty}</span>
+                      {' · '}{question.marks} {question.marks === 1 ? 'mark' : 'marks'}
+                      {correctRate !== null && ` · ${correctRate}% correct`}
+                    </p>
+                  </div>
+                </label>
+              );
+            })
+          )}
+        </div>
+
+        <div className="px-4 md:px-8 py-4 md:py-6 border-t border-gray-100 flex flex-col sm:flex-row sm:items-center justify-end gap-3 bg-white">
+          <button
+            onClick={() => insert(false)}
+            disabled={selectedIds.length === 0}
+            className="flex items-center justify-center gap-2 px-6 py-2.5 md:py-3 border border-gray-300 text-gray-700 rounded-xl font-bold hover:bg-gray-50 disabled:opacity-50 transition-all text-sm"
+            title="The test gets its own copy that can be edited freely"
+          >
+            <Copy className="w-4 h-4" />
+            Insert Copies
+          </button>
+          <button
+            onClick={() => insert(true)}
+            disabled={selectedIds.length === 0}
+            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-6 py-2.5 md:py-3 rounded-xl font-bold shadow-xl shadow-blue-500/20 transition-all text-sm"
+            title="The test question follows later edits made in the question bank"
+          >
+            <Link2 className="w-4 h-4" />
+            Insert Linked
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { DIFFICULTIES, getBankQuestionContent, saveBankQuestion, type BankQuestion } from '../lib/questionBank';
+import {
+  createEditorQuestion,
+  getQuestionContentForSave,
+  validateQuestion,
+  type EditorQuestion,
+} from '../lib/questionForm';
+import QuestionEditor from './QuestionEditor';
+
+interface BankQuestionModalProps {
+  // Bank question to edit; null adds a new one
+  question: BankQuestion | null;
+  // Content to start a new bank question from, e.g. a question of a test
+  initialContent?: EditorQuestion;
+  // Tests that use the question, shown as a warning before editing
+  testCount?: number;
+  onClose: () => void;
+  onSaved: (question: BankQuestion) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2.5 bg-gray-50 border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base';
+
+export default function BankQuestionModal({ question, initialContent, testCount = 0, onClose, onSaved }: BankQuestionModalProps) {
+  const [content, setContent] = useState<EditorQuestion>(() => {
+    if (question) return getBankQuestionContent(question);
+    return { ...(initialContent || createEditorQuestion()), id: undefined };
+  });
+  const [subject, setSubject] = useState(question?.subject || '');
+  const [classLevel, setClassLevel] = useState(question?.class_level || '');
+  const [topic, setTopic] = useState(question?.topic || '');
+  const [difficulty, setDifficulty] = useState<BankQuestion['difficulty']>(question?.difficulty || 'medium');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const problem = validateQuestion(content, 'Question');
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    if (!subject.trim()) {
+      alert('Please enter a subject');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        ...getQuestionContentForSave(content),
+        subject: subject.trim(),
+        class_level: classLevel.trim(),
+        topic: topic.trim(),
+        difficulty,
+        updated_at: new Date().toISOString(),
+      };
+
+      const data = await saveBankQuestion(question?.id ?? null, payload);
+
+      // Only the id and timestamps are read back; the anon key cannot select the answer key
+      onSaved({ ...question, ...payload, ...data } as BankQuestion);
+    } catch (error) {
+      console.error('Error saving bank question:', error);
+      alert('Failed to save the question to the bank');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-2 md:p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[96vh] flex flex-col shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-4 md:px-8 py-4 md:py-6 border-b border-gray-100 flex items-center justify-between bg-white">
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900">{question ? 'Edit Bank Question' : 'Add to Question Bank'}</h2>
+            <p className="text-[10px] md:text-sm text-gray-500 mt-1 uppercase tracking-wider font-semibold">Question Bank</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-all"
+          >
+            <X className="w-5 h-5 md:w-6 md:h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar space-y-6 md:space-y-8">
+          {question && testCount > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-3 md:p-4 text-sm">
+              This question is used in {testCount} {testCount === 1 ? 'test' : 'tests'}. Changes apply to every test that
+              links to it and has not been taken yet; tests students have taken are unlinked and keep their version, and
+              copies are not affected. Correct those tests in the test editor and re-grade them.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-700 mb-1.5 uppercase tracking-wide">
+                Subject <span className="text-red-500">*</span>
+              </label>
+              <input type="text" value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClassName} placeholder="e.g. Mathematics" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-700 mb-1.5 uppercase tracking-wide">Class Level</label>
+              <input type="text" value={classLevel} onChange={(e) => setClassLevel(e.target.value)} className={inputClassName} placeholder="e.g. Class 6" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-700 mb-1.5 uppercase tracking-wide">Topic</label>
+              <input type="text" value={topic} onChange={(e) => setTopic(e.target.value)} className={inputClassName} placeholder="e.g. Fractions" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-700 mb-1.5 uppercase tracking-wide">Difficulty</label>
+              <select
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as BankQuestion['difficulty'])}
+                className={inputClassName}
+              >
+                {DIFFICULTIES.map((d) => (
+                  <option key={d.value} value={d.value}>{d.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-2xl md:rounded-[2rem] p-4 md:p-10 shadow-sm">
+            <QuestionEditor question={content} onChange={setContent} defaultNegativeMarks={0} />
+          </div>
+        </div>
+
+        <div className="px-4 md:px-8 py-4 md:py-6 border-t border-gray-100 flex justify-end gap-3 bg-white">
+          <button
+            onClick={onClose}
+            className="px-6 md:px-8 py-2.5 md:py-3.5 text-gray-500 font-bold hover:text-gray-900 transition-all text-sm md:text-base"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-8 md:px-12 py-2.5 md:py-3.5 rounded-xl md:rounded-2xl font-bold shadow-xl shadow-blue-500/20 active:scale-95 transition-all text-sm md:text-base"
+          >
+            {saving ? 'Saving...' : question ? 'Update Question' : 'Save to Bank'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,73 @@
 import { useState, useEffect } from 'react';
-import { X, Plus, Trash2 } from 'lucide-react';
+import { X, Plus, Trash2, Library, Link2, Unlink } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { invokeAdminAction } from '../lib/adminSession';
 import type { Database } from '../lib/database.types';
+import {
+  createEditorQuestion,
+  getQuestionContentForSave,
+  toEditorQuestion,
+  validateQuestion,
+  type EditorQuestion,
+} from '../lib/questionForm';
+import { defaultShuffleSettings, type QuestionShuffle } from '../lib/paperOrder';
+import { getPaperTotalMarks, sortPools, type QuestionPool } from '../lib/pools';
+import { getBankQuestionContent, type BankQuestion } from '../lib/questionBank';
+import { getStimulusTable, getStimulusTableForSave, hasStimulus, sortGroups, type QuestionGroup } from '../lib/questionGroups';
+import { sortSections, type TestSection } from '../lib/sections';
+import BankPickerModal from './BankPickerModal';
+import BankQuestionModal from './BankQuestionModal';
+import ImageUploadField from './ImageUploadField';
+import QuestionEditor from './QuestionEditor';
+import StimulusTableEditor from './StimulusTableEditor';
 
 type Test = Database['public']['Tables']['tests']['Row'];
 
-interface Question {
-  id?: string;
+const questionShuffleModes: { value: QuestionShuffle; label: string; hint: string }[] = [
+  { value: 'within_sections', label: 'Shuffle within each section', hint: 'Sections stay in order; questions are shuffled inside each one.' },
+  { value: 'all', label: 'Shuffle sections and questions', hint: 'Section order is shuffled too. Questions outside any section always come last.' },
+  { value: 'none', label: 'Keep the test order', hint: 'Every student sees the questions in the order they are listed here.' },
+];
+
+interface Question extends EditorQuestion {
   test_id: string;
   question_number: number;
-  question_type: string;
-  question_text: string;
-  options: string[];
-  correct_answers: string[];
-  marks: number;
-  is_case_sensitive: boolean;
+  section_id: string | null;
+  pool_id: string | null;
+  group_id: string | null;
+  // Stays in its place in the section when questions are shuffled
+  keep_position: boolean;
+  bank_question_id: string | null;
+  // Linked questions follow edits made in the question bank and can't be edited here
+  bank_linked: boolean;
 }
 
+type Section = Pick<TestSection, 'id' | 'title' | 'duration_minutes' | 'lock_on_expiry'>;
+type Pool = Pick<QuestionPool, 'id' | 'title' | 'draw_count'>;
+type Group = Pick<QuestionGroup, 'id' | 'title' | 'stimulus_text' | 'stimulus_image_url'> & { stimulus_table: string[][] };
+
 interface CreateTestModalProps {
   test: Test | null;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-const questionTypes = [
-  { value: 'mcq_single', label: 'Multiple Choice (Single)' },
-  { value: 'mcq_multiple', label: 'Multiple Choice (Multiple)' },
-  { value: 'fill_blank', label: 'Fill in the Blank' },
-  { value: 'true_false', label: 'True/False' },
-  { value: 'numerical', label: 'Numerical Answer' },
-  { value: 'short_answer', label: 'Short Answer' },
-  { value: 'paragraph', label: 'Paragraph' },
-];
-
 export default function CreateTestModal({ test, onClose, onSuccess }: CreateTestModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [durationMinutes, setDurationMinutes] = useState(60);
   const [passingPercentage, setPassingPercentage] = useState(40);
+  const [negativeMarks, setNegativeMarks] = useState(0);
+  const [questionShuffle, setQuestionShuffle] = useState<QuestionShuffle>(defaultShuffleSettings.question_shuffle);
+  const [shuffleOptions, setShuffleOptions] = useState(defaultShuffleSettings.shuffle_options);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [pools, setPools] = useState<Pool[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
   const [saving, setSaving] = useState(false);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  // Index of the question being saved to the question bank
+  const [bankSaveIndex, setBankSaveIndex] = useState<number | null>(null);
 
   useEffect(() => {
     if (test) {
@@ -47,7 +75,13 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
       setDescription(test.description);
       setDurationMinutes(test.duration_minutes);
       setPassingPercentage(test.passing_percentage);
+      setNegativeMarks(test.negative_marks || 0);
+      setQuestionShuffle(test.question_shuffle ?? defaultShuffleSettings.question_shuffle);
+      setShuffleOptions(test.shuffle_options ?? defaultShuffleSettings.shuffle_options);
       loadQuestions(test.id);
+      loadSections(test.id);
+      loadPools(test.id);
+      loadGroups(test.id);
     } else {
       addNewQuestion();
     }
@@ -56,21 +90,13 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
   const loadQuestions = async (testId: string) => {
     console.log('Loading questions for test:', testId);
     try {
-      const { data, error } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('test_id', testId)
-        .order('question_number', { ascending: true });
-
-      if (error) {
-        console.error('Error loading questions:', error);
-        throw error;
-      }
+      // Read through the edge function, since the anon key cannot select the answer keys
+      const data = await invokeAdminAction<Question[]>('test_questions', { test_id: testId });
 
       console.log(`Loaded ${data?.length || 0} questions for test ${testId}`);
 
       if (data && data.length > 0) {
-        setQuestions(data as Question[]);
+        setQuestions(data.map(toEditorQuestion));
       } else {
         console.log('No questions found, initializing with one blank question.');
         addNewQuestion();
@@ -81,47 +107,140 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
     }
   };
 
+  const loadSections = async (testId: string) => {
+    const { data, error } = await supabase
+      .from('test_sections')
+      .select('*')
+      .eq('test_id', testId);
+
+    if (error) {
+      console.error('Error loading sections:', error);
+      alert('Failed to load sections. Please check your connection.');
+      return;
+    }
+    setSections(sortSections((data || []) as TestSection[]));
+  };
+
+  const loadPools = async (testId: string) => {
+    const { data, error } = await supabase
+      .from('question_pools')
+      .select('*')
+      .eq('test_id', testId);
+
+    if (error) {
+      console.error('Error loading pools:', error);
+      alert('Failed to load question pools. Please check your connection.');
+      return;
+    }
+    setPools(sortPools((data || []) as QuestionPool[]));
+  };
+
+  const loadGroups = async (testId: string) => {
+    const { data, error } = await supabase
+      .from('question_groups')
+      .select('*')
+      .eq('test_id', testId);
+
+    if (error) {
+      console.error('Error loading question groups:', error);
+      alert('Failed to load passages. Please check your connection.');
+      return;
+    }
+    setGroups(sortGroups((data || []) as QuestionGroup[]).map((group) => ({ ...group, stimulus_table: getStimulusTable(group) })));
+  };
+
+  const addSection = () => {
+    setSections([...sections, { id: crypto.randomUUID(), title: '', duration_minutes: null, lock_on_expiry: false }]);
+  };
+
+  const updateSection = (index: number, changes: Partial<Section>) => {
+    setSections(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const removeSection = (index: number) => {
+    const removedId = sections[index].id;
+    setSections(sections.filter((_, i) => i !== index));
+    setQuestions(questions.map((q) => (q.section_id === removedId ? { ...q, section_id: null } : q)));
+  };
+
+  const addPool = () => {
+    setPools([...pools, { id: crypto.randomUUID(), title: '', draw_count: 1 }]);
+  };
+
+  const updatePool = (index: number, changes: Partial<Pool>) => {
+    setPools(pools.map((pool, i) => (i === index ? { ...pool, ...changes } : pool)));
+  };
+
+  const removePool = (index: number) => {
+    const removedId = pools[index].id;
+    setPools(pools.filter((_, i) => i !== index));
+    setQuestions(questions.map((q) => (q.pool_id === removedId ? { ...q, pool_id: null } : q)));
+  };
+
+  const addGroup = () => {
+    setGroups([...groups, { id: crypto.randomUUID(), title: '', stimulus_text: '', stimulus_image_url: null, stimulus_table: [] }]);
+  };
+
+  const updateGroup = (index: number, changes: Partial<Group>) => {
+    setGroups(groups.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+  };
+
+  const removeGroup = (index: number) => {
+    const removedId = groups[index].id;
+    setGroups(groups.filter((_, i) => i !== index));
+    setQuestions(questions.map((q) => (q.group_id === removedId ? { ...q, group_id: null } : q)));
+  };
+
   const addNewQuestion = () => {
     const newQuestion: Question = {
+      ...createEditorQuestion(),
       test_id: test?.id || '',
       question_number: questions.length + 1,
-      question_type: 'mcq_single',
-      question_text: '',
-      options: ['Option 1', 'Option 2', 'Option 3', 'Option 4'],
-      correct_answers: ['Option 1'],
-      marks: 1,
-      is_case_sensitive: false,
+      // New questions go into the same section as the one above them
+      section_id: questions[questions.length - 1]?.section_id ?? null,
+      pool_id: questions[questions.length - 1]?.pool_id ?? null,
+      // Passage questions usually come one after another
+      group_id: questions[questions.length - 1]?.group_id ?? null,
+      keep_position: false,
+      bank_question_id: null,
+      bank_linked: false,
     };
     setQuestions([...questions, newQuestion]);
   };
 
-  const removeQuestion = (index: number) => {
-    const updated = questions.filter((_, i) => i !== index);
-    setQuestions(updated.map((q, i) => ({ ...q, question_number: i + 1 })));
+  const insertFromBank = (bankQuestions: BankQuestion[], linked: boolean) => {
+    const lastQuestion = questions[questions.length - 1];
+    const inserted: Question[] = bankQuestions.map((bankQuestion, i) => ({
+      ...getBankQuestionContent(bankQuestion),
+      test_id: test?.id || '',
+      question_number: questions.length + i + 1,
+      section_id: lastQuestion?.section_id ?? null,
+      pool_id: lastQuestion?.pool_id ?? null,
+      group_id: null,
+      keep_position: false,
+      bank_question_id: bankQuestion.id,
+      bank_linked: linked,
+    }));
+    setQuestions([...questions, ...inserted]);
+    setShowBankPicker(false);
   };
 
-  const updateQuestion = (index: number, field: string, value: any) => {
-    const updated = [...questions];
-    updated[index] = { ...updated[index], [field]: value };
-
-    if (field === 'question_type') {
-      if (value === 'true_false') {
-        updated[index].options = ['True', 'False'];
-        updated[index].correct_answers = ['True'];
-      } else if (value === 'mcq_single' || value === 'mcq_multiple') {
-        if (!Array.isArray(updated[index].options) || updated[index].options.length === 0) {
-          updated[index].options = ['Option 1', 'Option 2', 'Option 3', 'Option 4'];
-        }
-        updated[index].correct_answers = [updated[index].options[0]];
-      } else {
-        updated[index].options = [];
-        updated[index].correct_answers = [''];
-      }
+  // The test question becomes linked to the bank question it was saved as
+  const handleSavedToBank = (bankQuestion: BankQuestion) => {
+    if (bankSaveIndex !== null) {
+      updateQuestion(bankSaveIndex, { ...getBankQuestionContent(bankQuestion), bank_question_id: bankQuestion.id, bank_linked: true });
     }
+    setBankSaveIndex(null);
+  };
 
-    setQuestions(updated);
+  const removeQuestion = (index: number) => {
+    const updated = questions.filter((_, i) => i !== index);
+    setQuestions(updated.map((q, i) => ({ ...q, question_number: i + 1 })));
   };
 
+  const updateQuestion = (index: number, changes: Partial<Question>) => {
+    setQuestions(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
 
   const handleSave = async () => {
     if (!title.trim()) {
@@ -134,9 +253,46 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
       return;
     }
 
+    if (sections.some((section) => !section.title.trim())) {
+      alert('All sections must have a title');
+      return;
+    }
+    const sectionMinutes = sections.reduce((sum, section) => sum + (section.duration_minutes || 0), 0);
+    if (sectionMinutes > durationMinutes) {
+      alert(`Section time limits add up to ${sectionMinutes} minutes, more than the test duration of ${durationMinutes} minutes`);
+      return;
+    }
+
+    if (pools.some((pool) => !pool.title.trim())) {
+      alert('All question pools must have a title');
+      return;
+    }
+    for (const pool of pools) {
+      const poolSize = questions.filter((q) => q.pool_id === pool.id).length;
+      if (!(pool.draw_count > 0) || pool.draw_count > poolSize) {
+        alert(`Pool "${pool.title.trim()}" draws ${pool.draw_count || 0} questions but has ${poolSize}`);
+        return;
+      }
+    }
+
+    for (const [index, group] of groups.entries()) {
+      const label = group.title.trim() || `Passage ${index + 1}`;
+      if (!hasStimulus({ ...group, stimulus_table: getStimulusTableForSave(group.stimulus_table) })) {
+        alert(`${label}: add the passage text, an image or a table`);
+        return;
+      }
+      // The questions of a passage are shown together, which they can only be within one section
+      const groupSections = new Set(questions.filter((q) => q.group_id === group.id).map((q) => q.section_id ?? null));
+      if (groupSections.size > 1) {
+        alert(`${label}: all of its questions must be in the same section`);
+        return;
+      }
+    }
+
     for (const q of questions) {
-      if (!q.question_text.trim()) {
-        alert('All questions must have text');
+      const problem = validateQuestion(q, `Question ${q.question_number}`);
+      if (problem) {
+        alert(problem);
         return;
       }
     }
@@ -144,7 +300,8 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
     setSaving(true);
     setSaving(true);
     try {
-      const totalMarks = questions.reduce((sum, q) => sum + (Number(q.marks) || 0), 0);
+      // With pools this is the total of one drawn paper, the same for every student
+      const totalMarks = getPaperTotalMarks(pools, questions);
       let testId = test?.id;
 
       console.log('Starting save process...', { isUpdate: !!test, totalQuestions: questions.length });
@@ -157,6 +314,9 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
             description,
             duration_minutes: durationMinutes,
             passing_percentage: passingPercentage,
+            negative_marks: Number(negativeMarks) || 0,
+            question_shuffle: questionShuffle,
+            shuffle_options: shuffleOptions,
             total_marks: totalMarks,
             updated_at: new Date().toISOString(),
           })
@@ -196,6 +356,9 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
             description,
             duration_minutes: durationMinutes,
             passing_percentage: passingPercentage,
+            negative_marks: Number(negativeMarks) || 0,
+            question_shuffle: questionShuffle,
+            shuffle_options: shuffleOptions,
             total_marks: totalMarks,
           })
           .select()
@@ -213,6 +376,102 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
         throw new Error('Test ID generation failed.');
       }
 
+      // Sections are saved first so questions can point at them
+      if (sections.length > 0) {
+        const { error: sectionsError } = await supabase.from('test_sections')
+          .upsert(sections.map((section, idx) => ({
+            id: section.id,
+            test_id: testId,
+            title: section.title.trim(),
+            position: idx + 1,
+            duration_minutes: section.duration_minutes || null,
+            lock_on_expiry: !!section.duration_minutes && section.lock_on_expiry,
+          })));
+
+        if (sectionsError) {
+          console.error('Sections upsert error:', sectionsError);
+          throw new Error(`Failed to save sections: ${sectionsError.message}`);
+        }
+      }
+
+      if (test) {
+        // Questions of a removed section are moved out of it by the database (ON DELETE SET NULL)
+        let deleteQuery = supabase.from('test_sections').delete().eq('test_id', testId);
+        if (sections.length > 0) {
+          deleteQuery = deleteQuery.not('id', 'in', `(${sections.map((section) => section.id).join(',')})`);
+        }
+        const { error: deleteSectionsError } = await deleteQuery;
+
+        if (deleteSectionsError) {
+          console.error('Section delete error:', deleteSectionsError);
+          throw new Error(`Failed to remove sections: ${deleteSectionsError.message}`);
+        }
+      }
+
+      // Pools are saved like sections, before the questions that point at them
+      if (pools.length > 0) {
+        const { error: poolsError } = await supabase.from('question_pools')
+          .upsert(pools.map((pool, idx) => ({
+            id: pool.id,
+            test_id: testId,
+            title: pool.title.trim(),
+            draw_count: pool.draw_count,
+            position: idx + 1,
+          })));
+
+        if (poolsError) {
+          console.error('Pools upsert error:', poolsError);
+          throw new Error(`Failed to save question pools: ${poolsError.message}`);
+        }
+      }
+
+      if (test) {
+        // Questions of a removed pool go on every paper (ON DELETE SET NULL)
+        let deleteQuery = supabase.from('question_pools').delete().eq('test_id', testId);
+        if (pools.length > 0) {
+          deleteQuery = deleteQuery.not('id', 'in', `(${pools.map((pool) => pool.id).join(',')})`);
+        }
+        const { error: deletePoolsError } = await deleteQuery;
+
+        if (deletePoolsError) {
+          console.error('Pool delete error:', deletePoolsError);
+          throw new Error(`Failed to remove question pools: ${deletePoolsError.message}`);
+        }
+      }
+
+      // Passages too, before the questions that point at them
+      if (groups.length > 0) {
+        const { error: groupsError } = await supabase.from('question_groups')
+          .upsert(groups.map((group, idx) => ({
+            id: group.id,
+            test_id: testId,
+            title: group.title.trim(),
+            stimulus_text: group.stimulus_text,
+            stimulus_image_url: group.stimulus_image_url || null,
+            stimulus_table: getStimulusTableForSave(group.stimulus_table),
+            position: idx + 1,
+          })));
+
+        if (groupsError) {
+          console.error('Question groups upsert error:', groupsError);
+          throw new Error(`Failed to save passages: ${groupsError.message}`);
+        }
+      }
+
+      if (test) {
+        // Questions of a removed passage become standalone questions (ON DELETE SET NULL)
+        let deleteQuery = supabase.from('question_groups').delete().eq('test_id', testId);
+        if (groups.length > 0) {
+          deleteQuery = deleteQuery.not('id', 'in', `(${groups.map((group) => group.id).join(',')})`);
+        }
+        const { error: deleteGroupsError } = await deleteQuery;
+
+        if (deleteGroupsError) {
+          console.error('Question group delete error:', deleteGroupsError);
+          throw new Error(`Failed to remove passages: ${deleteGroupsError.message}`);
+        }
+      }
+
       console.log('Preparing questions to upsert...', questions.length);
       const questionsToUpsert = questions.map((q, idx) => {
         // Generate a temporary ID if one doesn't exist to prevent PostgREST null padding issues
@@ -223,25 +482,26 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
           id: questionId,
           test_id: testId,
           question_number: idx + 1,
-          question_type: q.question_type,
-          question_text: q.question_text,
-          options: q.options || [],
-          correct_answers: q.correct_answers || [],
-          marks: Number(q.marks) || 1,
-          is_case_sensitive: !!q.is_case_sensitive,
+          ...getQuestionContentForSave(q),
+          section_id: sections.some((section) => section.id === q.section_id) ? q.section_id : null,
+          pool_id: pools.some((pool) => pool.id === q.pool_id) ? q.pool_id : null,
+          group_id: groups.some((group) => group.id === q.group_id) ? q.group_id : null,
+          keep_position: !!q.keep_position,
+          bank_question_id: q.bank_question_id || null,
+          bank_linked: !!q.bank_question_id && q.bank_linked,
         };
 
         return payload;
       });
 
       console.log('Upserting questions...', questionsToUpsert);
-      const { error: questionsError, data: upsertedData } = await (supabase.from('questions') as any)
-        .upsert(questionsToUpsert)
-        .select();
-
-      if (questionsError) {
+      // Written through the edge function, since the anon key cannot write the answer keys
+      let upsertedData: { id: string }[];
+      try {
+        upsertedData = await invokeAdminAction<{ id: string }[]>('save_questions', { questions: questionsToUpsert });
+      } catch (questionsError) {
         console.error('Questions upsert error:', questionsError);
-        throw new Error(`Failed to save questions: ${questionsError.message}`);
+        throw new Error(`Failed to save questions: ${(questionsError as Error).message}`);
       }
 
       console.log('Questions upsert successful. Verified count:', upsertedData?.length);
@@ -251,7 +511,7 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
         console.warn('Upsert succeeded but no data returned. Verifying manually...');
         const { count } = await supabase
           .from('questions')
-          .select('*', { count: 'exact', head: true })
+          .select('id', { count: 'exact', head: true })
           .eq('test_id', testId);
 
         if (!count || count === 0) {
@@ -345,7 +605,261 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
                     required
                   />
                 </div>
+                <div>
+                  <label className="block text-xs md:text-sm font-bold text-gray-700 mb-1.5 md:mb-2 uppercase tracking-wide">
+                    Negative Marks (per wrong answer)
+                  </label>
+                  <input
+                    type="number"
+                    value={negativeMarks}
+                    onChange={(e) => setNegativeMarks(parseFloat(e.target.value))}
+                    className="w-full px-3 py-2.5 md:px-5 md:py-3.5 bg-gray-50 border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base"
+                    min="0"
+                    step="0.25"
+                  />
+                  <p className="text-[10px] md:text-xs text-gray-500 mt-1">Deducted for each wrong answer. Unanswered questions are never penalised.</p>
+                </div>
+                <div>
+                  <label className="block text-xs md:text-sm font-bold text-gray-700 mb-1.5 md:mb-2 uppercase tracking-wide">
+                    Question Order
+                  </label>
+                  <select
+                    value={questionShuffle}
+                    onChange={(e) => setQuestionShuffle(e.target.value as QuestionShuffle)}
+                    className="w-full px-3 py-2.5 md:px-5 md:py-3.5 bg-gray-50 border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base"
+                  >
+                    {questionShuffleModes.map((mode) => (
+                      <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] md:text-xs text-gray-500 mt-1">
+                    {questionShuffleModes.find((mode) => mode.value === questionShuffle)?.hint}
+                  </p>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="flex items-center gap-2 text-sm md:text-base font-semibold text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={shuffleOptions}
+                      onChange={(e) => setShuffleOptions(e.target.checked)}
+                      className="w-4 h-4 md:w-5 md:h-5 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    Shuffle options of multiple choice questions
+                  </label>
+                  <p className="text-[10px] md:text-xs text-gray-500 mt-1">
+                    Questions can opt out or pin options like "All of the above" last. Ordering and matching items are always shuffled.
+                  </p>
+                </div>
+              </div>
+            </section>
+
+            {/* Sections */}
+            <section className="animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4 md:mb-6">
+                <div className="flex items-center gap-2">
+                  <div className="w-1.5 h-6 bg-blue-600 rounded-full"></div>
+                  <div>
+                    <h3 className="text-lg md:text-xl font-bold text-gray-900">Sections</h3>
+                    <p className="text-xs md:text-sm text-gray-500">Optional. Students see sections as tabs, in this order.</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={addSection}
+                  className="flex items-center justify-center gap-2 text-blue-600 hover:bg-blue-50 border border-blue-200 px-4 py-2 rounded-xl font-bold transition text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Section
+                </button>
               </div>
+
+              {sections.length > 0 && (
+                <div className="space-y-3">
+                  {sections.map((section, index) => (
+                    <div key={section.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 md:gap-4 items-center bg-gray-50 border border-gray-200 rounded-xl p-3 md:p-4">
+                      <input
+                        type="text"
+                        value={section.title}
+                        onChange={(e) => updateSection(index, { title: e.target.value })}
+                        className="md:col-span-5 w-full px-3 py-2.5 bg-white border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-medium"
+                        placeholder={`Section ${index + 1} title, e.g. English`}
+                      />
+                      <div className="md:col-span-3 flex items-center gap-2">
+                        <input
+                          type="number"
+                          value={section.duration_minutes ?? ''}
+                          onChange={(e) => {
+                            const minutes = parseInt(e.target.value);
+                            updateSection(index, { duration_minutes: minutes > 0 ? minutes : null });
+                          }}
+                          className="w-full px-3 py-2.5 bg-white border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base"
+                          min="1"
+                          placeholder="No limit"
+                        />
+                        <span className="text-xs text-gray-500 font-semibold">min</span>
+                      </div>
+                      <label className={`md:col-span-3 flex items-center gap-2 text-xs md:text-sm font-medium ${section.duration_minutes ? 'text-gray-700' : 'text-gray-400'}`}>
+                        <input
+                          type="checkbox"
+                          checked={!!section.duration_minutes && section.lock_on_expiry}
+                          disabled={!section.duration_minutes}
+                          onChange={(e) => updateSection(index, { lock_on_expiry: e.target.checked })}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        Lock when time runs out
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => removeSection(index)}
+                        className="md:col-span-1 justify-self-end p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition"
+                        title="Remove section"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <p className="text-[10px] md:text-xs text-gray-500">
+                    A section's time counts only while the student is in it. The test duration above still limits the whole attempt.
+                  </p>
+                </div>
+              )}
+            </section>
+
+            {/* Question Pools */}
+            <section className="animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4 md:mb-6">
+                <div className="flex items-center gap-2">
+                  <div className="w-1.5 h-6 bg-blue-600 rounded-full"></div>
+                  <div>
+                    <h3 className="text-lg md:text-xl font-bold text-gray-900">Question Pools</h3>
+                    <p className="text-xs md:text-sm text-gray-500">Optional. Each student gets their own draw from every pool.</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={addPool}
+                  className="flex items-center justify-center gap-2 text-blue-600 hover:bg-blue-50 border border-blue-200 px-4 py-2 rounded-xl font-bold transition text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Pool
+                </button>
+              </div>
+
+              {pools.length > 0 && (
+                <div className="space-y-3">
+                  {pools.map((pool, index) => {
+                    const poolQuestions = questions.filter((q) => q.pool_id === pool.id);
+                    return (
+                      <div key={pool.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 md:gap-4 items-center bg-gray-50 border border-gray-200 rounded-xl p-3 md:p-4">
+                        <input
+                          type="text"
+                          value={pool.title}
+                          onChange={(e) => updatePool(index, { title: e.target.value })}
+                          className="md:col-span-6 w-full px-3 py-2.5 bg-white border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-medium"
+                          placeholder={`Pool ${index + 1} title, e.g. Maths`}
+                        />
+                        <div className="md:col-span-5 flex items-center gap-2">
+                          <span className="text-xs text-gray-500 font-semibold">Draw</span>
+                          <input
+                            type="number"
+                            value={pool.draw_count || ''}
+                            onChange={(e) => updatePool(index, { draw_count: parseInt(e.target.value) || 0 })}
+                            className="w-24 px-3 py-2.5 bg-white border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base"
+                            min="1"
+                          />
+                          <span className={`text-xs font-semibold ${pool.draw_count > poolQuestions.length ? 'text-red-600' : 'text-gray-500'}`}>
+                            of {poolQuestions.length} {poolQuestions.length === 1 ? 'question' : 'questions'}
+                          </span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => removePool(index)}
+                          className="md:col-span-1 justify-self-end p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition"
+                          title="Remove pool"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <p className="text-[10px] md:text-xs text-gray-500">
+                    Questions outside a pool are on every paper. Draws take the same number of questions of each mark value,
+                    so every paper is worth {getPaperTotalMarks(pools, questions)} marks.
+                  </p>
+                </div>
+              )}
+            </section>
+
+            {/* Passages */}
+            <section className="animate-in slide-in-from-bottom-4 duration-300">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4 md:mb-6">
+                <div className="flex items-center gap-2">
+                  <div className="w-1.5 h-6 bg-blue-600 rounded-full"></div>
+                  <div>
+                    <h3 className="text-lg md:text-xl font-bold text-gray-900">Passages</h3>
+                    <p className="text-xs md:text-sm text-gray-500">Optional. A passage, image or table shown beside the questions that use it.</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={addGroup}
+                  className="flex items-center justify-center gap-2 text-blue-600 hover:bg-blue-50 border border-blue-200 px-4 py-2 rounded-xl font-bold transition text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Passage
+                </button>
+              </div>
+
+              {groups.length > 0 && (
+                <div className="space-y-3">
+                  {groups.map((group, index) => {
+                    const groupQuestions = questions.filter((q) => q.group_id === group.id);
+                    return (
+                      <div key={group.id} className="bg-gray-50 border border-gray-200 rounded-xl p-3 md:p-4 space-y-3">
+                        <div className="flex items-center gap-3">
+                          <input
+                            type="text"
+                            value={group.title}
+                            onChange={(e) => updateGroup(index, { title: e.target.value })}
+                            className="flex-1 px-3 py-2.5 bg-white border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-medium"
+                            placeholder={`Passage ${index + 1} title, e.g. Read the passage and answer`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => removeGroup(index)}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition"
+                            title="Remove passage"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <textarea
+                          value={group.stimulus_text}
+                          onChange={(e) => updateGroup(index, { stimulus_text: e.target.value })}
+                          className="w-full px-3 py-2.5 bg-white border border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all min-h-[100px] text-sm md:text-base"
+                          placeholder="Passage text"
+                        />
+                        <ImageUploadField
+                          value={group.stimulus_image_url}
+                          onChange={(url) => updateGroup(index, { stimulus_image_url: url })}
+                        />
+                        <StimulusTableEditor
+                          rows={group.stimulus_table}
+                          onChange={(rows) => updateGroup(index, { stimulus_table: rows })}
+                        />
+                        <p className="text-[10px] md:text-xs text-gray-500">
+                          {groupQuestions.length > 0
+                            ? `Used by ${groupQuestions.map((q) => `Q${q.question_number}`).join(', ')}`
+                            : 'Pick this passage on the questions that use it.'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                  <p className="text-[10px] md:text-xs text-gray-500">
+                    The questions of a passage stay together, in the order listed here, when questions are shuffled.
+                  </p>
+                </div>
+              )}
             </section>
 
             {/* Questions Section */}
@@ -358,14 +872,24 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
                     <p className="text-xs md:text-sm text-gray-500">{questions.length} total questions configured</p>
                   </div>
                 </div>
-                <button
-                  type="button"
-                  onClick={addNewQuestion}
-                  className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 md:px-6 py-2.5 md:py-3 rounded-xl font-bold transition shadow-lg shadow-blue-500/20 active:scale-95 text-sm md:text-base"
-                >
-                  <Plus className="w-4 h-4 md:w-5 md:h-5" />
-                  Add Question
-                </button>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowBankPicker(true)}
+                    className="flex items-center justify-center gap-2 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 px-4 md:px-6 py-2.5 md:py-3 rounded-xl font-bold transition active:scale-95 text-sm md:text-base"
+                  >
+                    <Library className="w-4 h-4 md:w-5 md:h-5" />
+                    Add from Bank
+                  </button>
+                  <button
+                    type="button"
+                    onClick={addNewQuestion}
+                    className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 md:px-6 py-2.5 md:py-3 rounded-xl font-bold transition shadow-lg shadow-blue-500/20 active:scale-95 text-sm md:text-base"
+                  >
+                    <Plus className="w-4 h-4 md:w-5 md:h-5" />
+                    Add Question
+                  </button>
+                </div>
               </div>
 
               <div className="space-y-6 md:space-y-8">
@@ -375,173 +899,110 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
                       Q {index + 1}
                     </div>
 
-                    <div className="flex flex-col gap-6 md:gap-10">
-                      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 md:gap-10">
-                        <div className="lg:col-span-8">
-                          <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Question Text</label>
-                          <textarea
-                            value={question.question_text}
-                            onChange={(e) => updateQuestion(index, 'question_text', e.target.value)}
-                            className="w-full px-4 py-3 md:px-6 md:py-5 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-lg min-h-[100px] md:min-h-[120px]"
-                            placeholder="Enter your question here..."
-                            required
-                          />
-                        </div>
-                        <div className="lg:col-span-4 space-y-4 md:space-y-6">
-                          <div>
-                            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Question Type</label>
-                            <select
-                              value={question.question_type}
-                              onChange={(e) => updateQuestion(index, 'question_type', e.target.value)}
-                              className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
-                            >
-                              {questionTypes.map((type) => (
-                                <option key={type.value} value={type.value}>{type.label}</option>
-                              ))}
-                            </select>
-                          </div>
-                          <div>
-                            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Marks</label>
-                            <input
-                              type="number"
-                              value={question.marks}
-                              onChange={(e) => updateQuestion(index, 'marks', parseInt(e.target.value))}
-                              className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
-                              min="1"
-                              required
-                            />
-                          </div>
-                        </div>
-                      </div>
-
-
-                      {/* Options and Correct Answers Logic */}
-                      {(question.question_type === 'mcq_single' || question.question_type === 'mcq_multiple') && (
-                        <div className="bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50">
-                          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4 md:mb-6">
-                            <h4 className="text-sm md:text-base font-bold text-gray-900 uppercase tracking-wide">Options & Correct Answers</h4>
+                    {question.bank_linked && question.bank_question_id ? (
+                      <>
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6 md:mb-8 mr-10 p-3 md:p-4 bg-blue-50 border border-blue-100 rounded-xl text-sm text-blue-800">
+                          <p className="flex items-center gap-2">
+                            <Link2 className="w-4 h-4 flex-shrink-0" />
+                            Linked to the question bank. Edit it in the Question Bank tab, or unlink it to edit a copy here.
+                          </p>
+                          <div className="flex items-center gap-2">
+                            {sections.length > 0 && (
+                              <select
+                                value={question.section_id ?? ''}
+                                onChange={(e) => updateQuestion(index, { section_id: e.target.value || null })}
+                                className="px-3 py-1.5 bg-white border border-blue-200 rounded-lg outline-none text-sm"
+                              >
+                                <option value="">No section</option>
+                                {sections.map((section, sectionIdx) => (
+                                  <option key={section.id} value={section.id}>{section.title.trim() || `Section ${sectionIdx + 1}`}</option>
+                                ))}
+                              </select>
+                            )}
+                            {pools.length > 0 && (
+                              <select
+                                value={question.pool_id ?? ''}
+                                onChange={(e) => updateQuestion(index, { pool_id: e.target.value || null })}
+                                className="px-3 py-1.5 bg-white border border-blue-200 rounded-lg outline-none text-sm"
+                              >
+                                <option value="">Always on the paper</option>
+                                {pools.map((pool, poolIdx) => (
+                                  <option key={pool.id} value={pool.id}>{pool.title.trim() || `Pool ${poolIdx + 1}`}</option>
+                                ))}
+                              </select>
+                            )}
+                            {groups.length > 0 && (
+                              <select
+                                value={question.group_id ?? ''}
+                                onChange={(e) => updateQuestion(index, { group_id: e.target.value || null })}
+                                className="px-3 py-1.5 bg-white border border-blue-200 rounded-lg outline-none text-sm"
+                              >
+                                <option value="">No passage</option>
+                                {groups.map((group, groupIdx) => (
+                                  <option key={group.id} value={group.id}>{group.title.trim() || `Passage ${groupIdx + 1}`}</option>
+                                ))}
+                              </select>
+                            )}
                             <button
                               type="button"
-                              onClick={() => {
-                                const updated = [...questions];
-                                updated[index].options = [...(updated[index].options || []), `Option ${updated[index].options.length + 1}`];
-                                setQuestions(updated);
-                              }}
-                              className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+                              onClick={() => updateQuestion(index, { bank_linked: false })}
+                              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-blue-200 hover:bg-blue-100 rounded-lg font-bold transition-colors whitespace-nowrap"
                             >
-                              <Plus className="w-4 h-4 font-bold" /> Add Option
+                              <Unlink className="w-4 h-4" />
+                              Unlink
                             </button>
                           </div>
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
-                            {question.options.map((option, optIdx) => (
-                              <div key={optIdx} className="flex items-center gap-3 bg-white p-2.5 md:p-3 rounded-xl border border-gray-100 shadow-sm group-hover:border-blue-100 transition-colors">
-                                <input
-                                  type={question.question_type === 'mcq_single' ? 'radio' : 'checkbox'}
-                                  checked={question.correct_answers.includes(option)}
-                                  onChange={() => {
-                                    const updated = [...questions];
-                                    if (question.question_type === 'mcq_single') {
-                                      updated[index].correct_answers = [option];
-                                    } else {
-                                      const current = question.correct_answers;
-                                      if (current.includes(option)) {
-                                        updated[index].correct_answers = current.filter(a => a !== option);
-                                      } else {
-                                        updated[index].correct_answers = [...current, option];
-                                      }
-                                    }
-                                    setQuestions(updated);
-                                  }}
-                                  className="w-4 h-4 md:w-5 md:h-5 text-blue-600 focus:ring-blue-500 cursor-pointer"
-                                />
-                                <input
-                                  type="text"
-                                  value={option}
-                                  onChange={(e) => {
-                                    const updated = [...questions];
-                                    const oldOption = updated[index].options[optIdx];
-                                    updated[index].options[optIdx] = e.target.value;
-                                    updated[index].correct_answers = updated[index].correct_answers.map(a => a === oldOption ? e.target.value : a);
-                                    setQuestions(updated);
-                                  }}
-                                  className="flex-1 bg-transparent border-none outline-none text-sm md:text-base font-medium"
-                                  placeholder={`Option ${optIdx + 1}`}
-                                />
-                                <button
-                                  type="button"
-                                  onClick={() => {
-                                    const updated = [...questions];
-                                    const removed = updated[index].options[optIdx];
-                                    updated[index].options = updated[index].options.filter((_, i) => i !== optIdx);
-                                    updated[index].correct_answers = updated[index].correct_answers.filter(a => a !== removed);
-                                    setQuestions(updated);
-                                  }}
-                                  className="p-1.5 md:p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </button>
-                              </div>
-                            ))}
-                          </div>
                         </div>
-                      )}
+                        <QuestionEditor
+                          question={question}
+                          onChange={() => {}}
+                          defaultNegativeMarks={Number(negativeMarks) || 0}
+                          readOnly
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <QuestionEditor
+                          question={question}
+                          onChange={(updated) => updateQuestion(index, updated)}
+                          defaultNegativeMarks={Number(negativeMarks) || 0}
+                          sections={sections}
+                          sectionId={question.section_id}
+                          onSectionChange={(sectionId) => updateQuestion(index, { section_id: sectionId })}
+                          pools={pools}
+                          poolId={question.pool_id}
+                          onPoolChange={(poolId) => updateQuestion(index, { pool_id: poolId })}
+                          groups={groups}
+                          groupId={question.group_id}
+                          onGroupChange={(groupId) => updateQuestion(index, { group_id: groupId })}
+                        />
+                      </>
+                    )}
 
-                      {question.question_type === 'true_false' && (
-                        <div className="flex gap-4 md:gap-8 bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50">
-                          {['True', 'False'].map((val) => (
-                            <label key={val} className={`
-                              flex-1 flex items-center justify-center gap-2 p-3 md:p-5 rounded-xl md:rounded-2xl border-2 transition-all cursor-pointer font-bold
-                              ${question.correct_answers.includes(val)
-                                ? 'bg-blue-600 text-white border-blue-600 shadow-lg shadow-blue-500/30 scale-105'
-                                : 'bg-white text-gray-400 border-gray-100 hover:border-blue-200'}
-                            `}>
-                              <input
-                                type="radio"
-                                className="hidden"
-                                checked={question.correct_answers.includes(val)}
-                                onChange={() => {
-                                  const updated = [...questions];
-                                  updated[index].correct_answers = [val];
-                                  setQuestions(updated);
-                                }}
-                              />
-                              <span className="text-sm md:text-xl">{val}</span>
-                            </label>
-                          ))}
-                        </div>
-                      )}
-
-                      {(question.question_type === 'fill_blank' || question.question_type === 'numerical' || question.question_type === 'short_answer') && (
-                        <div className="space-y-4 md:space-y-6 bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50">
-                          <div>
-                            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Correct Answer <span className="text-red-500">*</span></label>
-                            <input
-                              type={question.question_type === 'numerical' ? 'number' : 'text'}
-                              value={question.correct_answers[0]}
-                              onChange={(e) => {
-                                const updated = [...questions];
-                                updated[index].correct_answers = [e.target.value];
-                                setQuestions(updated);
-                              }}
-                              className="w-full px-4 py-3 md:px-6 md:py-4 bg-white border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold shadow-sm"
-                              placeholder="Enter correct answer..."
-                              required
-                            />
-                          </div>
-                          {question.question_type !== 'numerical' && (
-                            <label className="flex items-center gap-3 cursor-pointer group">
-                              <div className="relative flex items-center">
-                                <input
-                                  type="checkbox"
-                                  checked={question.is_case_sensitive}
-                                  onChange={(e) => updateQuestion(index, 'is_case_sensitive', e.target.checked)}
-                                  className="w-4 h-4 md:w-5 md:h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
-                                />
-                              </div>
-                              <span className="text-xs md:text-sm font-bold text-gray-600 group-hover:text-gray-900 transition-colors uppercase tracking-wide">Case Sensitive</span>
-                            </label>
-                          )}
-                        </div>
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-6">
+                      <label
+                        className={`flex items-center gap-2 text-sm font-semibold ${
+                          questionShuffle === 'none' ? 'text-gray-400' : 'text-gray-600 cursor-pointer'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={question.keep_position}
+                          disabled={questionShuffle === 'none'}
+                          onChange={(e) => updateQuestion(index, { keep_position: e.target.checked })}
+                          className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                        />
+                        Keep in place when shuffling
+                      </label>
+                      {!(question.bank_linked && question.bank_question_id) && (
+                        <button
+                          type="button"
+                          onClick={() => setBankSaveIndex(index)}
+                          className="flex items-center gap-2 text-sm font-bold text-gray-500 hover:text-blue-600 transition-colors"
+                        >
+                          <Library className="w-4 h-4" />
+                          Save to Bank
+                        </button>
                       )}
                     </div>
 
@@ -584,6 +1045,19 @@ export default function CreateTestModal({ test, onClose, onSuccess }: CreateTest
           </div>
         </div>
       </div>
+
+      {showBankPicker && (
+        <BankPickerModal onClose={() => setShowBankPicker(false)} onInsert={insertFromBank} />
+      )}
+
+      {bankSaveIndex !== null && questions[bankSaveIndex] && (
+        <BankQuestionModal
+          question={null}
+          initialContent={questions[bankSaveIndex]}
+          onClose={() => setBankSaveIndex(null)}
+          onSaved={handleSavedToBank}
+        />
+      )}
     </div>
   );
 }
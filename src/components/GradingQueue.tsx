@@ -0,0 +1,342 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CheckCircle, ClipboardCheck, Save } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { invokeAdminAction } from '../lib/adminSession';
+import { gradeAnswer, GRADER_NAME_KEY, MANUALLY_GRADED_TYPES } from '../lib/manualGrading';
+import { getRubric, getRubricScores, scoreRubric } from '../lib/rubric';
+import type { Database } from '../lib/database.types';
+import MathText from './MathText';
+
+type Test = Database['public']['Tables']['tests']['Row'];
+type Question = Database['public']['Tables']['questions']['Row'];
+type Answer = Database['public']['Tables']['answers']['Row'] & {
+  submissions: { id: string; student_name: string; student_code: string | null; status: string };
+};
+
+interface Draft {
+  marks: string;
+  comment: string;
+  // Level picked per rubric criterion id
+  levels: Record<string, number>;
+}
+
+export default function GradingQueue() {
+  const [tests, setTests] = useState<Test[]>([]);
+  const [selectedTestId, setSelectedTestId] = useState('');
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [selectedQuestionId, setSelectedQuestionId] = useState('all');
+  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [showGraded, setShowGraded] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [graderName, setGraderName] = useState(() => localStorage.getItem(GRADER_NAME_KEY) || '');
+
+  const loadTests = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('tests')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading tests:', error);
+      return;
+    }
+    setTests(data || []);
+    if (data && data.length > 0) setSelectedTestId((data[0] as Test).id);
+  }, []);
+
+  const loadQueue = useCallback(async (testId: string) => {
+    setLoading(true);
+    try {
+      // Rubrics and model answers are read through the edge function
+      const testQuestions = await invokeAdminAction<Question[]>('test_questions', { test_id: testId });
+      const manualQuestions = testQuestions.filter((q) => (MANUALLY_GRADED_TYPES as readonly string[]).includes(q.question_type));
+      setQuestions(manualQuestions);
+
+      if (manualQuestions.length === 0) {
+        setAnswers([]);
+        return;
+      }
+
+      let query = supabase
+        .from('answers')
+        .select('*, submissions!inner(id, student_name, student_code, status)')
+        .in('question_id', manualQuestions.map((q) => q.id))
+        .neq('submissions.status', 'invalidated_by_retest')
+        .order('created_at', { ascending: true });
+      if (!showGraded) {
+        query = query.is('is_correct', null);
+      }
+
+      const { data: answerData, error: answersError } = await query;
+      if (answersError) throw answersError;
+
+      const loaded = (answerData || []) as Answer[];
+      setAnswers(loaded);
+      setDrafts(Object.fromEntries(loaded.map((a) => [
+        a.id,
+        {
+          // Keyword-scored answers start from their provisional marks
+          marks: a.is_correct === null && a.confidence !== 'low' ? '' : String(Number(a.marks_awarded) || 0),
+          comment: a.grader_comment || '',
+          levels: Object.fromEntries(getRubricScores(a).map((score) => [score.criterion_id, score.level])),
+        },
+      ])));
+    } catch (error) {
+      console.error('Error loading grading queue:', error);
+      alert('Failed to load answers for grading');
+    } finally {
+      setLoading(false);
+    }
+  }, [showGraded]);
+
+  useEffect(() => {
+    loadTests();
+  }, [loadTests]);
+
+  useEffect(() => {
+    if (selectedTestId) loadQueue(selectedTestId);
+  }, [selectedTestId, loadQueue]);
+
+  const updateDraft = (answerId: string, changes: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [answerId]: { ...prev[answerId], ...changes } }));
+  };
+
+  const handleSaveGrade = async (answer: Answer, question: Question) => {
+    const draft = drafts[answer.id];
+    const rubric = getRubric(question);
+    const rubricScores = rubric ? scoreRubric(rubric, draft?.levels || {}) : undefined;
+    if (rubric && rubricScores && rubricScores.length < rubric.criteria.length) {
+      alert('Pick a level for every rubric criterion');
+      return;
+    }
+
+    const marks = rubricScores
+      ? rubricScores.reduce((sum, score) => sum + score.marks, 0)
+      : parseFloat(draft?.marks ?? '');
+    if (isNaN(marks) || marks < 0 || marks > question.marks) {
+      alert(`Enter marks between 0 and ${question.marks}`);
+      return;
+    }
+
+    setSavingId(answer.id);
+    try {
+      localStorage.setItem(GRADER_NAME_KEY, graderName);
+      await gradeAnswer(answer.id, {
+        marks,
+        comment: draft?.comment || '',
+        gradedBy: graderName,
+        rubricScores,
+      });
+
+      if (showGraded) {
+        setAnswers((prev) => prev.map((a) => (a.id === answer.id
+          ? { ...a, is_correct: marks >= question.marks, marks_awarded: marks, grader_comment: draft?.comment || null, graded_at: new Date().toISOString(), rubric_scores: (rubricScores ?? null) as Answer['rubric_scores'] }
+          : a)));
+      } else {
+        setAnswers((prev) => prev.filter((a) => a.id !== answer.id));
+      }
+    } catch (error) {
+      console.error('Error saving grade:', error);
+      alert('Failed to save grade');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const visibleQuestions = questions.filter((q) => selectedQuestionId === 'all' || q.id === selectedQuestionId);
+  const pendingCount = answers.filter((a) => a.is_correct === null).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <label className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">Test</label>
+            <select
+              value={selectedTestId}
+              onChange={(e) => {
+                setSelectedTestId(e.target.value);
+                setSelectedQuestionId('all');
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            >
+              {tests.map((test) => (
+                <option key={test.id} value={test.id}>{test.title}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">Question</label>
+            <select
+              value={selectedQuestionId}
+              onChange={(e) => setSelectedQuestionId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            >
+              <option value="all">All manually graded questions</option>
+              {questions.map((q) => (
+                <option key={q.id} value={q.id}>Q{q.question_number}. {q.question_text.slice(0, 60)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:w-48">
+            <label className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">Grader Name</label>
+            <input
+              type="text"
+              value={graderName}
+              onChange={(e) => setGraderName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              placeholder="Your name"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+          <p className="text-sm text-gray-600">
+            <span className="font-bold text-gray-900">{pendingCount}</span> {pendingCount === 1 ? 'answer' : 'answers'} awaiting grading
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showGraded}
+              onChange={(e) => setShowGraded(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            Show already graded answers
+          </label>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500 animate-pulse">Loading answers...</div>
+      ) : questions.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-8 text-center text-gray-500">
+          This test has no short answer or paragraph questions.
+        </div>
+      ) : answers.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+          <CheckCircle className="w-10 h-10 text-green-500" />
+          All answers for this test have been graded.
+        </div>
+      ) : (
+        visibleQuestions.map((question) => {
+          const questionAnswers = answers.filter((a) => a.question_id === question.id);
+          if (questionAnswers.length === 0) return null;
+
+          return (
+            <div key={question.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-4 md:p-6 border-b border-gray-100 bg-gray-50 flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <ClipboardCheck className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      Q{question.question_number}. <MathText text={question.question_text} />
+                    </h3>
+                    {(question.correct_answers as string[] || []).filter(Boolean).length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Model answer: {(question.correct_answers as string[]).filter(Boolean).join(' / ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium whitespace-nowrap">
+                  {question.marks} {question.marks === 1 ? 'mark' : 'marks'}
+                </span>
+              </div>
+
+              <div className="divide-y divide-gray-100">
+                {questionAnswers.map((answer) => {
+                  const draft = drafts[answer.id] || { marks: '', comment: '', levels: {} };
+                  const rubric = getRubric(question);
+                  return (
+                    <div key={answer.id} className="p-4 md:p-6 grid grid-cols-1 lg:grid-cols-3 gap-4">
+                      <div className="lg:col-span-2">
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className="font-medium text-gray-900">{answer.submissions.student_name}</span>
+                          <span className="text-xs text-gray-500">{answer.submissions.student_code}</span>
+                          {answer.is_correct !== null && (
+                            <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-green-50 text-green-700">
+                              {answer.confidence === 'high' && !answer.graded_at ? 'Auto-scored' : 'Graded'}: {Number(answer.marks_awarded) || 0}/{question.marks}
+                            </span>
+                          )}
+                          {answer.is_correct === null && answer.confidence === 'low' && (
+                            <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-orange-50 text-orange-700" title="Suggested from keywords, needs confirmation">
+                              Provisional: {Number(answer.marks_awarded) || 0}/{question.marks}
+                            </span>
+                          )}
+                        </div>
+                        <p className="p-3 bg-gray-50 rounded-lg text-gray-800 whitespace-pre-wrap text-sm">
+                          {typeof answer.student_answer === 'string' && answer.student_answer.trim()
+                            ? answer.student_answer
+                            : <span className="italic text-gray-400">Not answered</span>}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        {rubric ? (
+                          <div className="space-y-3">
+                            {rubric.criteria.map((criterion) => (
+                              <div key={criterion.id}>
+                                <p className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">{criterion.name}</p>
+                                <div className="flex flex-wrap gap-1">
+                                  {criterion.levels.map((level, levelIdx) => (
+                                    <button
+                                      key={levelIdx}
+                                      type="button"
+                                      onClick={() => updateDraft(answer.id, { levels: { ...draft.levels, [criterion.id]: levelIdx } })}
+                                      title={level.description}
+                                      className={`px-2 py-1 rounded border text-xs transition ${draft.levels[criterion.id] === levelIdx
+                                        ? 'bg-blue-600 border-blue-600 text-white'
+                                        : 'bg-white border-gray-300 text-gray-700 hover:bg-blue-50'
+                                        }`}
+                                    >
+                                      {level.label} ({level.marks})
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                            <p className="text-sm text-gray-600">
+                              Total: <span className="font-bold">{scoreRubric(rubric, draft.levels).reduce((sum, score) => sum + score.marks, 0)}</span> / {question.marks}
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              value={draft.marks}
+                              onChange={(e) => updateDraft(answer.id, { marks: e.target.value })}
+                              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                              min="0"
+                              max={question.marks}
+                              step="0.5"
+                              placeholder="Marks"
+                            />
+                            <span className="text-sm text-gray-500">/ {question.marks}</span>
+                          </div>
+                        )}
+                        <textarea
+                          value={draft.comment}
+                          onChange={(e) => updateDraft(answer.id, { comment: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm min-h-[60px]"
+                          placeholder="Comment for the student (optional)"
+                        />
+                        <button
+                          onClick={() => handleSaveGrade(answer, question)}
+                          disabled={savingId === answer.id}
+                          className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-semibold transition disabled:opacity-50"
+                        >
+                          <Save className="w-4 h-4" />
+                          {savingId === answer.id ? 'Saving...' : 'Save Grade'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useRef, useState } from 'react';
+import { ImagePlus, Loader2, Trash2 } from 'lucide-react';
+import { uploadQuestionImage } from '../lib/questionImages';
+
+interface ImageUploadFieldProps {
+  value: string | null | undefined;
+  onChange: (url: string | null) => void;
+  label?: string;
+  compact?: boolean;
+}
+
+export default function ImageUploadField({ value, onChange, label = 'Add Image', compact = false }: ImageUploadFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      onChange(await uploadQuestionImage(file));
+    } catch (err) {
+      console.error('Image upload error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${compact ? '' : 'flex-wrap'}`}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {value ? (
+        <>
+          <img
+            src={value}
+            alt=""
+            className={`${compact ? 'h-10 w-10' : 'h-24 max-w-[12rem]'} object-contain rounded-lg border border-gray-100 bg-white`}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="p-1.5 md:p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+            title="Remove Image"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5 disabled:opacity-50"
+          title={label}
+        >
+          {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+          {!compact && (uploading ? 'Uploading...' : label)}
+        </button>
+      )}
+    </div>
+  );
+}
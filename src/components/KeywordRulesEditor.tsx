@@ -0,0 +1,64 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { KeywordRule } from '../lib/evaluation';
+
+interface KeywordRulesEditorProps {
+  rules: KeywordRule[];
+  onChange: (rules: KeywordRule[]) => void;
+}
+
+export default function KeywordRulesEditor({ rules, onChange }: KeywordRulesEditorProps) {
+  const updateRule = (idx: number, changes: Partial<KeywordRule>) => {
+    onChange(rules.map((rule, i) => (i === idx ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs md:text-sm font-bold text-gray-500 uppercase tracking-wide">Keywords</label>
+        <button
+          type="button"
+          onClick={() => onChange([...rules, { terms: [], required: false }])}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> Add Keyword
+        </button>
+      </div>
+      {rules.length === 0 ? (
+        <p className="text-[10px] md:text-xs text-gray-500">
+          No keywords: every answer goes to manual grading. Add keywords to score answers automatically.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={rule.terms.join(',')}
+                onChange={(e) => updateRule(idx, { terms: e.target.value.split(',') })}
+                className="flex-1 px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold shadow-sm"
+                placeholder="Keyword and synonyms, e.g. carbon dioxide,CO2"
+              />
+              <label className="flex items-center gap-1.5 text-xs font-bold text-gray-600 uppercase tracking-wide cursor-pointer whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={rule.required}
+                  onChange={(e) => updateRule(idx, { required: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((_, i) => i !== idx))}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { SUBMISSION_COLUMNS, type Submission as SubmissionRow } from '../lib/attempts';
 import { generateRetestKey } from '../lib/slotManagement';
 import { Copy, Trash2, Check, AlertCircle } from 'lucide-react';
-import type { Database } from '../lib/database.types';
 
-type Submission = Database['public']['Tables']['submissions']['Row'] & {
+type Submission = SubmissionRow & {
     tests: { title: string };
     slot_number: number;
     student_code: string;
@@ -34,7 +34,7 @@ export default function ManageRetests() {
     const loadSubmissions = async () => {
         const { data } = await supabase
             .from('submissions')
-            .select('*, tests(title)')
+            .select(`${SUBMISSION_COLUMNS}, tests(title)`)
             .in('status', ['completed', 'auto_submitted'])
             .order('submitted_at', { ascending: false })
             .limit(50); // Limit to recent 50 for performance
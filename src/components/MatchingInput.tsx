@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import MathText from './MathText';
+
+interface MatchingInputProps {
+  left: string[];
+  right: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+export default function MatchingInput({ left, right, value, onChange }: MatchingInputProps) {
+  const [draggedItem, setDraggedItem] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+  const selections = left.map((_, i) => value[i] || '');
+
+  // Each right-column item can only be used once: assigning it elsewhere moves it
+  const assign = (leftIdx: number, item: string) => {
+    const next = selections.map((selected, i) => (i !== leftIdx && selected === item ? '' : selected));
+    next[leftIdx] = item;
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 md:gap-6">
+      <div className="md:col-span-3 space-y-3">
+        <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">Column A</p>
+        {left.map((item, idx) => (
+          <div
+            key={idx}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(idx);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedItem) assign(idx, draggedItem);
+              setDraggedItem(null);
+              setDropTarget(null);
+            }}
+            className={`flex flex-col sm:flex-row sm:items-center gap-2 p-3 border rounded-lg transition ${dropTarget === idx ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+          >
+            <span className="flex-1 text-gray-800 font-medium">
+              <span className="text-gray-400 mr-2">{idx + 1}.</span>
+              <MathText text={item} />
+            </span>
+            <div className="flex items-center gap-1 sm:w-1/2">
+              <select
+                value={selections[idx]}
+                onChange={(e) => assign(idx, e.target.value)}
+                aria-label={`Match for ${item}`}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+              >
+                <option value="">Select a match...</option>
+                {right.map((option, optIdx) => (
+                  <option key={optIdx} value={option}>{option}</option>
+                ))}
+              </select>
+              {selections[idx] && (
+                <button
+                  type="button"
+                  onClick={() => assign(idx, '')}
+                  className="p-1.5 text-gray-400 hover:text-red-500 rounded"
+                  title="Clear"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="md:col-span-2 space-y-3">
+        <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">Column B <span className="normal-case font-normal">(drag onto Column A)</span></p>
+        <div className="flex flex-wrap md:flex-col gap-2">
+          {right.map((option, idx) => {
+            const isUsed = selections.includes(option);
+            return (
+              <div
+                key={idx}
+                draggable
+                onDragStart={() => setDraggedItem(option)}
+                onDragEnd={() => setDraggedItem(null)}
+                className={`px-3 py-2 rounded-lg border text-sm cursor-grab active:cursor-grabbing select-none transition ${isUsed ? 'bg-gray-100 border-gray-200 text-gray-400' : 'bg-white border-blue-200 text-gray-800 hover:bg-blue-50'}`}
+              >
+                <MathText text={option} />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Plus, Trash2 } from 'lucide-react';
+import AcceptedAnswersEditor from './AcceptedAnswersEditor';
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+interface MatchingPairsEditorProps {
+  pairs: MatchingPair[];
+  distractors: string[];
+  onPairsChange: (pairs: MatchingPair[]) => void;
+  onDistractorsChange: (distractors: string[]) => void;
+}
+
+export default function MatchingPairsEditor({
+  pairs,
+  distractors,
+  onPairsChange,
+  onDistractorsChange,
+}: MatchingPairsEditorProps) {
+  const updatePair = (idx: number, side: keyof MatchingPair, value: string) => {
+    onPairsChange(pairs.map((pair, i) => (i === idx ? { ...pair, [side]: value } : pair)));
+  };
+
+  return (
+    <div className="bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50 space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="text-sm md:text-base font-bold text-gray-900 uppercase tracking-wide">Matching Pairs</h4>
+          <p className="text-[10px] md:text-xs text-gray-500 mt-1">Column B is shuffled for each student. Marks are shared equally between pairs.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onPairsChange([...pairs, { left: '', right: '' }])}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> Add Pair
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {pairs.map((pair, idx) => (
+          <div key={idx} className="flex flex-col sm:flex-row sm:items-center gap-2 bg-white p-2.5 md:p-3 rounded-xl border border-gray-100 shadow-sm">
+            <span className="text-xs font-bold text-gray-400 w-6">{idx + 1}.</span>
+            <input
+              type="text"
+              value={pair.left}
+              onChange={(e) => updatePair(idx, 'left', e.target.value)}
+              className="flex-1 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg outline-none focus:border-blue-500 text-sm md:text-base font-medium"
+              placeholder="Column A item"
+            />
+            <span className="hidden sm:inline text-gray-400 font-bold">→</span>
+            <input
+              type="text"
+              value={pair.right}
+              onChange={(e) => updatePair(idx, 'right', e.target.value)}
+              className="flex-1 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg outline-none focus:border-blue-500 text-sm md:text-base font-medium"
+              placeholder="Matching Column B item"
+            />
+            <button
+              type="button"
+              onClick={() => onPairsChange(pairs.filter((_, i) => i !== idx))}
+              disabled={pairs.length <= 2}
+              className="p-1.5 md:p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Remove Pair"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <AcceptedAnswersEditor
+        label="Extra Column B Items (Distractors)"
+        values={distractors}
+        onChange={onDistractorsChange}
+        placeholder="Optional item that matches nothing"
+        addLabel="Add Distractor"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import 'katex/dist/katex.min.css';
+import { renderMath, splitMath } from '../lib/mathText';
+
+interface MathTextProps {
+  text: string | null | undefined;
+  className?: string;
+}
+
+export default function MathText({ text, className }: MathTextProps) {
+  if (!text) return null;
+
+  return (
+    <span className={className}>
+      {splitMath(text).map((segment, idx) => {
+        if (segment.type === 'text') {
+          return <span key={idx} className="whitespace-pre-line">{segment.value}</span>;
+        }
+
+        const html = renderMath(segment.value, segment.type === 'display');
+        if (html === null) {
+          // Malformed markup is shown as typed so the question stays readable
+          return (
+            <code key={idx} className="px-1 rounded bg-red-50 text-red-700 text-[0.9em]" title="Could not render this formula">
+              {segment.value}
+            </code>
+          );
+        }
+
+        return segment.type === 'display' ? (
+          <span key={idx} className="block my-2 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+        ) : (
+          <span key={idx} dangerouslySetInnerHTML={{ __html: html }} />
+        );
+      })}
+    </span>
+  );
+}
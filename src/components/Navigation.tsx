@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { LogOut, Menu, X as CloseIcon } from 'lucide-react';
+import { startAdminSession } from '../lib/adminSession';
 
 interface NavigationProps {
   currentPage: string;
@@ -18,17 +19,23 @@ export default function Navigation({
   const [adminPassword, setAdminPassword] = useState('');
   const [passwordError, setPasswordError] = useState('');
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [checkingPassword, setCheckingPassword] = useState(false);
 
-  const handleAdminLogin = (e: React.FormEvent) => {
+  const handleAdminLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setPasswordError('');
 
-    if (adminPassword === 'Azneeeta@071931_admin-2025') {
+    // The password is checked by the admin-actions edge function, which also guards every admin write
+    setCheckingPassword(true);
+    try {
+      await startAdminSession(adminPassword);
       onNavigate('admin-login-success');
       setShowAdminLogin(false);
       setAdminPassword('');
-    } else {
-      setPasswordError('Invalid admin password');
+    } catch (error) {
+      setPasswordError(error instanceof Error ? error.message : 'Invalid admin password');
+    } finally {
+      setCheckingPassword(false);
     }
   };
 
@@ -202,9 +209,10 @@ export default function Navigation({
                   </button>
                   <button
                     type="submit"
-                    className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition"
+                    disabled={checkingPassword}
+                    className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition disabled:opacity-50"
                   >
-                    Login
+                    {checkingPassword ? 'Checking...' : 'Login'}
                   </button>
                 </div>
               </form>
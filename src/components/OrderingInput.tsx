@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react';
+import MathText from './MathText';
+
+interface OrderingInputProps {
+  items: string[];
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+}
+
+export default function OrderingInput({ items, value, onChange }: OrderingInputProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Until the student arranges anything, show the items in the order they were given
+  const order = Array.isArray(value) && value.length === items.length ? value : items;
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, idx: number) => {
+    if (e.key === 'ArrowUp' && (e.altKey || e.shiftKey)) {
+      e.preventDefault();
+      move(idx, idx - 1);
+      requestAnimationFrame(() => focusItem(idx - 1));
+    } else if (e.key === 'ArrowDown' && (e.altKey || e.shiftKey)) {
+      e.preventDefault();
+      move(idx, idx + 1);
+      requestAnimationFrame(() => focusItem(idx + 1));
+    }
+  };
+
+  const focusItem = (idx: number) => {
+    document.querySelector<HTMLElement>(`[data-order-item="${idx}"]`)?.focus();
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2" aria-label="Items to arrange">
+        {order.map((item, idx) => (
+          <li
+            key={item}
+            data-order-item={idx}
+            tabIndex={0}
+            draggable
+            onDragStart={() => setDraggedIndex(idx)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(idx);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedIndex !== null) move(draggedIndex, idx);
+              setDraggedIndex(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDraggedIndex(null);
+              setDropIndex(null);
+            }}
+            onKeyDown={(e) => handleKeyDown(e, idx)}
+            aria-label={`${idx + 1}. ${item}`}
+            className={`flex items-center gap-3 p-3 md:p-4 border rounded-lg bg-white cursor-grab active:cursor-grabbing select-none transition focus:outline-none focus:ring-2 focus:ring-blue-500 ${dropIndex === idx ? 'border-blue-500 bg-blue-50' : 'border-gray-300'} ${draggedIndex === idx ? 'opacity-50' : ''}`}
+          >
+            <GripVertical className="w-5 h-5 text-gray-400 flex-shrink-0" />
+            <span className="w-6 text-sm font-bold text-gray-500">{idx + 1}.</span>
+            <MathText text={item} className="flex-1 text-gray-700" />
+            <div className="flex flex-col sm:flex-row gap-1">
+              <button
+                type="button"
+                onClick={() => move(idx, idx - 1)}
+                disabled={idx === 0}
+                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded disabled:opacity-30"
+                title="Move up"
+                tabIndex={-1}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(idx, idx + 1)}
+                disabled={idx === order.length - 1}
+                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded disabled:opacity-30"
+                title="Move down"
+                tabIndex={-1}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-gray-500 italic">
+          Drag items, use the arrows, or focus an item and press Alt+↑ / Alt+↓ to reorder.
+        </p>
+        {value === undefined && (
+          <button
+            type="button"
+            onClick={() => onChange([...order])}
+            className="text-sm font-semibold text-blue-600 hover:underline"
+          >
+            Keep this order
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
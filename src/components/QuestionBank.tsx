@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Edit, Library, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  EMPTY_BANK_FILTERS,
+  filterBankQuestions,
+  getCorrectRate,
+  loadQuestionBank,
+  type BankQuestion,
+  type BankUsage,
+} from '../lib/questionBank';
+import { questionTypes } from '../lib/questionForm';
+import BankQuestionModal from './BankQuestionModal';
+import MathText from './MathText';
+import QuestionBankFilters from './QuestionBankFilters';
+
+const difficultyStyles: Record<string, string> = {
+  easy: 'bg-green-50 text-green-700',
+  medium: 'bg-amber-50 text-amber-700',
+  hard: 'bg-red-50 text-red-700',
+};
+
+export default function QuestionBank() {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [usage, setUsage] = useState<Map<string, BankUsage>>(new Map());
+  const [filters, setFilters] = useState(EMPTY_BANK_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    loadQuestions();
+  }, []);
+
+  const loadQuestions = async () => {
+    try {
+      const bank = await loadQuestionBank();
+      setQuestions(bank.questions);
+      setUsage(bank.usage);
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    const testCount = Number(usage.get(question.id)?.test_count) || 0;
+    const message = testCount > 0
+      ? `This question is used in ${testCount} ${testCount === 1 ? 'test' : 'tests'}. Those tests keep their own copy. Delete it from the bank?`
+      : 'Delete this question from the bank?';
+    if (!confirm(message)) return;
+
+    const { error } = await supabase.from('question_bank').delete().eq('id', question.id);
+    if (error) {
+      console.error('Error deleting bank question:', error);
+      alert('Failed to delete question');
+      return;
+    }
+    loadQuestions();
+  };
+
+  const visibleQuestions = filterBankQuestions(questions, filters);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            <span className="font-bold text-gray-900">{visibleQuestions.length}</span> of {questions.length} {questions.length === 1 ? 'question' : 'questions'}
+          </p>
+          <button
+            onClick={() => {
+              setEditing(null);
+              setShowModal(true);
+            }}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add Question
+          </button>
+        </div>
+        <QuestionBankFilters questions={questions} filters={filters} onChange={setFilters} />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500 animate-pulse">Loading question bank...</div>
+      ) : visibleQuestions.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <Library className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {questions.length === 0 ? 'No questions in the bank yet.' : 'No questions match these filters.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleQuestions.map((question) => {
+            const stats = usage.get(question.id);
+            const correctRate = getCorrectRate(stats);
+            return (
+              <div key={question.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold capitalize ${difficultyStyles[question.difficulty] || ''}`}>
+                        {question.difficulty}
+                      </span>
+                      {[question.subject, question.class_level, question.topic].filter(Boolean).map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">{tag}</span>
+                      ))}
+                    </div>
+                    <p className="font-medium text-gray-900 line-clamp-2">
+                      <MathText text={question.question_text} />
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {questionTypes.find((type) => type.value === question.question_type)?.label || question.question_type}
+                      {' · '}{question.marks} {question.marks === 1 ? 'mark' : 'marks'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => {
+                        setEditing(question);
+                        setShowModal(true);
+                      }}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Edit Question"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(question)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete Question"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4 text-center">
+                  <div className="bg-gray-50 rounded-lg py-2">
+                    <p className="text-lg font-bold text-gray-900">{Number(stats?.test_count) || 0}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-wide font-semibold">Tests</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg py-2">
+                    <p className="text-lg font-bold text-gray-900">{Number(stats?.answer_count) || 0}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-wide font-semibold">Answers</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg py-2">
+                    <p className="text-lg font-bold text-gray-900">{correctRate === null ? '—' : `${correctRate}%`}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-wide font-semibold">Correct</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg py-2">
+                    <p className="text-lg font-bold text-gray-900">{stats?.answer_count ? Number(stats.average_marks) : '—'}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-wide font-semibold">Avg Marks</p>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showModal && (
+        <BankQuestionModal
+          question={editing}
+          testCount={editing ? Number(usage.get(editing.id)?.test_count) || 0 : 0}
+          onClose={() => setShowModal(false)}
+          onSaved={() => {
+            setShowModal(false);
+            loadQuestions();
+          }}
+        />
+      )}
+    </div>
+  );
+}
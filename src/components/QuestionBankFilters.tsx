@@ -0,0 +1,53 @@
+import { Search } from 'lucide-react';
+import { DIFFICULTIES, getTagValues, type BankFilters, type BankQuestion } from '../lib/questionBank';
+
+interface QuestionBankFiltersProps {
+  questions: BankQuestion[];
+  filters: BankFilters;
+  onChange: (filters: BankFilters) => void;
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none text-sm';
+
+export default function QuestionBankFilters({ questions, filters, onChange }: QuestionBankFiltersProps) {
+  const update = (changes: Partial<BankFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+      <div className="relative sm:col-span-2 lg:col-span-1">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          placeholder="Search questions..."
+        />
+      </div>
+      <select value={filters.subject} onChange={(e) => update({ subject: e.target.value })} className={selectClassName}>
+        <option value="">All subjects</option>
+        {getTagValues(questions, 'subject').map((value) => (
+          <option key={value} value={value}>{value}</option>
+        ))}
+      </select>
+      <select value={filters.classLevel} onChange={(e) => update({ classLevel: e.target.value })} className={selectClassName}>
+        <option value="">All classes</option>
+        {getTagValues(questions, 'class_level').map((value) => (
+          <option key={value} value={value}>{value}</option>
+        ))}
+      </select>
+      <select value={filters.topic} onChange={(e) => update({ topic: e.target.value })} className={selectClassName}>
+        <option value="">All topics</option>
+        {getTagValues(questions, 'topic').map((value) => (
+          <option key={value} value={value}>{value}</option>
+        ))}
+      </select>
+      <select value={filters.difficulty} onChange={(e) => update({ difficulty: e.target.value })} className={selectClassName}>
+        <option value="">Any difficulty</option>
+        {DIFFICULTIES.map((difficulty) => (
+          <option key={difficulty.value} value={difficulty.value}>{difficulty.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,660 @@
+import { Pin, Plus, Trash2 } from 'lucide-react';
+import type { AnswerConfig } from '../lib/evaluation';
+import { hasMath } from '../lib/mathText';
+import { questionTypes, type EditorQuestion } from '../lib/questionForm';
+import { countBlanks } from '../lib/textAnswer';
+import AcceptedAnswersEditor from './AcceptedAnswersEditor';
+import ImageUploadField from './ImageUploadField';
+import KeywordRulesEditor from './KeywordRulesEditor';
+import MathText from './MathText';
+import RubricEditor from './RubricEditor';
+import MatchingPairsEditor from './MatchingPairsEditor';
+
+const scoringModes = [
+  { value: 'all_or_nothing', label: 'All or nothing', hint: 'Full marks only when exactly the correct options are picked.' },
+  { value: 'proportional', label: 'Proportional', hint: 'A share of the marks for each correct option picked; wrong picks are ignored.' },
+  { value: 'proportional_deduct', label: 'Proportional with deduction', hint: 'Each wrong pick cancels one correct pick. Never below zero.' },
+  { value: 'partial_jee', label: 'JEE-style partial', hint: 'Credit for each correct option picked, but any wrong pick makes the answer wrong.' },
+];
+
+const orderingScoringModes = [
+  { value: 'all_or_nothing', label: 'Exact order', hint: 'Full marks only when every item is in the correct position.' },
+  { value: 'adjacency', label: 'Adjacent pairs', hint: 'A share of the marks for each item placed directly before its correct successor.' },
+];
+
+interface QuestionEditorProps {
+  question: EditorQuestion;
+  onChange: (question: EditorQuestion) => void;
+  // Test-wide negative marks, shown as the placeholder when the question has none of its own
+  defaultNegativeMarks: number;
+  // Sections of the test the question can be put in; no section picker when empty
+  sections?: { id: string; title: string }[];
+  sectionId?: string | null;
+  onSectionChange?: (sectionId: string | null) => void;
+  // Question pools of the test; no pool picker when empty
+  pools?: { id: string; title: string }[];
+  poolId?: string | null;
+  onPoolChange?: (poolId: string | null) => void;
+  // Question groups (shared passages) of the test; no group picker when empty
+  groups?: { id: string; title: string }[];
+  groupId?: string | null;
+  onGroupChange?: (groupId: string | null) => void;
+  // Linked bank questions are shown but edited in the question bank
+  readOnly?: boolean;
+}
+
+/** Content, answer key and scoring fields of one question. */
+export default function QuestionEditor({
+  question,
+  onChange,
+  defaultNegativeMarks,
+  sections = [],
+  sectionId = null,
+  onSectionChange,
+  pools = [],
+  poolId = null,
+  onPoolChange,
+  groups = [],
+  groupId = null,
+  onGroupChange,
+  readOnly = false,
+}: QuestionEditorProps) {
+  const updateQuestion = <K extends keyof EditorQuestion>(field: K, value: EditorQuestion[K]) => {
+    const updated: EditorQuestion = { ...question, [field]: value };
+
+    if (field === 'question_type') {
+      updated.answer_config = {};
+      updated.scoring_mode = 'all_or_nothing';
+      if (value !== 'mcq_single' && value !== 'mcq_multiple') {
+        updated.option_images = {};
+      }
+      if (value === 'true_false') {
+        updated.options = ['True', 'False'];
+        updated.correct_answers = ['True'];
+      } else if (value === 'mcq_single' || value === 'mcq_multiple') {
+        if (!Array.isArray(updated.options) || updated.options.length === 0) {
+          updated.options = ['Option 1', 'Option 2', 'Option 3', 'Option 4'];
+        }
+        updated.correct_answers = [updated.options[0]];
+      } else if (value === 'matching') {
+        updated.options = [];
+        updated.correct_answers = [];
+        updated.match_pairs = [{ left: '', right: '' }, { left: '', right: '' }];
+        updated.match_distractors = [];
+      } else if (value === 'ordering') {
+        updated.options = [];
+        updated.correct_answers = ['', '', ''];
+      } else {
+        updated.options = [];
+        updated.correct_answers = [''];
+      }
+    }
+
+    onChange(updated);
+  };
+
+  const updateAnswerConfig = (changes: Partial<AnswerConfig>) => {
+    onChange({ ...question, answer_config: { ...(question.answer_config || {}), ...changes } });
+  };
+
+  const parseOptionalNumber = (value: string) => (value === '' || isNaN(parseFloat(value)) ? undefined : parseFloat(value));
+
+  return (
+    <fieldset disabled={readOnly} className="flex flex-col gap-6 md:gap-10 min-w-0 disabled:opacity-70">
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 md:gap-10">
+        <div className="lg:col-span-8">
+          <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Question Text</label>
+          <textarea
+            value={question.question_text}
+            onChange={(e) => updateQuestion('question_text', e.target.value)}
+            className="w-full px-4 py-3 md:px-6 md:py-5 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-lg min-h-[100px] md:min-h-[120px]"
+            placeholder="Enter your question here..."
+            required
+          />
+          <div className="mt-3">
+            <ImageUploadField
+              label="Add Diagram / Image"
+              value={question.image_url}
+              onChange={(url) => updateQuestion('image_url', url)}
+            />
+          </div>
+          {[question.question_text, question.explanation, ...(question.options || [])].some(hasMath) && (
+            <div className="mt-3 p-4 bg-blue-50/50 border border-blue-100 rounded-xl text-sm md:text-base text-gray-800 space-y-2">
+              <p className="text-[10px] md:text-xs font-bold text-blue-600 uppercase tracking-wide">Preview</p>
+              <MathText text={question.question_text} className="block font-medium" />
+              {(question.question_type === 'mcq_single' || question.question_type === 'mcq_multiple') && (
+                <ul className="list-disc list-inside text-gray-600">
+                  {question.options.map((option, optIdx) => (
+                    <li key={optIdx}><MathText text={option} /></li>
+                  ))}
+                </ul>
+              )}
+              {question.explanation.trim() && (
+                <p className="text-gray-600"><span className="font-semibold">Explanation: </span><MathText text={question.explanation} /></p>
+              )}
+            </div>
+          )}
+          <p className="text-[10px] md:text-xs text-gray-500 mt-2">{'Use $...$ for inline maths and $$...$$ for display equations, e.g. $\\frac{3}{4}$ or $x^2 + y^2$.'}</p>
+        </div>
+        <div className="lg:col-span-4 space-y-4 md:space-y-6">
+          <div>
+            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Question Type</label>
+            <select
+              value={question.question_type}
+              onChange={(e) => updateQuestion('question_type', e.target.value)}
+              className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
+            >
+              {questionTypes.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+          {sections.length > 0 && onSectionChange && (
+            <div>
+              <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Section</label>
+              <select
+                value={sectionId ?? ''}
+                onChange={(e) => onSectionChange(e.target.value || null)}
+                className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
+              >
+                <option value="">No section</option>
+                {sections.map((section, sectionIdx) => (
+                  <option key={section.id} value={section.id}>{section.title.trim() || `Section ${sectionIdx + 1}`}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {pools.length > 0 && onPoolChange && (
+            <div>
+              <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Pool</label>
+              <select
+                value={poolId ?? ''}
+                onChange={(e) => onPoolChange(e.target.value || null)}
+                className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
+              >
+                <option value="">Always on the paper</option>
+                {pools.map((pool, poolIdx) => (
+                  <option key={pool.id} value={pool.id}>{pool.title.trim() || `Pool ${poolIdx + 1}`}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {groups.length > 0 && onGroupChange && (
+            <div>
+              <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Passage</label>
+              <select
+                value={groupId ?? ''}
+                onChange={(e) => onGroupChange(e.target.value || null)}
+                className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
+              >
+                <option value="">No passage</option>
+                {groups.map((group, groupIdx) => (
+                  <option key={group.id} value={group.id}>{group.title.trim() || `Passage ${groupIdx + 1}`}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Marks</label>
+            <input
+              type="number"
+              value={question.marks}
+              onChange={(e) => updateQuestion('marks', parseInt(e.target.value))}
+              className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
+              min="1"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Negative Marks</label>
+            <input
+              type="number"
+              value={question.negative_marks ?? ''}
+              onChange={(e) => updateQuestion('negative_marks', e.target.value === '' ? null : parseFloat(e.target.value))}
+              className="w-full px-4 py-3 md:px-6 md:py-4 bg-gray-50 border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold"
+              min="0"
+              step="0.25"
+              placeholder={`Test default (${Number(defaultNegativeMarks) || 0})`}
+            />
+          </div>
+        </div>
+      </div>
+
+
+      {/* Options and Correct Answers Logic */}
+      {(question.question_type === 'mcq_single' || question.question_type === 'mcq_multiple') && (
+        <div className="bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4 md:mb-6">
+            <h4 className="text-sm md:text-base font-bold text-gray-900 uppercase tracking-wide">Options & Correct Answers</h4>
+            <button
+              type="button"
+              onClick={() => {
+                const updated = { ...question };
+                updated.options = [...(updated.options || []), `Option ${updated.options.length + 1}`];
+                onChange(updated);
+              }}
+              className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+            >
+              <Plus className="w-4 h-4 font-bold" /> Add Option
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+            {question.options.map((option, optIdx) => (
+              <div key={optIdx} className="flex items-center gap-3 bg-white p-2.5 md:p-3 rounded-xl border border-gray-100 shadow-sm group-hover:border-blue-100 transition-colors">
+                <input
+                  type={question.question_type === 'mcq_single' ? 'radio' : 'checkbox'}
+                  checked={question.correct_answers.includes(option)}
+                  onChange={() => {
+                    const updated = { ...question };
+                    if (question.question_type === 'mcq_single') {
+                      updated.correct_answers = [option];
+                    } else {
+                      const current = question.correct_answers;
+                      if (current.includes(option)) {
+                        updated.correct_answers = current.filter(a => a !== option);
+                      } else {
+                        updated.correct_answers = [...current, option];
+                      }
+                    }
+                    onChange(updated);
+                  }}
+                  className="w-4 h-4 md:w-5 md:h-5 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={option}
+                  onChange={(e) => {
+                    const updated = { ...question };
+                    const oldOption = updated.options[optIdx];
+                    updated.options = updated.options.map((o, i) => (i === optIdx ? e.target.value : o));
+                    updated.correct_answers = updated.correct_answers.map(a => a === oldOption ? e.target.value : a);
+                    const { [oldOption]: image, ...otherImages } = updated.option_images || {};
+                    updated.option_images = image ? { ...otherImages, [e.target.value]: image } : otherImages;
+                    updated.pinned_options = (updated.pinned_options || []).map(p => p === oldOption ? e.target.value : p);
+                    onChange(updated);
+                  }}
+                  className="flex-1 bg-transparent border-none outline-none text-sm md:text-base font-medium"
+                  placeholder={`Option ${optIdx + 1}`}
+                />
+                <ImageUploadField
+                  compact
+                  label="Add option image"
+                  value={question.option_images?.[option]}
+                  onChange={(url) => {
+                    const images = { ...(question.option_images || {}) };
+                    if (url) images[option] = url;
+                    else delete images[option];
+                    updateQuestion('option_images', images);
+                  }}
+                />
+                <button
+                  type="button"
+                  title={question.pinned_options?.includes(option) ? 'Pinned last when shuffling' : 'Pin last when shuffling'}
+                  onClick={() => {
+                    const pinned = question.pinned_options || [];
+                    updateQuestion('pinned_options', pinned.includes(option) ? pinned.filter(p => p !== option) : [...pinned, option]);
+                  }}
+                  className={`p-1.5 md:p-2 rounded-lg transition-all ${
+                    question.pinned_options?.includes(option) ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'
+                  }`}
+                >
+                  <Pin className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    const updated = { ...question };
+                    const removed = updated.options[optIdx];
+                    updated.options = updated.options.filter((_, i) => i !== optIdx);
+                    updated.correct_answers = updated.correct_answers.filter(a => a !== removed);
+                    updated.pinned_options = (updated.pinned_options || []).filter(p => p !== removed);
+                    onChange(updated);
+                  }}
+                  className="p-1.5 md:p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <label className="mt-4 flex items-center gap-2 text-xs md:text-sm font-semibold text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={question.shuffle_options !== false}
+              onChange={(e) => updateQuestion('shuffle_options', e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            Shuffle these options when the test shuffles options
+          </label>
+          <p className="text-[10px] md:text-xs text-gray-500 mt-1">
+            Pinned options (<Pin className="inline w-3 h-3" />) such as "All of the above" always come last, in the order entered.
+          </p>
+          {question.question_type === 'mcq_multiple' && (
+            <div className="mt-4 md:mt-6">
+              <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Scoring Mode</label>
+              <select
+                value={question.scoring_mode || 'all_or_nothing'}
+                onChange={(e) => updateQuestion('scoring_mode', e.target.value)}
+                className="w-full px-4 py-3 md:px-6 md:py-4 bg-white border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold shadow-sm"
+              >
+                {scoringModes.map((mode) => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+              <p className="text-[10px] md:text-xs text-gray-500 mt-1">
+                {scoringModes.find((mode) => mode.value === (question.scoring_mode || 'all_or_nothing'))?.hint}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {question.question_type === 'matching' && (
+        <MatchingPairsEditor
+          pairs={question.match_pairs || []}
+          distractors={question.match_distractors || []}
+          onPairsChange={(pairs) => updateQuestion('match_pairs', pairs)}
+          onDistractorsChange={(distractors) => updateQuestion('match_distractors', distractors)}
+        />
+      )}
+
+      {question.question_type === 'paragraph' && (
+        <RubricEditor
+          rubric={question.rubric}
+          questionMarks={Number(question.marks) || 0}
+          onChange={(rubric) => updateQuestion('rubric', rubric)}
+        />
+      )}
+
+      {question.question_type === 'ordering' && (
+        <div className="bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50 space-y-4 md:space-y-6">
+          <div>
+            <AcceptedAnswersEditor
+              label="Items in Correct Order"
+              values={question.correct_answers}
+              onChange={(values) => updateQuestion('correct_answers', values)}
+              placeholder="Next item in the sequence"
+              addLabel="Add Item"
+              required
+            />
+            <p className="text-[10px] md:text-xs text-gray-500 mt-1">Enter the items first to last. Students receive them in a shuffled order.</p>
+          </div>
+          <div>
+            <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Scoring Mode</label>
+            <select
+              value={question.scoring_mode || 'all_or_nothing'}
+              onChange={(e) => updateQuestion('scoring_mode', e.target.value)}
+              className="w-full px-4 py-3 md:px-6 md:py-4 bg-white border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold shadow-sm"
+            >
+              {orderingScoringModes.map((mode) => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+            <p className="text-[10px] md:text-xs text-gray-500 mt-1">
+              {orderingScoringModes.find((mode) => mode.value === (question.scoring_mode || 'all_or_nothing'))?.hint}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {question.question_type === 'true_false' && (
+        <div className="flex gap-4 md:gap-8 bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50">
+          {['True', 'False'].map((val) => (
+            <label key={val} className={`
+              flex-1 flex items-center justify-center gap-2 p-3 md:p-5 rounded-xl md:rounded-2xl border-2 transition-all cursor-pointer font-bold
+              ${question.correct_answers.includes(val)
+                ? 'bg-blue-600 text-white border-blue-600 shadow-lg shadow-blue-500/30 scale-105'
+                : 'bg-white text-gray-400 border-gray-100 hover:border-blue-200'}
+            `}>
+              <input
+                type="radio"
+                className="hidden"
+                checked={question.correct_answers.includes(val)}
+                onChange={() => {
+                  const updated = { ...question };
+                  updated.correct_answers = [val];
+                  onChange(updated);
+                }}
+              />
+              <span className="text-sm md:text-xl">{val}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {(question.question_type === 'fill_blank' || question.question_type === 'numerical' || question.question_type === 'short_answer') && (
+        <div className="space-y-4 md:space-y-6 bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50">
+          {question.question_type === 'fill_blank' ? (
+            <>
+              {countBlanks(question.question_text) >= 2 ? (
+                Array.from({ length: countBlanks(question.question_text) }, (_, blankIdx) => (
+                  <AcceptedAnswersEditor
+                    key={blankIdx}
+                    label={`Blank ${blankIdx + 1} - Accepted Answers`}
+                    values={question.blank_answers?.[blankIdx] || []}
+                    onChange={(values) => {
+                      const blankAnswers = Array.from(
+                        { length: countBlanks(question.question_text) },
+                        (_, i) => question.blank_answers?.[i] || []
+                      );
+                      blankAnswers[blankIdx] = values;
+                      updateQuestion('blank_answers', blankAnswers);
+                    }}
+                    required
+                  />
+                ))
+              ) : (
+                <>
+                  <AcceptedAnswersEditor
+                    label="Accepted Answers"
+                    values={question.correct_answers}
+                    onChange={(values) => updateQuestion('correct_answers', values)}
+                    placeholder="e.g. colour"
+                    required
+                  />
+                  <AcceptedAnswersEditor
+                    label="Accepted Patterns (Regular Expressions)"
+                    values={question.answer_config?.patterns || []}
+                    onChange={(values) => updateAnswerConfig({ patterns: values })}
+                    placeholder="e.g. (new )?delhi"
+                    addLabel="Add Pattern"
+                    monospace
+                  />
+                  <p className="text-[10px] md:text-xs text-gray-500">
+                    Tip: type ___ (three underscores) in the question text for each blank to create a multi-blank question.
+                    Marks are then shared equally between the blanks.
+                  </p>
+                </>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+                <div className="space-y-3">
+                  <label className="flex items-center gap-3 cursor-pointer group">
+                    <input
+                      type="checkbox"
+                      checked={!!question.answer_config?.normalize_whitespace}
+                      onChange={(e) => updateAnswerConfig({ normalize_whitespace: e.target.checked })}
+                      className="w-4 h-4 md:w-5 md:h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+                    />
+                    <span className="text-xs md:text-sm font-bold text-gray-600 group-hover:text-gray-900 transition-colors uppercase tracking-wide">Ignore Extra Spaces</span>
+                  </label>
+                  <label className="flex items-center gap-3 cursor-pointer group">
+                    <input
+                      type="checkbox"
+                      checked={!!question.answer_config?.ignore_punctuation}
+                      onChange={(e) => updateAnswerConfig({ ignore_punctuation: e.target.checked })}
+                      className="w-4 h-4 md:w-5 md:h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+                    />
+                    <span className="text-xs md:text-sm font-bold text-gray-600 group-hover:text-gray-900 transition-colors uppercase tracking-wide">Ignore Punctuation</span>
+                  </label>
+                </div>
+                <div>
+                  <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Spelling Tolerance (letters)</label>
+                  <input
+                    type="number"
+                    value={question.answer_config?.max_edit_distance ?? ''}
+                    onChange={(e) => updateAnswerConfig({ max_edit_distance: parseOptionalNumber(e.target.value) })}
+                    className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                    min="0"
+                    max="5"
+                    step="1"
+                    placeholder="0 (exact spelling)"
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Correct Answer <span className="text-red-500">*</span></label>
+              <input
+                type="text"
+                value={question.correct_answers[0]}
+                onChange={(e) => {
+                  const updated = { ...question };
+                  updated.correct_answers = [e.target.value];
+                  onChange(updated);
+                }}
+                className="w-full px-4 py-3 md:px-6 md:py-4 bg-white border border-gray-100 rounded-xl md:rounded-2xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base font-semibold shadow-sm"
+                placeholder={question.question_type === 'numerical' ? 'e.g. 3.14, 1/2 or 6.02e23' : 'Enter correct answer...'}
+                required
+              />
+            </div>
+          )}
+          {question.question_type === 'short_answer' && (
+            <>
+              <KeywordRulesEditor
+                rules={question.answer_config?.keywords || []}
+                onChange={(keywords) => updateAnswerConfig({ keywords })}
+              />
+              {(question.answer_config?.keywords || []).length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+                  <div>
+                    <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Auto-Accept Threshold (%)</label>
+                    <input
+                      type="number"
+                      value={question.answer_config?.keyword_threshold ?? ''}
+                      onChange={(e) => updateAnswerConfig({ keyword_threshold: parseOptionalNumber(e.target.value) })}
+                      className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                      min="0"
+                      max="100"
+                      step="1"
+                      placeholder="100 (every keyword)"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Spelling Tolerance (letters)</label>
+                    <input
+                      type="number"
+                      value={question.answer_config?.max_edit_distance ?? ''}
+                      onChange={(e) => updateAnswerConfig({ max_edit_distance: parseOptionalNumber(e.target.value) })}
+                      className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                      min="0"
+                      max="5"
+                      step="1"
+                      placeholder="0 (exact spelling)"
+                    />
+                  </div>
+                  <p className="md:col-span-2 text-[10px] md:text-xs text-gray-500">
+                    Answers with every required keyword and at least this share of all keywords get full marks; answers with none get zero.
+                    The rest get provisional marks and wait in the grading queue.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+          {question.question_type === 'numerical' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+              <div>
+                <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Absolute Tolerance (±)</label>
+                <input
+                  type="number"
+                  value={question.answer_config?.absolute_tolerance ?? ''}
+                  onChange={(e) => updateAnswerConfig({ absolute_tolerance: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                  min="0"
+                  step="any"
+                  placeholder="Exact match"
+                />
+              </div>
+              <div>
+                <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Relative Tolerance (%)</label>
+                <input
+                  type="number"
+                  value={question.answer_config?.relative_tolerance ?? ''}
+                  onChange={(e) => updateAnswerConfig({ relative_tolerance: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                  min="0"
+                  step="any"
+                  placeholder="e.g. 1 for ±1%"
+                />
+              </div>
+              <div>
+                <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Accepted Range (Min)</label>
+                <input
+                  type="number"
+                  value={question.answer_config?.min_value ?? ''}
+                  onChange={(e) => updateAnswerConfig({ min_value: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                  step="any"
+                  placeholder="No lower bound"
+                />
+              </div>
+              <div>
+                <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Accepted Range (Max)</label>
+                <input
+                  type="number"
+                  value={question.answer_config?.max_value ?? ''}
+                  onChange={(e) => updateAnswerConfig({ max_value: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                  step="any"
+                  placeholder="No upper bound"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Accepted Units</label>
+                <input
+                  type="text"
+                  value={(question.answer_config?.units || []).join(',')}
+                  onChange={(e) => updateAnswerConfig({ units: e.target.value === '' ? undefined : e.target.value.split(',') })}
+                  className="w-full px-4 py-3 bg-white border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base shadow-sm"
+                  placeholder="Comma separated, e.g. cm,centimetre"
+                />
+              </div>
+              <label className="flex items-center gap-3 cursor-pointer group md:col-span-2">
+                <input
+                  type="checkbox"
+                  checked={!!question.answer_config?.require_unit}
+                  onChange={(e) => updateAnswerConfig({ require_unit: e.target.checked })}
+                  className="w-4 h-4 md:w-5 md:h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+                />
+                <span className="text-xs md:text-sm font-bold text-gray-600 group-hover:text-gray-900 transition-colors uppercase tracking-wide">Unit Required</span>
+              </label>
+            </div>
+          )}
+          {question.question_type !== 'numerical' && (
+            <label className="flex items-center gap-3 cursor-pointer group">
+              <div className="relative flex items-center">
+                <input
+                  type="checkbox"
+                  checked={question.is_case_sensitive}
+                  onChange={(e) => updateQuestion('is_case_sensitive', e.target.checked)}
+                  className="w-4 h-4 md:w-5 md:h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+                />
+              </div>
+              <span className="text-xs md:text-sm font-bold text-gray-600 group-hover:text-gray-900 transition-colors uppercase tracking-wide">Case Sensitive</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-xs md:text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Explanation (shown in review)</label>
+        <textarea
+          value={question.explanation}
+          onChange={(e) => updateQuestion('explanation', e.target.value)}
+          className="w-full px-4 py-3 bg-gray-50 border border-gray-100 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm md:text-base min-h-[70px]"
+          placeholder="Optional worked solution or reasoning..."
+        />
+      </div>
+    </fieldset>
+  );
+}
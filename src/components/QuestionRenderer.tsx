@@ -1,6 +1,13 @@
 import type { Database } from '../lib/database.types';
+import { getAnswerConfig, getMatchingColumns, isMultiBlankQuestion } from '../lib/evaluation';
+import { parseNumericAnswer } from '../lib/numericAnswer';
+import { getOptionImages } from '../lib/questionImages';
+import { splitOnBlanks } from '../lib/textAnswer';
+import MatchingInput from './MatchingInput';
+import MathText from './MathText';
+import OrderingInput from './OrderingInput';
 
-type Question = Database['public']['Tables']['questions']['Row'];
+type Question = Database['public']['Functions']['get_test_questions']['Returns'][number];
 
 interface QuestionRendererProps {
   question: Question;
@@ -16,6 +23,42 @@ export default function QuestionRenderer({
   displayNumber,
 }: QuestionRendererProps) {
   const options = (question.options as string[]) || [];
+  const answerConfig = getAnswerConfig(question);
+  const isMultiBlank = isMultiBlankQuestion(question);
+  const optionImages = getOptionImages(question);
+
+  const renderOptionLabel = (option: string) => (
+    <span className="ml-3 text-gray-700 flex flex-col gap-2">
+      <MathText text={option} />
+      {optionImages[option] && (
+        <img src={optionImages[option]} alt={option} className="max-h-32 max-w-full object-contain rounded" />
+      )}
+    </span>
+  );
+
+  const renderInlineBlanks = () => {
+    const segments = splitOnBlanks(question.question_text);
+    const responses: string[] = Array.isArray(answer) ? answer : [];
+    return segments.map((segment, idx) => (
+      <span key={idx}>
+        <MathText text={segment} />
+        {idx < segments.length - 1 && (
+          <input
+            type="text"
+            value={responses[idx] || ''}
+            onChange={(e) => {
+              const next = Array.from({ length: segments.length - 1 }, (_, i) => responses[i] || '');
+              next[idx] = e.target.value;
+              onAnswerChange(next);
+            }}
+            aria-label={`Blank ${idx + 1}`}
+            placeholder={`(${idx + 1})`}
+            className="inline-block w-32 md:w-40 mx-1 px-2 py-1 border-b-2 border-blue-400 bg-blue-50/50 rounded-t text-base font-medium text-blue-900 focus:outline-none focus:border-blue-600 focus:bg-blue-50"
+          />
+        )}
+      </span>
+    ));
+  };
 
   const renderQuestion = () => {
     switch (question.question_type) {
@@ -35,7 +78,7 @@ export default function QuestionRenderer({
                   onChange={(e) => onAnswerChange(e.target.value)}
                   className="w-5 h-5 text-blue-600"
                 />
-                <span className="ml-3 text-gray-700">{option}</span>
+                {renderOptionLabel(option)}
               </label>
             ))}
           </div>
@@ -62,7 +105,7 @@ export default function QuestionRenderer({
                   }}
                   className="w-5 h-5 text-blue-600 rounded"
                 />
-                <span className="ml-3 text-gray-700">{option}</span>
+                {renderOptionLabel(option)}
               </label>
             ))}
             <p className="text-sm text-gray-500 italic">Select all that apply</p>
@@ -70,6 +113,9 @@ export default function QuestionRenderer({
         );
 
       case 'fill_blank':
+        if (isMultiBlank) {
+          return <p className="text-sm text-gray-500 italic">Type your answer in each blank above</p>;
+        }
         return (
           <input
             type="text"
@@ -108,14 +154,56 @@ export default function QuestionRenderer({
           </div>
         );
 
-      case 'numerical':
+      case 'numerical': {
+        const units = answerConfig.units || [];
+        const parsed = parseNumericAnswer(answer, units);
+        const hasInput = answer !== undefined && answer !== null && String(answer).trim() !== '';
         return (
-          <input
-            type="number"
-            value={answer || ''}
-            onChange={(e) => onAnswerChange(e.target.value)}
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-            placeholder="Enter numerical answer"
+          <div className="space-y-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={answer || ''}
+              onChange={(e) => onAnswerChange(e.target.value)}
+              className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none font-mono ${hasInput && parsed.value === null ? 'border-red-300' : 'border-gray-300'}`}
+              placeholder={units.length > 0 ? `Enter numerical answer, e.g. 12.5 ${units[0]}` : 'Enter numerical answer'}
+            />
+            <p className="text-sm text-gray-500">
+              Decimals, fractions (3/4) and powers of ten (1.2e3 or 1.2 x 10^3) are accepted.
+              {units.length > 0 && ` Units: ${units.join(', ')}${answerConfig.require_unit ? ' (required)' : ''}.`}
+            </p>
+            {hasInput && (
+              parsed.value === null ? (
+                <p className="text-sm text-red-600">This does not look like a number.</p>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Read as <span className="font-mono font-semibold">{parsed.value}</span>{parsed.unit ? ` ${parsed.unit}` : ''}
+                </p>
+              )
+            )}
+          </div>
+        );
+      }
+
+      case 'matching': {
+        const { left, right } = getMatchingColumns(question);
+        return (
+          <MatchingInput
+            left={left}
+            right={right}
+            value={Array.isArray(answer) ? answer : []}
+            onChange={onAnswerChange}
+          />
+        );
+      }
+
+      case 'ordering':
+        return (
+          <OrderingInput
+            items={Array.isArray(question.options) ? (question.options as string[]) : []}
+            value={Array.isArray(answer) ? answer : undefined}
+            onChange={onAnswerChange}
           />
         );
 
@@ -152,12 +240,19 @@ export default function QuestionRenderer({
       <div className="mb-6">
         <div className="flex items-start justify-between mb-4">
           <h2 className="text-xl font-semibold text-gray-900 flex-1">
-            Q{displayNumber || question.question_number}. {question.question_text}
+            Q{displayNumber || question.question_number}. {isMultiBlank ? renderInlineBlanks() : <MathText text={question.question_text} />}
           </h2>
           <span className="ml-4 px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm font-medium whitespace-nowrap">
             {question.marks} {question.marks === 1 ? 'mark' : 'marks'}
           </span>
         </div>
+        {question.image_url && (
+          <img
+            src={question.image_url}
+            alt={`Diagram for question ${displayNumber || question.question_number}`}
+            className="max-h-80 max-w-full object-contain rounded-lg border border-gray-200"
+          />
+        )}
       </div>
 
       {renderQuestion()}
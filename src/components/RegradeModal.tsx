@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, RefreshCw, ArrowRight } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { roundMarks } from '../lib/evaluation';
+import { GRADER_NAME_KEY } from '../lib/manualGrading';
+import { applyRegrade, getRegradeAudits, previewRegrade, type RegradeAudit, type RegradePreview } from '../lib/regrade';
+import type { Database } from '../lib/database.types';
+
+type Test = Database['public']['Tables']['tests']['Row'];
+// Only what the question picker shows; the anon key cannot read the answer key
+type Question = Pick<Database['public']['Tables']['questions']['Row'], 'id' | 'question_number' | 'question_text'>;
+
+interface RegradeModalProps {
+  test: Test;
+  onClose: () => void;
+}
+
+const formatMarks = (isCorrect: boolean | null, marks: number) =>
+  isCorrect === null ? `${marks} (pending)` : String(marks);
+
+export default function RegradeModal({ test, onClose }: RegradeModalProps) {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questionId, setQuestionId] = useState('all');
+  const [performedBy, setPerformedBy] = useState(() => localStorage.getItem(GRADER_NAME_KEY) || '');
+  const [preview, setPreview] = useState<RegradePreview | null>(null);
+  const [audits, setAudits] = useState<RegradeAudit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const loadQuestions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('id, question_number, question_text')
+      .eq('test_id', test.id)
+      .order('question_number', { ascending: true });
+
+    if (error) {
+      console.error('Error loading questions:', error);
+      return;
+    }
+    setQuestions(data || []);
+  }, [test.id]);
+
+  const loadAudits = useCallback(async () => {
+    try {
+      setAudits(await getRegradeAudits(test.id));
+    } catch (error) {
+      console.error('Error loading re-grade history:', error);
+    }
+  }, [test.id]);
+
+  useEffect(() => {
+    loadQuestions();
+    loadAudits();
+  }, [loadQuestions, loadAudits]);
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setPreview(null);
+    try {
+      setPreview(await previewRegrade(test.id, questionId === 'all' ? null : questionId));
+    } catch (error) {
+      console.error('Error previewing re-grade:', error);
+      alert('Failed to re-evaluate answers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview || preview.changes.length === 0) return;
+    if (!performedBy.trim()) {
+      alert('Enter your name so the change can be recorded');
+      return;
+    }
+    if (!confirm(`Update the scores of ${preview.changes.length} student(s)? This will be recorded in the re-grade history.`)) {
+      return;
+    }
+
+    setApplying(true);
+    try {
+      localStorage.setItem(GRADER_NAME_KEY, performedBy);
+      await applyRegrade(preview, performedBy);
+      setPreview(null);
+      loadAudits();
+      alert('Scores updated');
+    } catch (error) {
+      console.error('Error applying re-grade:', error);
+      alert(`Failed to apply the re-grade: ${error instanceof Error ? error.message : 'unknown error'}. No scores were changed.`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-2 md:p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[96vh] flex flex-col shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-4 md:px-8 py-4 md:py-6 border-b border-gray-100 flex items-center justify-between sticky top-0 bg-white z-20">
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900">Re-grade Test</h2>
+            <p className="text-[10px] md:text-sm text-gray-500 mt-1 uppercase tracking-wider font-semibold">{test.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-all"
+          >
+            <X className="w-5 h-5 md:w-6 md:h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-6">
+          <p className="text-sm text-gray-600">
+            Re-evaluates every stored answer with the current answer key. Review the changes before applying them.
+            Answers marked by a grader keep their marks.
+          </p>
+
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1">
+              <label className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">Scope</label>
+              <select
+                value={questionId}
+                onChange={(e) => {
+                  setQuestionId(e.target.value);
+                  setPreview(null);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              >
+                <option value="all">Whole test</option>
+                {questions.map((q) => (
+                  <option key={q.id} value={q.id}>Q{q.question_number}. {q.question_text.slice(0, 60)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:w-56">
+              <label className="block text-xs font-bold text-gray-500 mb-1 uppercase tracking-wide">Your Name</label>
+              <input
+                type="text"
+                value={performedBy}
+                onChange={(e) => setPerformedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                placeholder="Recorded in the history"
+              />
+            </div>
+            <button
+              onClick={handlePreview}
+              disabled={loading}
+              className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-semibold transition disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              {loading ? 'Checking...' : 'Preview Changes'}
+            </button>
+          </div>
+
+          {preview && (
+            preview.changes.length === 0 ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+                Checked {preview.submissionsChecked} submission(s): no scores change with the current answer key.
+              </div>
+            ) : (
+              <div className="border border-gray-200 rounded-xl overflow-hidden">
+                <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <p className="text-sm text-gray-700">
+                    <span className="font-bold">{preview.changes.length}</span> of {preview.submissionsChecked} submission(s) change
+                  </p>
+                  <button
+                    onClick={handleApply}
+                    disabled={applying}
+                    className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-semibold transition disabled:opacity-50"
+                  >
+                    {applying ? 'Applying...' : 'Apply Changes'}
+                  </button>
+                </div>
+                <div className="overflow-x-auto max-h-[50vh]">
+                  <table className="w-full text-sm">
+                    <thead className="bg-white sticky top-0 shadow-sm">
+                      <tr>
+                        <th className="px-4 py-2 text-left">Student</th>
+                        <th className="px-4 py-2 text-left">Score</th>
+                        <th className="px-4 py-2 text-left">Percentage</th>
+                        <th className="px-4 py-2 text-left">Changed Answers</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {preview.changes.map((change) => {
+                        const delta = roundMarks(change.newScore - change.oldScore);
+                        return (
+                          <tr key={change.submissionId} className="align-top">
+                            <td className="px-4 py-2">
+                              <span className="font-medium block">{change.studentName}</span>
+                              <span className="text-xs text-gray-500">{change.studentCode}</span>
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap">
+                              {change.oldScore} <ArrowRight className="inline w-3 h-3 text-gray-400" /> <span className="font-bold">{change.newScore}</span>
+                              <span className={`ml-2 text-xs font-bold ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                {delta > 0 ? '+' : ''}{delta}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap">
+                              {change.oldPercentage}% <ArrowRight className="inline w-3 h-3 text-gray-400" /> {change.newPercentage}%
+                            </td>
+                            <td className="px-4 py-2 text-xs text-gray-600">
+                              {change.answers.map((answer) => (
+                                <span key={answer.answerId} className="block">
+                                  Q{answer.questionNumber}: {formatMarks(answer.oldIsCorrect, answer.oldMarks)} → {formatMarks(answer.newIsCorrect, answer.newMarks)}
+                                </span>
+                              ))}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )
+          )}
+
+          <div>
+            <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-2">Re-grade History</h3>
+            {audits.length === 0 ? (
+              <p className="text-sm text-gray-500">This test has not been re-graded.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg text-sm">
+                {audits.map((audit) => {
+                  const question = questions.find((q) => q.id === audit.question_id);
+                  return (
+                    <li key={audit.id} className="px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-1">
+                      <span>
+                        <span className="font-medium">{audit.performed_by || 'Unknown'}</span> re-graded{' '}
+                        {audit.question_id ? `Q${question?.question_number ?? '?'}` : 'the whole test'}, {audit.submissions_affected} submission(s) changed
+                      </span>
+                      <span className="text-xs text-gray-500">{new Date(audit.created_at).toLocaleString()}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { createCriterion, getRubricMaxMarks, type Rubric, type RubricCriterion, type RubricLevel } from '../lib/rubric';
+
+interface RubricEditorProps {
+  rubric: Rubric | null;
+  questionMarks: number;
+  onChange: (rubric: Rubric | null) => void;
+}
+
+export default function RubricEditor({ rubric, questionMarks, onChange }: RubricEditorProps) {
+  if (!rubric) {
+    return (
+      <div className="bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="text-sm md:text-base font-bold text-gray-900 uppercase tracking-wide">Grading Rubric</h4>
+          <p className="text-[10px] md:text-xs text-gray-500 mt-1">Optional. Graders score each criterion by picking a level.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({ criteria: [createCriterion('Content'), createCriterion('Grammar'), createCriterion('Organisation')] })}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> Add Rubric
+        </button>
+      </div>
+    );
+  }
+
+  const maxMarks = getRubricMaxMarks(rubric);
+
+  const updateCriterion = (idx: number, changes: Partial<RubricCriterion>) => {
+    onChange({ criteria: rubric.criteria.map((c, i) => (i === idx ? { ...c, ...changes } : c)) });
+  };
+
+  const updateLevel = (criterionIdx: number, levelIdx: number, changes: Partial<RubricLevel>) => {
+    const criterion = rubric.criteria[criterionIdx];
+    updateCriterion(criterionIdx, {
+      levels: criterion.levels.map((level, i) => (i === levelIdx ? { ...level, ...changes } : level)),
+    });
+  };
+
+  return (
+    <div className="bg-gray-50/50 p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-gray-100/50 space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="text-sm md:text-base font-bold text-gray-900 uppercase tracking-wide">Grading Rubric</h4>
+          <p className={`text-[10px] md:text-xs mt-1 ${maxMarks === questionMarks ? 'text-gray-500' : 'text-red-600 font-semibold'}`}>
+            Rubric total: {maxMarks} of {questionMarks} marks{maxMarks !== questionMarks && ' - the top levels must add up to the question marks'}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => onChange({ criteria: [...rubric.criteria, createCriterion()] })}
+            className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+          >
+            <Plus className="w-4 h-4" /> Add Criterion
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="text-red-500 text-xs md:text-sm font-bold hover:underline"
+          >
+            Remove Rubric
+          </button>
+        </div>
+      </div>
+
+      {rubric.criteria.map((criterion, criterionIdx) => (
+        <div key={criterion.id} className="bg-white p-3 md:p-4 rounded-xl border border-gray-100 shadow-sm space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={criterion.name}
+              onChange={(e) => updateCriterion(criterionIdx, { name: e.target.value })}
+              className="flex-1 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg outline-none focus:border-blue-500 text-sm md:text-base font-semibold"
+              placeholder="Criterion, e.g. Content"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ criteria: rubric.criteria.filter((_, i) => i !== criterionIdx) })}
+              disabled={rubric.criteria.length <= 1}
+              className="p-1.5 md:p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Remove Criterion"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {criterion.levels.map((level, levelIdx) => (
+              <div key={levelIdx} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  value={level.label}
+                  onChange={(e) => updateLevel(criterionIdx, levelIdx, { label: e.target.value })}
+                  className="col-span-4 sm:col-span-3 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg outline-none focus:border-blue-500 text-sm"
+                  placeholder="Level"
+                />
+                <input
+                  type="text"
+                  value={level.description}
+                  onChange={(e) => updateLevel(criterionIdx, levelIdx, { description: e.target.value })}
+                  className="col-span-8 sm:col-span-6 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg outline-none focus:border-blue-500 text-sm"
+                  placeholder="What an answer at this level looks like"
+                />
+                <input
+                  type="number"
+                  value={level.marks}
+                  onChange={(e) => updateLevel(criterionIdx, levelIdx, { marks: parseFloat(e.target.value) || 0 })}
+                  className="col-span-8 sm:col-span-2 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg outline-none focus:border-blue-500 text-sm"
+                  min="0"
+                  step="0.5"
+                  title="Marks for this level"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateCriterion(criterionIdx, { levels: criterion.levels.filter((_, i) => i !== levelIdx) })}
+                  disabled={criterion.levels.length <= 2}
+                  className="col-span-4 sm:col-span-1 p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all disabled:opacity-30 disabled:hover:bg-transparent justify-self-center"
+                  title="Remove Level"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => updateCriterion(criterionIdx, { levels: [...criterion.levels, { label: '', description: '', marks: 0 }] })}
+            className="text-blue-600 text-xs font-bold hover:underline flex items-center gap-1"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add Level
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
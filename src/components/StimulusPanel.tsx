@@ -0,0 +1,52 @@
+import { getStimulusTable, type QuestionGroup } from '../lib/questionGroups';
+import MathText from './MathText';
+
+interface StimulusPanelProps {
+  group: Pick<QuestionGroup, 'title' | 'stimulus_text' | 'stimulus_image_url' | 'stimulus_table'>;
+  // e.g. "Questions 3–5", the questions on the student's paper that use this stimulus
+  questionRange?: string;
+}
+
+/** The shared passage, image or table of a question group, shown beside its questions. */
+export default function StimulusPanel({ group, questionRange }: StimulusPanelProps) {
+  const [header, ...rows] = getStimulusTable(group);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6 flex flex-col gap-4">
+      <div className="border-b border-gray-100 pb-3">
+        <h3 className="text-sm md:text-base font-bold text-gray-900">{group.title.trim() || 'Read the following'}</h3>
+        {questionRange && (
+          <p className="text-[10px] md:text-xs text-gray-500 mt-0.5">{questionRange} refer to this</p>
+        )}
+      </div>
+      {group.stimulus_text.trim() && (
+        <MathText text={group.stimulus_text} className="block text-sm md:text-base text-gray-800 leading-relaxed whitespace-pre-wrap" />
+      )}
+      {group.stimulus_image_url && (
+        <img src={group.stimulus_image_url} alt={group.title || 'Stimulus'} className="max-h-96 max-w-full object-contain rounded-lg border border-gray-100" />
+      )}
+      {header && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs md:text-sm border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {header.map((cell, idx) => (
+                  <th key={idx} className="px-3 py-2 border border-gray-200 font-bold text-gray-700"><MathText text={cell} /></th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, rowIdx) => (
+                <tr key={rowIdx}>
+                  {header.map((_, idx) => (
+                    <td key={idx} className="px-3 py-2 border border-gray-200 text-gray-800"><MathText text={row[idx] || ''} /></td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
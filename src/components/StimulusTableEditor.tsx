@@ -0,0 +1,95 @@
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface StimulusTableEditorProps {
+  // Rows of cell text; the first row is the header
+  rows: string[][];
+  onChange: (rows: string[][]) => void;
+}
+
+export default function StimulusTableEditor({ rows, onChange }: StimulusTableEditorProps) {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+
+  const updateCell = (rowIdx: number, colIdx: number, value: string) => {
+    onChange(rows.map((row, r) => (r === rowIdx ? Array.from({ length: width }, (_, c) => (c === colIdx ? value : row[c] || '')) : row)));
+  };
+
+  if (rows.length === 0) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange([['', ''], ['', '']])}
+        className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+      >
+        <Plus className="w-4 h-4" /> Add Table
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <tbody>
+            {rows.map((row, rowIdx) => (
+              <tr key={rowIdx}>
+                {Array.from({ length: width }, (_, colIdx) => (
+                  <td key={colIdx} className="p-1">
+                    <input
+                      type="text"
+                      value={row[colIdx] || ''}
+                      onChange={(e) => updateCell(rowIdx, colIdx, e.target.value)}
+                      className={`w-32 px-2 py-1.5 border border-gray-200 rounded-lg outline-none focus:border-blue-500 ${
+                        rowIdx === 0 ? 'bg-gray-100 font-bold' : 'bg-white'
+                      }`}
+                      placeholder={rowIdx === 0 ? `Heading ${colIdx + 1}` : ''}
+                    />
+                  </td>
+                ))}
+                <td className="p-1">
+                  <button
+                    type="button"
+                    onClick={() => onChange(rows.filter((_, r) => r !== rowIdx))}
+                    className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                    title="Remove row"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              {Array.from({ length: width }, (_, colIdx) => (
+                <td key={colIdx} className="p-1 text-center">
+                  <button
+                    type="button"
+                    onClick={() => onChange(width > 1 ? rows.map((row) => row.filter((_, c) => c !== colIdx)) : [])}
+                    className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                    title="Remove column"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={() => onChange([...rows, Array.from({ length: width }, () => '')])}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> Add Row
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(rows.map((row) => [...Array.from({ length: width }, (_, c) => row[c] || ''), '']))}
+          className="text-blue-600 text-xs md:text-sm font-bold hover:underline flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> Add Column
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { invokeAdminAction } from '../lib/adminSession';
+import { isAnswered } from '../lib/evaluation';
+import { defaultShuffleSettings, getPaperSnapshot, orderAnswersAsShown } from '../lib/paperOrder';
+import type { Submission } from '../lib/attempts';
+import type { Database } from '../lib/database.types';
+import MathText from './MathText';
+
+type Question = Database['public']['Tables']['questions']['Row'];
+type Answer = Database['public']['Tables']['answers']['Row'] & { questions: Question | null };
+
+interface SubmissionPaperModalProps {
+  submission: Submission;
+  onClose: () => void;
+}
+
+/** A student's paper in the order they saw it, for settling "what was my question 7" disputes. */
+export default function SubmissionPaperModal({ submission, onClose }: SubmissionPaperModalProps) {
+  const [answers, setAnswers] = useState<(Answer & { shown_options: string[] })[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadPaper = useCallback(async () => {
+    try {
+      // Read through the edge function, since students only get the answer key once the test has closed
+      const paperAnswers = await invokeAdminAction<Answer[]>('submission_review', { submission_id: submission.id });
+
+      // Attempts started before snapshots were stored are rebuilt from the test as it is now
+      let snapshot = getPaperSnapshot(submission);
+      if (!snapshot) {
+        const { data: sectionsData, error: sectionsError } = await supabase
+          .from('test_sections')
+          .select('id, position')
+          .eq('test_id', submission.test_id);
+        if (sectionsError) throw sectionsError;
+
+        const { data: shuffleSettings, error: shuffleSettingsError } = await supabase
+          .from('tests')
+          .select('question_shuffle, shuffle_options')
+          .eq('id', submission.test_id)
+          .maybeSingle();
+        if (shuffleSettingsError) throw shuffleSettingsError;
+
+        snapshot = {
+          ...(shuffleSettings ?? defaultShuffleSettings),
+          sections: sectionsData || [],
+          questions: paperAnswers.flatMap((answer) => (answer.questions ? [answer.questions] : [])),
+        };
+      }
+
+      setAnswers(orderAnswersAsShown(paperAnswers, snapshot, submission.shuffle_seed));
+    } catch (error) {
+      console.error('Error loading paper:', error);
+      alert('Failed to load the student\'s paper');
+    } finally {
+      setLoading(false);
+    }
+  }, [submission]);
+
+  useEffect(() => {
+    loadPaper();
+  }, [loadPaper]);
+
+  const formatStudentAnswer = (value: unknown) => {
+    if (!isAnswered(value)) return 'Not answered';
+    if (!Array.isArray(value)) return String(value);
+    return value.map((v) => (Array.isArray(v) ? v.join(' / ') : v || '—')).join(', ');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-2 md:p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[92vh] flex flex-col shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-4 md:px-8 py-4 md:py-6 border-b border-gray-100 flex items-center justify-between bg-white">
+          <div>
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900">{submission.student_name}'s Paper</h2>
+            <p className="text-[10px] md:text-sm text-gray-500 mt-1 uppercase tracking-wider font-semibold">
+              {submission.student_code}
+              {submission.shuffle_seed !== null ? ` · Seed ${submission.shuffle_seed}` : ' · Shown in test order'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-all"
+          >
+            <X className="w-5 h-5 md:w-6 md:h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar">
+          {submission.shuffle_seed === null && (
+            <p className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-sm">
+              This attempt was made before question order was recorded, so the order the student saw cannot be rebuilt.
+            </p>
+          )}
+          {loading ? (
+            <div className="text-center py-12 text-gray-500 animate-pulse">Loading paper...</div>
+          ) : answers.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No answers recorded for this submission.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-gray-100 text-[10px] md:text-xs font-bold text-gray-500 uppercase tracking-widest">
+                    <th className="px-3 py-3">Shown As</th>
+                    <th className="px-3 py-3">Test Q</th>
+                    <th className="px-3 py-3">Question</th>
+                    <th className="px-3 py-3">Options As Shown</th>
+                    <th className="px-3 py-3">Answer</th>
+                    <th className="px-3 py-3 text-right">Marks</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {answers.map((answer, idx) => (
+                    <tr key={answer.id} className="align-top">
+                      <td className="px-3 py-3 font-bold text-gray-900">Q{idx + 1}</td>
+                      <td className="px-3 py-3 text-gray-500">{answer.questions ? `Q${answer.questions.question_number}` : '—'}</td>
+                      <td className="px-3 py-3 text-gray-900 max-w-xs">
+                        {answer.questions ? <MathText text={answer.questions.question_text} /> : <span className="italic text-gray-400">Question deleted</span>}
+                      </td>
+                      <td className="px-3 py-3 text-gray-600">
+                        {answer.shown_options.length > 0
+                          ? answer.shown_options.map((option, optionIdx) => (
+                              <span key={optionIdx} className="block">{optionIdx + 1}. <MathText text={option} /></span>
+                            ))
+                          : '—'}
+                      </td>
+                      <td className="px-3 py-3 text-gray-900">
+                        <MathText text={formatStudentAnswer(answer.student_answer)} />
+                      </td>
+                      <td className="px-3 py-3 text-right font-semibold text-gray-900 whitespace-nowrap">
+                        {Number(answer.marks_awarded) || 0}/{answer.questions?.marks ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,16 @@
 import { useState, useEffect } from 'react';
-import { X, Download, AlertCircle, Trash2 } from 'lucide-react';
+import { X, Download, AlertCircle, Trash2, FileSearch } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { invokeAdminAction } from '../lib/adminSession';
+import { SUBMISSION_COLUMNS, type Submission } from '../lib/attempts';
 import { exportToExcel } from '../lib/excelExport';
+import { getDrawnQuestionIds, getPaperComposition, type QuestionPool } from '../lib/pools';
+import { getSectionScores } from '../lib/sections';
 import type { Database } from '../lib/database.types';
+import SubmissionPaperModal from './SubmissionPaperModal';
 
-type Submission = Database['public']['Tables']['submissions']['Row'];
 type Test = Database['public']['Tables']['tests']['Row'];
+type Question = Database['public']['Tables']['questions']['Row'];
 
 interface ViewResultsModalProps {
   testId: string;
@@ -15,7 +20,10 @@ interface ViewResultsModalProps {
 export default function ViewResultsModal({ testId, onClose }: ViewResultsModalProps) {
   const [test, setTest] = useState<Test | null>(null);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [pools, setPools] = useState<QuestionPool[]>([]);
+  const [questions, setQuestions] = useState<Pick<Question, 'id' | 'question_number' | 'pool_id' | 'marks'>[]>([]);
   const [loading, setLoading] = useState(true);
+  const [paperSubmission, setPaperSubmission] = useState<Submission | null>(null);
 
   useEffect(() => {
     loadData();
@@ -32,12 +40,31 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
       if (testError) throw testError;
       setTest(testData);
 
+      // Attempts still in progress (or replaced by a retest) are not ranked or exported
       const { data: submissionsData, error: submissionsError } = await supabase
         .from('submissions')
+        .select(SUBMISSION_COLUMNS)
+        .eq('test_id', testId)
+        .in('status', ['completed', 'auto_submitted']);
+
+      if (submissionsError) throw submissionsError;
+
+      // Pools and their questions, to show which questions each student drew
+      const { data: poolsData, error: poolsError } = await supabase
+        .from('question_pools')
         .select('*')
         .eq('test_id', testId);
+      if (poolsError) throw poolsError;
+      setPools((poolsData || []) as QuestionPool[]);
 
-      if (submissionsError) throw submissionsError;
+      if (poolsData && poolsData.length > 0) {
+        const { data: questionsData, error: questionsError } = await supabase
+          .from('questions')
+          .select('id, question_number, pool_id, marks')
+          .eq('test_id', testId);
+        if (questionsError) throw questionsError;
+        setQuestions((questionsData || []) as Pick<Question, 'id' | 'question_number' | 'pool_id' | 'marks'>[]);
+      }
 
       const sortedSubmissions = (submissionsData || []).sort((a: any, b: any) => {
         // 1. Sort by percentage (descending - higher is better)
@@ -65,12 +92,7 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
 
     try {
       setLoading(true);
-      const { error } = await supabase
-        .from('submissions')
-        .delete()
-        .eq('id', submissionId);
-
-      if (error) throw error;
+      await invokeAdminAction('delete_submission', { submission_id: submissionId });
 
       // Reload data to update list and rankings
       await loadData();
@@ -108,6 +130,19 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
 
   const malpracticeCount = submissions.filter((s) => s.malpractice_detected).length;
 
+  // Average percentage per section, in the order the sections appear in the submissions
+  const sectionAverages = Array.from(
+    submissions
+      .flatMap((s) => getSectionScores(s))
+      .reduce((totals, section) => {
+        const current = totals.get(section.section_id) ?? { title: section.title, percentageSum: 0, count: 0 };
+        current.percentageSum += section.total_marks > 0 ? (section.score / section.total_marks) * 100 : 0;
+        current.count += 1;
+        return totals.set(section.section_id, current);
+      }, new Map<string, { title: string; percentageSum: number; count: number }>())
+      .entries()
+  );
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-2 md:p-4">
       <div className="bg-white rounded-2xl w-full max-w-7xl max-h-[96vh] flex flex-col shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
@@ -166,6 +201,17 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
                 </div>
               </div>
 
+              {sectionAverages.length > 0 && (
+                <div className="flex flex-wrap gap-2 md:gap-3">
+                  {sectionAverages.map(([sectionId, section]) => (
+                    <div key={sectionId} className="bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 md:px-4">
+                      <p className="text-[10px] md:text-xs font-bold text-gray-500 uppercase tracking-widest">{section.title} Average</p>
+                      <p className="text-base md:text-lg font-bold text-gray-900">{Math.round(section.percentageSum / section.count)}%</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Submissions Table */}
               <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm animate-in slide-in-from-bottom-4 duration-400 delay-75">
                 <div className="p-4 md:p-6 border-b border-gray-100 bg-gray-50/50 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -236,12 +282,26 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
                                   {(s.percentage || 0).toFixed(1)}%
                                 </span>
                                 <span className="text-[10px] text-gray-400 font-medium uppercase tracking-tighter">{s.score}/{s.total_marks} Marks</span>
+                                {getSectionScores(s).map((section) => (
+                                  <span key={section.section_id} className="text-[10px] text-gray-500">
+                                    {section.title}: {section.score}/{section.total_marks}
+                                  </span>
+                                ))}
                               </div>
                             </td>
                             <td className="px-4 md:px-6 py-4">
                               <div className="flex flex-col gap-1">
                                 <span className="text-xs text-gray-600 font-bold uppercase tracking-tighter">Time: {formatTime(s.time_taken_seconds || 0)}</span>
                                 {s.father_name && <span className="text-[9px] text-gray-500 italic">Father: {s.father_name}</span>}
+                                {getPaperComposition(pools, questions, getDrawnQuestionIds(s)).map((draw) => (
+                                  <span
+                                    key={draw.pool_id}
+                                    className="text-[9px] text-gray-500 max-w-[14rem] truncate"
+                                    title={`${draw.title}: Q${draw.question_numbers.join(', Q')} (${draw.marks} marks)`}
+                                  >
+                                    {draw.title}: {draw.question_numbers.length > 0 ? `Q${draw.question_numbers.join(', Q')}` : 'none'}
+                                  </span>
+                                ))}
                               </div>
                             </td>
                             <td className="px-4 md:px-6 py-4">
@@ -257,9 +317,23 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
                               </div>
                             </td>
                             <td className="px-4 md:px-6 py-4">
-                              {getStatusBadge(s.status || '')}
+                              <div className="flex flex-col gap-1">
+                                {getStatusBadge(s.status || '')}
+                                {s.submitted_late && (
+                                  <span className="px-2 py-1 bg-amber-100 text-amber-800 text-xs rounded-full w-fit" title="Reached the server after the deadline and grace period">
+                                    Late
+                                  </span>
+                                )}
+                              </div>
                             </td>
                             <td className="px-4 md:px-6 py-4 text-right">
+                              <button
+                                onClick={() => setPaperSubmission(s)}
+                                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                                title="View Paper As Shown"
+                              >
+                                <FileSearch className="w-4 h-4 md:w-5 md:h-5" />
+                              </button>
                               <button
                                 onClick={() => handleDelete(s.id, s.student_name)}
                                 className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
@@ -279,6 +353,10 @@ export default function ViewResultsModal({ testId, onClose }: ViewResultsModalPr
           )}
         </div>
       </div>
+
+      {paperSubmission && (
+        <SubmissionPaperModal submission={paperSubmission} onClose={() => setPaperSubmission(null)} />
+      )}
     </div >
   );
 }
@@ -0,0 +1,47 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+/** sessionStorage key holding the admin password for the `admin-actions` edge function. */
+const ADMIN_PASSWORD_KEY = 'admin_password';
+
+/** Checks the password with the edge function and keeps it for this browser tab. */
+export async function startAdminSession(password: string) {
+  const { data, error } = await supabase.functions.invoke('admin-actions', {
+    body: { action: 'verify', password },
+  });
+  await throwActionError(error);
+  if (!data?.ok) throw new Error('Invalid admin password');
+  sessionStorage.setItem(ADMIN_PASSWORD_KEY, password);
+}
+
+export function hasAdminSession(): boolean {
+  return !!sessionStorage.getItem(ADMIN_PASSWORD_KEY);
+}
+
+export function clearAdminSession() {
+  sessionStorage.removeItem(ADMIN_PASSWORD_KEY);
+}
+
+/**
+ * Runs an admin-only action in the `admin-actions` edge function, which checks
+ * the admin password and reads or writes with the service role key.
+ */
+export async function invokeAdminAction<T = unknown>(action: string, payload: Record<string, unknown> = {}): Promise<T> {
+  const password = sessionStorage.getItem(ADMIN_PASSWORD_KEY);
+  if (!password) throw new Error('Your admin session has expired. Please log in again.');
+
+  const { data, error } = await supabase.functions.invoke('admin-actions', {
+    body: { ...payload, action, password },
+  });
+  await throwActionError(error);
+  return data as T;
+}
+
+// Non-2xx responses carry the reason in their body rather than in the error
+async function throwActionError(error: unknown) {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  if (error) throw error;
+}
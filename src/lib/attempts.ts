@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+
+export type Attempt = Database['public']['Functions']['start_attempt']['Returns'][number];
+
+// The key and saved state of an attempt are only handed back by start_attempt
+type HiddenSubmissionColumn =
+  | 'submission_key'
+  | 'draft_answers'
+  | 'current_question_id'
+  | 'remaining_seconds'
+  | 'last_saved_at'
+  | 'section_time_used';
+
+/** A submission as the anon key can read it. */
+export type Submission = Omit<Database['public']['Tables']['submissions']['Row'], HiddenSubmissionColumn>;
+
+/** The columns of `submissions` granted to the anon key, kept as one literal so the typed client can infer the row. */
+export const SUBMISSION_COLUMNS = 'id, test_id, student_name, father_name, class_applying_for, student_code, slot_number, tab_switch_count, malpractice_detected, time_taken_seconds, score, total_marks, percentage, correct_count, wrong_count, needs_manual_review, status, retest_key_used, started_at, deadline_at, submitted_late, section_scores, drawn_question_ids, shuffle_seed, paper_snapshot, submitted_at, created_at';
+
+export const AUTOSAVE_INTERVAL_MS = 15000;
+
+interface StartAttemptParams {
+  testId: string;
+  accessCode: string;
+  studentName: string;
+  fatherName: string;
+  classApplyingFor: string;
+  studentCode: string;
+  submissionKey: string;
+  retestKeyId?: string;
+}
+
+/**
+ * Creates the `in_progress` submission for this student, or returns their open
+ * attempt in the same slot so they can continue after a crash or refresh.
+ */
+export async function startAttempt(params: StartAttemptParams): Promise<Attempt> {
+  const { data, error } = await supabase.rpc('start_attempt', {
+    p_test_id: params.testId,
+    p_access_code: params.accessCode,
+    p_student_name: params.studentName,
+    p_father_name: params.fatherName,
+    p_class_applying_for: params.classApplyingFor,
+    p_student_code: params.studentCode,
+    p_submission_key: params.submissionKey,
+    p_retest_key_id: params.retestKeyId || null,
+  });
+  if (error) throw error;
+
+  const attempt = data?.[0];
+  if (!attempt) throw new Error('Could not start the attempt');
+  return attempt;
+}
+
+interface AttemptDraft {
+  answers: Record<string, Json>;
+  currentQuestionId: string | null;
+  violationCount: number;
+  // Seconds spent in each section, keyed by section id
+  sectionTimeUsed: Record<string, number>;
+}
+
+/**
+ * Saves the draft and returns the seconds left by the server's clock, or null
+ * when the attempt is no longer in progress or has no server deadline.
+ */
+export async function saveAttempt(submissionKey: string, draft: AttemptDraft): Promise<number | null> {
+  const { data, error } = await supabase.rpc('save_attempt', {
+    p_submission_key: submissionKey,
+    p_draft_answers: draft.answers,
+    p_current_question_id: draft.currentQuestionId,
+    p_tab_switch_count: draft.violationCount,
+    p_section_time_used: draft.sectionTimeUsed,
+  });
+  if (error) throw error;
+  return typeof data === 'number' ? data : null;
+}
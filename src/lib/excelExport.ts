@@ -1,9 +1,11 @@
 import * as XLSX from 'xlsx';
-import type { Database } from './database.types';
-
-type Submission = Database['public']['Tables']['submissions']['Row'];
+import type { Submission } from './attempts';
+import { getSectionScores } from './sections';
 
 export function exportToExcel(submissions: Submission[]) {
+  // One column per section title, after the fixed columns
+  const sectionTitles = Array.from(new Set(submissions.flatMap((submission) => getSectionScores(submission).map((section) => section.title))));
+
   const worksheetData = submissions.map((submission) => ({
     'Student Code': submission.student_code || 'N/A',
     'Student Name': submission.student_name,
@@ -19,10 +21,15 @@ export function exportToExcel(submissions: Submission[]) {
     'Malpractice Detected': submission.malpractice_detected ? 'Yes' : 'No',
     'Time Taken (minutes)': (submission.time_taken_seconds / 60).toFixed(2),
     'Status': submission.status,
+    'Submitted Late': submission.submitted_late ? 'Yes' : 'No',
     'Needs Manual Review': submission.needs_manual_review ? 'Yes' : 'No',
     'Submitted At': submission.submitted_at
       ? new Date(submission.submitted_at).toLocaleString()
       : 'N/A',
+    ...Object.fromEntries(sectionTitles.map((title) => {
+      const section = getSectionScores(submission).find((s) => s.title === title);
+      return [`${title} Score`, section ? `${section.score}/${section.total_marks}` : 'N/A'];
+    })),
   }));
 
   const worksheet = XLSX.utils.json_to_sheet(worksheetData);
@@ -44,8 +51,10 @@ export function exportToExcel(submissions: Submission[]) {
     { wch: 16 },
     { wch: 18 },
     { wch: 15 },
+    { wch: 14 },
     { wch: 20 },
     { wch: 20 },
+    ...sectionTitles.map(() => ({ wch: 16 })),
   ];
   worksheet['!cols'] = colWidths;
 
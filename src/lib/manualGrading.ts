@@ -0,0 +1,31 @@
+import { invokeAdminAction } from './adminSession';
+import type { RubricScore } from './rubric';
+import type { SubmissionResults } from './submissionResults';
+
+/** Question types that `evaluateAnswer` leaves ungraded (`isCorrect: null`). */
+export const MANUALLY_GRADED_TYPES = ['short_answer', 'paragraph'] as const;
+
+/** localStorage key remembering the grader's name between sessions. */
+export const GRADER_NAME_KEY = 'grader_name';
+
+export interface ManualGrade {
+  marks: number;
+  comment: string;
+  gradedBy: string;
+  // Per-criterion breakdown when the question has a rubric; marks is their sum
+  rubricScores?: RubricScore[];
+}
+
+/**
+ * Saves a grader's marks for one answer and recomputes the submission's
+ * results, in one transaction through the `admin-actions` edge function.
+ */
+export async function gradeAnswer(answerId: string, grade: ManualGrade) {
+  return invokeAdminAction<SubmissionResults>('grade_answer', {
+    answer_id: answerId,
+    marks: grade.marks,
+    comment: grade.comment.trim(),
+    graded_by: grade.gradedBy.trim(),
+    rubric_scores: grade.rubricScores ?? null,
+  });
+}
@@ -0,0 +1,55 @@
+import katex from 'katex';
+
+export interface MathSegment {
+  type: 'text' | 'inline' | 'display';
+  value: string;
+}
+
+// $$...$$ and \[...\] are display math; \(...\) and $...$ are inline.
+// A single $ only opens math when followed by a non-space and closes when
+// preceded by a non-space and not followed by a digit, so prices like
+// "$5 and $10" stay as text. \$ is a literal dollar sign.
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<!\\)\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/g;
+
+/** Splits text into plain-text and LaTeX segments. */
+export function splitMath(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+    const display = match[1] ?? match[2];
+    segments.push(display !== undefined
+      ? { type: 'display', value: display }
+      : { type: 'inline', value: match[3] ?? match[4] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+
+  return segments.map((segment) =>
+    segment.type === 'text' ? { ...segment, value: segment.value.replace(/\\\$/g, '$') } : segment
+  );
+}
+
+export function hasMath(text: string | null | undefined): boolean {
+  return !!text && splitMath(text).some((segment) => segment.type !== 'text');
+}
+
+/**
+ * Renders LaTeX to HTML, or returns null when the markup is malformed so the
+ * caller can show the source instead. KaTeX output never includes raw HTML
+ * from the input because `trust` stays off.
+ */
+export function renderMath(tex: string, displayMode: boolean): string | null {
+  try {
+    return katex.renderToString(tex, { displayMode, throwOnError: true, trust: false, strict: 'ignore' });
+  } catch {
+    return null;
+  }
+}
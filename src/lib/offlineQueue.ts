@@ -0,0 +1,106 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+
+const DB_NAME = 'entrance-test';
+const DB_VERSION = 1;
+const STORE_NAME = 'attempts';
+
+const MAX_RETRY_DELAY_MS = 30000;
+// A server error can be a bug rather than an outage, so it is retried only this many times
+export const MAX_SERVER_ERROR_RETRIES = 5;
+
+/** Local copy of an attempt, keyed by its `submission_key`. */
+export interface StoredAttempt {
+  submissionKey: string;
+  testId: string;
+  answers: Record<string, unknown>;
+  currentQuestionId: string | null;
+  violationCount: number;
+  // Missing on attempts stored before tests had sections
+  sectionTimeUsed?: Record<string, number>;
+  // Final submission that has not reached the server yet
+  pendingSubmission: Record<string, unknown> | null;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'submissionKey' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = build(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getStoredAttempt(submissionKey: string): Promise<StoredAttempt | null> {
+  const attempt = await runRequest<StoredAttempt | undefined>('readonly', (store) => store.get(submissionKey));
+  return attempt ?? null;
+}
+
+export async function storeAttempt(attempt: StoredAttempt): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(attempt));
+}
+
+export async function removeStoredAttempt(submissionKey: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(submissionKey));
+}
+
+/** Network failures and server errors are worth retrying; a rejected request (4xx) is not. */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof FunctionsHttpError) {
+    const status = (error.context as Response | undefined)?.status ?? 0;
+    return status >= 500;
+  }
+  return isNetworkError(error);
+}
+
+/** The request never reached the function, so it is safe to keep retrying until the connection is back. */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) return true;
+  return !(error instanceof FunctionsHttpError) && !navigator.onLine;
+}
+
+/** 1s, 2s, 4s ... capped at 30s. */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/** Resolves after the backoff delay, or as soon as the browser reports it is back online. */
+export function waitForRetry(attempt: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      resolve();
+    };
+    const timer = setTimeout(done, getRetryDelay(attempt));
+    window.addEventListener('online', done);
+  });
+}
+
+/** The edge function's own error message when it sent one, otherwise the client error. */
+export async function getSubmitErrorMessage(error: unknown): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => null);
+    if (body?.error) return body.error;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
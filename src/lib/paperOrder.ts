@@ -0,0 +1,199 @@
+import type { Database, Json } from './database.types';
+import { getMatchingColumns } from './evaluation';
+import { sortSections, type TestSection } from './sections';
+
+interface PaperQuestion {
+  id: string;
+  question_number: number;
+  question_type: string;
+  options: Json;
+  section_id?: string | null;
+  keep_position?: boolean;
+  shuffle_options?: boolean;
+  pinned_options?: Json;
+  group_id?: string | null;
+}
+
+export type QuestionShuffle = Database['public']['Tables']['tests']['Row']['question_shuffle'];
+
+/** A test's shuffle settings; tests from before they existed shuffle within sections and shuffle options. */
+export interface ShuffleSettings {
+  question_shuffle: QuestionShuffle;
+  shuffle_options: boolean;
+}
+
+export const defaultShuffleSettings: ShuffleSettings = { question_shuffle: 'within_sections', shuffle_options: true };
+
+/**
+ * Everything the order of a paper follows from besides the seed, stored in
+ * `submissions.paper_snapshot` when the attempt starts so later edits to the
+ * test do not change the order a review shows.
+ */
+export interface PaperSnapshot extends ShuffleSettings {
+  sections: Pick<TestSection, 'id' | 'position'>[];
+  questions: PaperQuestion[];
+}
+
+/** The attempt's snapshot, or null for attempts started before snapshots were stored. */
+export function getPaperSnapshot(submission: { paper_snapshot?: Json | null }): PaperSnapshot | null {
+  const snapshot = submission.paper_snapshot;
+  return snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot) ? (snapshot as unknown as PaperSnapshot) : null;
+}
+
+// FNV-1a over the seed and a key, so each question gets its own stream of numbers
+function hashSeed(seed: number, key: string): number {
+  let hash = 2166136261 ^ seed;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/** Mulberry32: the same seed and key always give the same sequence in [0, 1). */
+export function createSeededRandom(seed: number, key: string): () => number {
+  let state = hashSeed(seed, key);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Items marked to keep their place stay in their slot; the rest are shuffled around them
+function shuffleAroundKept<T extends { keep_position?: boolean }>(items: T[], random: () => number): T[] {
+  const moving = seededShuffle(items.filter((item) => !item.keep_position), random);
+  let next = 0;
+  return items.map((item) => (item.keep_position ? item : moving[next++]));
+}
+
+/**
+ * Questions of a question group move as one block, placed where the group's
+ * first question is and keeping test order inside. A block keeps its place
+ * when any of its questions does.
+ */
+function toBlocks<T extends PaperQuestion>(questions: T[]): { keep_position: boolean; questions: T[] }[] {
+  const blocks: { keep_position: boolean; questions: T[] }[] = [];
+  const groupBlocks = new Map<string, { keep_position: boolean; questions: T[] }>();
+  questions.forEach((q) => {
+    const existing = q.group_id ? groupBlocks.get(q.group_id) : undefined;
+    if (existing) {
+      existing.questions.push(q);
+      existing.keep_position = existing.keep_position || !!q.keep_position;
+      return;
+    }
+    const block = { keep_position: !!q.keep_position, questions: [q] };
+    if (q.group_id) groupBlocks.set(q.group_id, block);
+    blocks.push(block);
+  });
+  return blocks;
+}
+
+export function getPinnedOptions(question: Pick<PaperQuestion, 'pinned_options'>): string[] {
+  return Array.isArray(question.pinned_options) ? question.pinned_options.map(String) : [];
+}
+
+/**
+ * True/False options stay fixed; matching keeps Column A in order and shuffles
+ * Column B, and ordering items are always shuffled since the order is the
+ * question. Choice options follow the test and question settings, with pinned
+ * options (like "All of the above") kept last in the order they were entered.
+ */
+function shuffleOptions<T extends PaperQuestion>(question: T, seed: number, settings: ShuffleSettings): T {
+  const random = createSeededRandom(seed, question.id);
+  if (question.question_type === 'matching') {
+    const { left, right } = getMatchingColumns(question);
+    return { ...question, options: { left, right: seededShuffle(right, random) } };
+  }
+  if (question.question_type === 'ordering' && Array.isArray(question.options) && question.options.length > 1) {
+    return { ...question, options: seededShuffle(question.options, random) };
+  }
+  if (
+    (question.question_type === 'mcq_single' || question.question_type === 'mcq_multiple') &&
+    settings.shuffle_options &&
+    question.shuffle_options !== false &&
+    Array.isArray(question.options) &&
+    question.options.length > 1
+  ) {
+    const pinned = new Set(getPinnedOptions(question));
+    const options = question.options;
+    return {
+      ...question,
+      options: [
+        ...seededShuffle(options.filter((option) => !pinned.has(String(option))), random),
+        ...options.filter((option) => pinned.has(String(option))),
+      ],
+    };
+  }
+  return question;
+}
+
+/**
+ * The order a student saw their paper in: sections in order (questions outside
+ * any section last), questions shuffled within each with question groups kept
+ * together, and options shuffled per question, as far as the test's shuffle
+ * settings allow. Everything follows from the attempt's `shuffle_seed` and
+ * `paper_snapshot`, so results pages can rebuild it; without a seed the paper
+ * is left in test order.
+ */
+export function orderPaper<T extends PaperQuestion>(
+  questions: T[],
+  sections: Pick<TestSection, 'id' | 'position'>[],
+  seed: number | null,
+  settings: ShuffleSettings = defaultShuffleSettings
+): T[] {
+  const inTestOrder = [...questions].sort((a, b) => a.question_number - b.question_number);
+  if (seed === null) return inTestOrder;
+
+  const sorted = sortSections(sections);
+  const sectionIds = new Set(sorted.map((section) => section.id));
+  const bySection = sorted.map((section) => ({ key: section.id, questions: inTestOrder.filter((q) => q.section_id === section.id) }));
+  return [
+    ...(settings.question_shuffle === 'all' ? seededShuffle(bySection, createSeededRandom(seed, 'sections')) : bySection),
+    { key: 'unsectioned', questions: inTestOrder.filter((q) => !q.section_id || !sectionIds.has(q.section_id)) },
+  ]
+    .flatMap(({ key, questions: sectionQuestions }) => {
+      const blocks = toBlocks(sectionQuestions);
+      return (settings.question_shuffle === 'none' ? blocks : shuffleAroundKept(blocks, createSeededRandom(seed, `section:${key}`)))
+        .flatMap((block) => block.questions);
+    })
+    .map((q) => shuffleOptions(q, seed, settings));
+}
+
+/** The options of a question as the student saw them, for choice, ordering and matching questions. */
+export function getShownOptions(question: PaperQuestion): string[] {
+  if (question.question_type === 'matching') return getMatchingColumns(question).right;
+  if (question.question_type === 'true_false') return [];
+  return Array.isArray(question.options) ? question.options.map(String) : [];
+}
+
+/**
+ * Answers in the order the student saw the questions, each with the options as
+ * shown, rebuilt from the attempt's snapshot and seed. Answers whose question
+ * is not in the snapshot come last.
+ */
+export function orderAnswersAsShown<A extends { question_id: string }>(
+  answers: A[],
+  snapshot: PaperSnapshot,
+  seed: number | null
+): (A & { shown_options: string[] })[] {
+  const paper = orderPaper(snapshot.questions, snapshot.sections, seed, snapshot);
+  const shownIds = new Set(paper.map((q) => q.id));
+  return [
+    ...paper.flatMap((shown) => {
+      const answer = answers.find((a) => a.question_id === shown.id);
+      return answer ? [{ ...answer, shown_options: seed !== null ? getShownOptions(shown) : [] }] : [];
+    }),
+    ...answers.filter((answer) => !shownIds.has(answer.question_id)).map((answer) => ({ ...answer, shown_options: [] })),
+  ];
+}
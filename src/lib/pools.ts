@@ -0,0 +1,2 @@
+// Shared with the edge functions, which can only bundle code inside supabase/functions
+export * from '../../supabase/functions/_shared/pools.ts';
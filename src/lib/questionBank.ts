@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+import { invokeAdminAction } from './adminSession';
+import type { Database } from './database.types';
+import { toEditorQuestion, type EditorQuestion } from './questionForm';
+
+export type BankQuestion = Database['public']['Tables']['question_bank']['Row'];
+export type BankUsage = Database['public']['Views']['question_bank_usage']['Row'];
+
+export const DIFFICULTIES = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+] as const;
+
+export interface BankFilters {
+  search: string;
+  subject: string;
+  classLevel: string;
+  topic: string;
+  difficulty: string;
+}
+
+export const EMPTY_BANK_FILTERS: BankFilters = { search: '', subject: '', classLevel: '', topic: '', difficulty: '' };
+
+/** All bank questions, newest first, with their usage statistics keyed by bank question id. */
+export async function loadQuestionBank() {
+  // Read through the edge function, since the anon key cannot select the answer keys
+  const questionData = await invokeAdminAction<BankQuestion[]>('question_bank');
+
+  const { data: usageData, error: usageError } = await supabase
+    .from('question_bank_usage')
+    .select('*');
+  if (usageError) throw usageError;
+
+  return {
+    questions: questionData || [],
+    usage: new Map(((usageData || []) as BankUsage[]).map((row) => [row.bank_question_id, row])),
+  };
+}
+
+/** Saves a bank question (a new one when `id` is null) and returns its id and creation time. */
+export async function saveBankQuestion(id: string | null, question: Partial<BankQuestion>) {
+  // Written through the edge function, since the anon key cannot write the answer keys
+  return invokeAdminAction<Pick<BankQuestion, 'id' | 'created_at'>>('save_bank_question', {
+    ...(id ? { id } : {}),
+    question,
+  });
+}
+
+export function filterBankQuestions(questions: BankQuestion[], filters: BankFilters): BankQuestion[] {
+  const search = filters.search.trim().toLowerCase();
+  return questions.filter((q) =>
+    (!filters.subject || q.subject === filters.subject) &&
+    (!filters.classLevel || q.class_level === filters.classLevel) &&
+    (!filters.topic || q.topic === filters.topic) &&
+    (!filters.difficulty || q.difficulty === filters.difficulty) &&
+    (!search || [q.question_text, q.subject, q.topic].some((text) => text.toLowerCase().includes(search)))
+  );
+}
+
+/** Distinct values of a tag in use, for the filter dropdowns. */
+export function getTagValues(questions: BankQuestion[], tag: 'subject' | 'class_level' | 'topic'): string[] {
+  return Array.from(new Set(questions.map((q) => q[tag].trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+}
+
+/** Percentage of completed answers that were correct, or null when nobody has answered it yet. */
+export function getCorrectRate(usage: BankUsage | undefined): number | null {
+  if (!usage || !usage.answer_count) return null;
+  return Math.round((Number(usage.correct_count) / Number(usage.answer_count)) * 100);
+}
+
+/** A bank question's content in the editor's shape, without its id and tags. */
+export function getBankQuestionContent(q: BankQuestion): EditorQuestion {
+  return toEditorQuestion({
+    question_type: q.question_type,
+    question_text: q.question_text,
+    options: q.options,
+    correct_answers: q.correct_answers,
+    marks: q.marks,
+    is_case_sensitive: q.is_case_sensitive,
+    negative_marks: q.negative_marks,
+    scoring_mode: q.scoring_mode,
+    answer_config: q.answer_config,
+    image_url: q.image_url,
+    option_images: q.option_images,
+    explanation: q.explanation,
+    rubric: q.rubric,
+    shuffle_options: q.shuffle_options,
+    pinned_options: q.pinned_options,
+  } as unknown as EditorQuestion);
+}
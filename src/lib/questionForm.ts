@@ -0,0 +1,225 @@
+import type { Database, Json } from './database.types';
+import { getMatchingColumns, type AnswerConfig } from './evaluation';
+import { getPinnedOptions } from './paperOrder';
+import { getOptionImages } from './questionImages';
+import { getRubric, getRubricMaxMarks, type Rubric } from './rubric';
+import { countBlanks } from './textAnswer';
+
+type QuestionInsert = Database['public']['Tables']['questions']['Insert'];
+
+/** Question content as edited in the admin forms (test editor and question bank). */
+export interface EditorQuestion {
+  id?: string;
+  question_type: string;
+  question_text: string;
+  options: string[];
+  correct_answers: string[];
+  marks: number;
+  is_case_sensitive: boolean;
+  negative_marks: number | null;
+  scoring_mode: string;
+  answer_config: AnswerConfig;
+  image_url: string | null;
+  option_images: Record<string, string>;
+  explanation: string;
+  rubric: Rubric | null;
+  shuffle_options: boolean;
+  // Options shown last when the options are shuffled, e.g. "All of the above"
+  pinned_options: string[];
+  // Editor-only: accepted answers per blank for multi-blank fill-ins, saved into correct_answers
+  blank_answers?: string[][];
+  // Editor-only: matching pairs and distractors, saved into options/correct_answers
+  match_pairs?: { left: string; right: string }[];
+  match_distractors?: string[];
+}
+
+export const questionTypes = [
+  { value: 'mcq_single', label: 'Multiple Choice (Single)' },
+  { value: 'mcq_multiple', label: 'Multiple Choice (Multiple)' },
+  { value: 'fill_blank', label: 'Fill in the Blank' },
+  { value: 'true_false', label: 'True/False' },
+  { value: 'numerical', label: 'Numerical Answer' },
+  { value: 'short_answer', label: 'Short Answer' },
+  { value: 'paragraph', label: 'Paragraph' },
+  { value: 'matching', label: 'Match the Following' },
+  { value: 'ordering', label: 'Ordering / Sequence' },
+];
+
+export function createEditorQuestion(): EditorQuestion {
+  return {
+    question_type: 'mcq_single',
+    question_text: '',
+    options: ['Option 1', 'Option 2', 'Option 3', 'Option 4'],
+    correct_answers: ['Option 1'],
+    marks: 1,
+    is_case_sensitive: false,
+    negative_marks: null,
+    scoring_mode: 'all_or_nothing',
+    answer_config: {},
+    image_url: null,
+    option_images: {},
+    explanation: '',
+    rubric: null,
+    shuffle_options: true,
+    pinned_options: [],
+  };
+}
+
+// Multi-blank fill-ins store one list of accepted answers per blank in correct_answers
+export const toEditorQuestion = <T extends EditorQuestion>(stored: T): T => {
+  const row = {
+    ...stored,
+    option_images: getOptionImages(stored),
+    explanation: stored.explanation || '',
+    rubric: getRubric(stored),
+    shuffle_options: stored.shuffle_options !== false,
+    pinned_options: getPinnedOptions(stored),
+  };
+  const correct = (Array.isArray(row.correct_answers) ? row.correct_answers : []) as unknown[];
+  if (row.question_type === 'fill_blank' && correct.some((answers) => Array.isArray(answers))) {
+    return { ...row, correct_answers: [], blank_answers: correct.map((answers) => (Array.isArray(answers) ? answers : [])) };
+  }
+  if (row.question_type === 'matching') {
+    const { left, right } = getMatchingColumns(row);
+    const pairs = left.map((item, i) => ({ left: item, right: String(correct[i] ?? '') }));
+    return {
+      ...row,
+      options: [],
+      correct_answers: [],
+      match_pairs: pairs,
+      match_distractors: right.filter((item) => !pairs.some((pair) => pair.right === item)),
+    };
+  }
+  return row;
+};
+
+const getMatchingForSave = (q: EditorQuestion) => {
+  const pairs = (q.match_pairs || []).map((pair) => ({ left: pair.left.trim(), right: pair.right.trim() }));
+  const rights = pairs.map((pair) => pair.right);
+  const distractors = (q.match_distractors || []).map((d) => d.trim()).filter((d) => d && !rights.includes(d));
+  // The right column is stored alphabetically, so its order does not give away the answer
+  const right = [...rights, ...Array.from(new Set(distractors))].sort((a, b) => a.localeCompare(b));
+  return {
+    options: { left: pairs.map((pair) => pair.left), right },
+    correct_answers: rights,
+  };
+};
+
+const getBlankAnswersForSave = (q: EditorQuestion): string[][] =>
+  Array.from({ length: countBlanks(q.question_text) }, (_, i) =>
+    (q.blank_answers?.[i] || []).map((a) => a.trim()).filter(Boolean)
+  );
+
+// Drops images of options that were removed or renamed away
+const getOptionImagesForSave = (q: EditorQuestion): Record<string, string> => {
+  if (q.question_type !== 'mcq_single' && q.question_type !== 'mcq_multiple') return {};
+  const images = q.option_images || {};
+  return Object.fromEntries(q.options.filter((option) => images[option]).map((option) => [option, images[option]]));
+};
+
+// Pins only apply to choice options, and drop with the option they were on
+const getPinnedOptionsForSave = (q: EditorQuestion): string[] => {
+  if (q.question_type !== 'mcq_single' && q.question_type !== 'mcq_multiple') return [];
+  return q.options.filter((option) => (q.pinned_options || []).includes(option));
+};
+
+// Converts editor-only fields back into the stored options/correct_answers shape
+const getAnswerKeyForSave = (q: EditorQuestion): { options: Json; correct_answers: Json } => {
+  if (q.question_type === 'matching') {
+    return getMatchingForSave(q);
+  }
+  if (q.question_type === 'ordering') {
+    // Students see the items alphabetically (then shuffled), never in the answer order
+    const items = (q.correct_answers || []).map((item) => item.trim()).filter(Boolean);
+    return { options: [...items].sort((a, b) => a.localeCompare(b)), correct_answers: items };
+  }
+  if (q.question_type === 'fill_blank') {
+    return {
+      options: [],
+      correct_answers: countBlanks(q.question_text) >= 2
+        ? getBlankAnswersForSave(q)
+        : (q.correct_answers || []).map((a) => a.trim()).filter(Boolean),
+    };
+  }
+  return { options: q.options || [], correct_answers: q.correct_answers || [] };
+};
+
+const cleanAnswerConfig = (config: AnswerConfig | null | undefined): AnswerConfig => {
+  const cleaned: AnswerConfig = { ...(config || {}) };
+  if (cleaned.units) {
+    cleaned.units = cleaned.units.map((unit) => unit.trim()).filter(Boolean);
+  }
+  if (cleaned.patterns) {
+    cleaned.patterns = cleaned.patterns.map((pattern) => pattern.trim()).filter(Boolean);
+  }
+  if (cleaned.keywords) {
+    cleaned.keywords = cleaned.keywords
+      .map((rule) => ({ ...rule, terms: rule.terms.map((term) => term.trim()).filter(Boolean) }))
+      .filter((rule) => rule.terms.length > 0);
+  }
+  return cleaned;
+};
+
+/** The stored content columns, shared by `questions` and `question_bank`. */
+export function getQuestionContentForSave(q: EditorQuestion) {
+  return {
+    question_type: q.question_type as QuestionInsert['question_type'],
+    question_text: q.question_text,
+    ...getAnswerKeyForSave(q),
+    marks: Number(q.marks) || 1,
+    is_case_sensitive: !!q.is_case_sensitive,
+    scoring_mode: (q.scoring_mode || 'all_or_nothing') as NonNullable<QuestionInsert['scoring_mode']>,
+    answer_config: cleanAnswerConfig(q.answer_config) as Json,
+    image_url: q.image_url || null,
+    option_images: getOptionImagesForSave(q),
+    explanation: q.explanation || '',
+    rubric: q.question_type === 'paragraph' ? (q.rubric as Json | null) : null,
+    shuffle_options: q.shuffle_options !== false,
+    pinned_options: getPinnedOptionsForSave(q),
+    negative_marks: q.negative_marks == null || isNaN(q.negative_marks) ? null : Number(q.negative_marks),
+  };
+}
+
+/** Returns the first problem that would stop the question from being saved, prefixed with `label`. */
+export function validateQuestion(q: EditorQuestion, label: string): string | null {
+  if (!q.question_text.trim()) {
+    return `${label}: enter the question text`;
+  }
+  if (q.question_type === 'matching') {
+    const pairs = q.match_pairs || [];
+    if (pairs.length < 2 || pairs.some((pair) => !pair.left.trim() || !pair.right.trim())) {
+      return `${label}: add at least two complete matching pairs`;
+    }
+    const lefts = pairs.map((pair) => pair.left.trim());
+    const rights = pairs.map((pair) => pair.right.trim());
+    if (new Set(lefts).size !== lefts.length || new Set(rights).size !== rights.length) {
+      return `${label}: matching items must be unique in each column`;
+    }
+  }
+  if (q.question_type === 'paragraph' && q.rubric) {
+    if (q.rubric.criteria.some((criterion) => !criterion.name.trim() || criterion.levels.some((level) => !level.label.trim()))) {
+      return `${label}: every rubric criterion and level needs a name`;
+    }
+    if (getRubricMaxMarks(q.rubric) !== Number(q.marks)) {
+      return `${label}: the rubric's top levels add up to ${getRubricMaxMarks(q.rubric)} marks but the question is worth ${q.marks}`;
+    }
+  }
+  if (q.question_type === 'ordering') {
+    const items = (q.correct_answers || []).map((item) => item.trim()).filter(Boolean);
+    if (items.length < 2 || new Set(items).size !== items.length) {
+      return `${label}: add at least two unique items to arrange`;
+    }
+  }
+  if (q.question_type === 'fill_blank' && countBlanks(q.question_text) >= 2) {
+    if (getBlankAnswersForSave(q).some((answers) => answers.length === 0)) {
+      return `${label}: every blank needs at least one accepted answer`;
+    }
+  } else if (q.question_type === 'fill_blank') {
+    const hasAnswer = (q.correct_answers || []).some((a) => a.trim());
+    const hasPattern = (q.answer_config?.patterns || []).some((p) => p.trim());
+    if (!hasAnswer && !hasPattern) {
+      return `${label}: add at least one accepted answer or pattern`;
+    }
+  }
+  return null;
+}
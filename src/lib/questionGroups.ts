@@ -0,0 +1,29 @@
+import type { Database } from './database.types';
+
+export type QuestionGroup = Database['public']['Tables']['question_groups']['Row'];
+
+export function sortGroups<T extends Pick<QuestionGroup, 'position'>>(groups: T[]): T[] {
+  return [...groups].sort((a, b) => a.position - b.position);
+}
+
+/** The stimulus table as rows of cell text, the first row being the header; empty for no table. */
+export function getStimulusTable(group: { stimulus_table?: unknown }): string[][] {
+  if (!Array.isArray(group.stimulus_table)) return [];
+  return group.stimulus_table
+    .filter((row): row is unknown[] => Array.isArray(row))
+    .map((row) => row.map((cell) => (cell == null ? '' : String(cell))));
+}
+
+export function hasStimulus(group: Pick<QuestionGroup, 'stimulus_text' | 'stimulus_image_url' | 'stimulus_table'>): boolean {
+  return !!group.stimulus_text.trim() || !!group.stimulus_image_url || getStimulusTable(group).some((row) => row.some((cell) => cell.trim()));
+}
+
+// Empty rows and columns are dropped so half-filled tables do not show blank cells to students
+export function getStimulusTableForSave(rows: string[][]): string[][] {
+  const trimmed = rows.map((row) => row.map((cell) => cell.trim()));
+  const width = Math.max(0, ...trimmed.map((row) => row.length));
+  const keptColumns = Array.from({ length: width }, (_, col) => col).filter((col) => trimmed.some((row) => row[col]));
+  return trimmed
+    .filter((row) => row.some(Boolean))
+    .map((row) => keptColumns.map((col) => row[col] || ''));
+}
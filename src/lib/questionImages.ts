@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Question = Database['public']['Tables']['questions']['Row'];
+
+export const QUESTION_IMAGES_BUCKET = 'question-images';
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Set VITE_IMAGE_STORAGE=local to keep images inline as data URLs instead of
+// uploading them, for development against a database without the storage bucket
+const useLocalStorage = import.meta.env.VITE_IMAGE_STORAGE === 'local';
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Could not read the image file'));
+    reader.readAsDataURL(file);
+  });
+
+/** Uploads an image for a question stem or option and returns the URL to store on the question. */
+export async function uploadQuestionImage(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file (PNG, JPG, GIF, SVG or WebP)');
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error('Images must be 2 MB or smaller');
+  }
+
+  if (useLocalStorage) {
+    return readAsDataUrl(file);
+  }
+
+  const extension = file.name.includes('.') ? file.name.split('.').pop()?.toLowerCase() : 'png';
+  const id = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : Math.random().toString(36).substring(2) + Date.now().toString(36);
+  const path = `${id}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(QUESTION_IMAGES_BUCKET)
+    .upload(path, file, { cacheControl: '31536000', contentType: file.type });
+
+  if (error) {
+    throw new Error(`Failed to upload image: ${error.message}`);
+  }
+
+  return supabase.storage.from(QUESTION_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/** Option images are keyed by option text so they follow the option when options are shuffled. */
+export function getOptionImages(question: Pick<Question, 'option_images'> | null | undefined): Record<string, string> {
+  const images = question?.option_images;
+  if (!images || typeof images !== 'object' || Array.isArray(images)) return {};
+  return Object.fromEntries(
+    Object.entries(images).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+  );
+}
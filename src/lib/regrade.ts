@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import { calculateResults, evaluateAnswer, roundMarks, type Evaluation } from './evaluation';
+import { invokeAdminAction } from './adminSession';
+import { SUBMISSION_COLUMNS, type Submission } from './attempts';
+import type { Database } from './database.types';
+
+type Test = Database['public']['Tables']['tests']['Row'];
+type Question = Database['public']['Tables']['questions']['Row'];
+type Answer = Database['public']['Tables']['answers']['Row'];
+export type RegradeAudit = Database['public']['Tables']['regrade_audits']['Row'];
+
+export interface AnswerChange {
+  answerId: string;
+  questionId: string;
+  questionNumber: number;
+  oldIsCorrect: boolean | null;
+  newIsCorrect: boolean | null;
+  oldMarks: number;
+  newMarks: number;
+  newConfidence: 'high' | 'low' | null;
+}
+
+export interface SubmissionChange {
+  submissionId: string;
+  studentName: string;
+  studentCode: string | null;
+  oldScore: number;
+  newScore: number;
+  oldPercentage: number;
+  newPercentage: number;
+  answers: AnswerChange[];
+}
+
+export interface RegradePreview {
+  testId: string;
+  questionId: string | null;
+  submissionsChecked: number;
+  changes: SubmissionChange[];
+}
+
+/**
+ * Re-runs `evaluateAnswer` over stored answers of a test (or one question) with
+ * the current answer key, without writing anything. Answers a grader has marked
+ * by hand keep their marks.
+ */
+export async function previewRegrade(testId: string, questionId: string | null = null): Promise<RegradePreview> {
+  const { data: testData, error: testError } = await supabase
+    .from('tests')
+    .select('*')
+    .eq('id', testId)
+    .single();
+  if (testError) throw testError;
+  const test = testData as Test;
+
+  const questionData = await invokeAdminAction<Question[]>('test_questions', { test_id: testId });
+  const questions = new Map(questionData.map((q) => [q.id, q]));
+
+  const { data: submissionData, error: submissionsError } = await supabase
+    .from('submissions')
+    .select(SUBMISSION_COLUMNS)
+    .eq('test_id', testId)
+    .in('status', ['completed', 'auto_submitted']);
+  if (submissionsError) throw submissionsError;
+  const submissions = (submissionData || []) as Submission[];
+
+  const answers: Answer[] = [];
+  // Fetch answers in batches to keep the request URL short
+  for (let i = 0; i < submissions.length; i += 100) {
+    const { data, error } = await supabase
+      .from('answers')
+      .select('*')
+      .in('submission_id', submissions.slice(i, i + 100).map((s) => s.id));
+    if (error) throw error;
+    answers.push(...((data || []) as Answer[]));
+  }
+
+  const changes: SubmissionChange[] = [];
+
+  for (const submission of submissions) {
+    const submissionAnswers = answers.filter((a) => a.submission_id === submission.id);
+    const answerChanges: AnswerChange[] = [];
+
+    const evaluations: Evaluation[] = submissionAnswers.map((answer) => {
+      const stored: Evaluation = { isCorrect: answer.is_correct, marksAwarded: Number(answer.marks_awarded) || 0 };
+      const question = questions.get(answer.question_id);
+      if (!question || answer.graded_at || (questionId && answer.question_id !== questionId)) {
+        return stored;
+      }
+
+      const evaluation = evaluateAnswer(question, answer.student_answer, test.negative_marks || 0);
+      if (evaluation.isCorrect !== stored.isCorrect || roundMarks(evaluation.marksAwarded) !== roundMarks(stored.marksAwarded)) {
+        answerChanges.push({
+          answerId: answer.id,
+          questionId: question.id,
+          questionNumber: question.question_number,
+          oldIsCorrect: stored.isCorrect,
+          newIsCorrect: evaluation.isCorrect,
+          oldMarks: stored.marksAwarded,
+          newMarks: evaluation.marksAwarded,
+          newConfidence: evaluation.confidence ?? null,
+        });
+      }
+      return evaluation;
+    });
+
+    if (answerChanges.length === 0) continue;
+
+    const { score } = calculateResults(evaluations);
+    const totalMarks = Number(submission.total_marks) || 0;
+    changes.push({
+      submissionId: submission.id,
+      studentName: submission.student_name,
+      studentCode: submission.student_code,
+      oldScore: Number(submission.score) || 0,
+      newScore: score,
+      oldPercentage: Number(submission.percentage) || 0,
+      newPercentage: totalMarks > 0 ? roundMarks((score / totalMarks) * 100) : 0,
+      answers: answerChanges.sort((a, b) => a.questionNumber - b.questionNumber),
+    });
+  }
+
+  return { testId, questionId, submissionsChecked: submissions.length, changes };
+}
+
+/**
+ * Writes a previewed re-grade and its `regrade_audits` entry in one transaction,
+ * through the `admin-actions` edge function.
+ */
+export async function applyRegrade(preview: RegradePreview, performedBy: string) {
+  await invokeAdminAction('apply_regrade', { preview, performed_by: performedBy.trim() });
+}
+
+/** The latest re-grades of a test; the history is only readable through the admin-actions function. */
+export async function getRegradeAudits(testId: string): Promise<RegradeAudit[]> {
+  return invokeAdminAction<RegradeAudit[]>('regrade_audits', { test_id: testId });
+}
@@ -0,0 +1,68 @@
+import type { Database } from './database.types';
+
+type Answer = Database['public']['Tables']['answers']['Row'];
+
+export interface RubricLevel {
+  label: string;
+  description: string;
+  marks: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  levels: RubricLevel[];
+}
+
+/** Stored in `questions.rubric` for `paragraph` questions. */
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+/** One entry per criterion, stored in `answers.rubric_scores`. */
+export interface RubricScore {
+  criterion_id: string;
+  level: number;
+  marks: number;
+}
+
+export function createCriterion(name = ''): RubricCriterion {
+  return {
+    id: Math.random().toString(36).substring(2, 10),
+    name,
+    levels: [
+      { label: 'Excellent', description: '', marks: 2 },
+      { label: 'Satisfactory', description: '', marks: 1 },
+      { label: 'Needs work', description: '', marks: 0 },
+    ],
+  };
+}
+
+export function getRubric(question: { rubric?: unknown } | null | undefined): Rubric | null {
+  const rubric = question?.rubric as Rubric | null | undefined;
+  if (!rubric || !Array.isArray(rubric.criteria) || rubric.criteria.length === 0) return null;
+  return rubric;
+}
+
+export function getCriterionMaxMarks(criterion: RubricCriterion): number {
+  return Math.max(0, ...criterion.levels.map((level) => Number(level.marks) || 0));
+}
+
+export function getRubricMaxMarks(rubric: Rubric): number {
+  return rubric.criteria.reduce((sum, criterion) => sum + getCriterionMaxMarks(criterion), 0);
+}
+
+export function getRubricScores(answer: Pick<Answer, 'rubric_scores'> | null | undefined): RubricScore[] {
+  return Array.isArray(answer?.rubric_scores) ? (answer.rubric_scores as unknown as RubricScore[]) : [];
+}
+
+/** Scores each criterion by the level the grader picked; criteria without a pick are left out. */
+export function scoreRubric(rubric: Rubric, levels: Record<string, number>): RubricScore[] {
+  return rubric.criteria
+    .filter((criterion) => levels[criterion.id] !== undefined && criterion.levels[levels[criterion.id]])
+    .map((criterion) => ({
+      criterion_id: criterion.id,
+      level: levels[criterion.id],
+      marks: Number(criterion.levels[levels[criterion.id]].marks) || 0,
+    }));
+}
@@ -180,7 +180,7 @@ export async function getNextSerialForSlot(
 ): Promise<number> {
   const { count } = await supabase
     .from('submissions')
-    .select('*', { count: 'exact', head: true })
+    .select('id', { count: 'exact', head: true })
     .eq('test_id', testId)
     .eq('slot_number', slotNumber)
     .eq('class_applying_for', className);
@@ -242,60 +242,3 @@ export async function validateRetestKey(
     studentName: retestKey.student_name
   };
 }
-
-export async function invalidatePreviousSubmission(
-  testId: string,
-  slotNumber: number,
-  studentName: string,
-  fatherName: string,
-  retestKeyId?: string
-): Promise<void> {
-  // Find the previous completed/auto_submitted submission
-  const { data: previousSubmission } = await supabase
-    .from('submissions')
-    .select('id')
-    .eq('test_id', testId)
-    .eq('slot_number', slotNumber)
-    .eq('student_name', studentName)
-    .eq('father_name', fatherName)
-    .in('status', ['completed', 'auto_submitted'])
-    .order('submitted_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (previousSubmission) {
-    // Determine update data
-    const updateData: any = {
-      status: 'invalidated_by_retest'
-    };
-
-    // Use unsafe direct update if type checking fails for the status, 
-    // strictly speaking should work if migration is applied.
-    await supabase
-      .from('submissions')
-      .update(updateData)
-      .eq('id', previousSubmission.id);
-  }
-
-  // If a retest key was used (not master key), mark it as used
-  if (retestKeyId) {
-    // We can't link the NEW submission ID here yet because this runs before the new one is created?
-    // Actually, usually we mark the key as used AFTER the new submission is created or DURING.
-    // The prompt says "mark the previous submission as 'invalidated_by_retest'".
-    // And "update the submissions table by adding a retest_key_used reference" (for the NEW submission).
-    // And "retest_keys table... is_used, used_by_submission_id".
-
-    // We should probably mark the retest key as used only when the new submission is created.
-    // So this function might just handle the invalidation of the OLD submission.
-  }
-}
-
-export async function markRetestKeyAsUsed(keyId: string, newSubmissionId: string) {
-  await supabase
-    .from('retest_keys')
-    .update({
-      is_used: true,
-      used_by_submission_id: newSubmissionId
-    })
-    .eq('id', keyId);
-}
@@ -7,15 +7,22 @@ import {
   Users,
   BarChart,
   LayoutDashboard,
-  RotateCcw
+  RotateCcw,
+  ClipboardCheck,
+  Library,
+  RefreshCw
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { SUBMISSION_COLUMNS } from '../lib/attempts';
 import { exportToExcel } from '../lib/excelExport';
 import type { Database } from '../lib/database.types';
 import CreateTestModal from '../components/CreateTestModal';
 import ViewResultsModal from '../components/ViewResultsModal';
 import SlotAccessCode from '../components/SlotAccessCode';
 import ManageRetests from '../components/ManageRetests';
+import GradingQueue from '../components/GradingQueue';
+import QuestionBank from '../components/QuestionBank';
+import RegradeModal from '../components/RegradeModal';
 
 type Test = Database['public']['Tables']['tests']['Row'];
 
@@ -24,12 +31,13 @@ interface AdminPanelProps {
 }
 
 export default function AdminPanel({ onLogout }: AdminPanelProps) {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'retests'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'retests' | 'grading' | 'bank'>('dashboard');
   const [tests, setTests] = useState<Test[]>([]);
   // ... rest of state
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingTest, setEditingTest] = useState<Test | null>(null);
   const [viewingTestResults, setViewingTestResults] = useState<string | null>(null);
+  const [regradingTest, setRegradingTest] = useState<Test | null>(null);
   const [stats, setStats] = useState({
     totalTests: 0,
     publishedTests: 0,
@@ -68,7 +76,8 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
 
       const { count: totalSubmissions } = await supabase
         .from('submissions')
-        .select('*', { count: 'exact', head: true });
+        .select('id', { count: 'exact', head: true })
+        .in('status', ['completed', 'auto_submitted']);
 
       setStats({
         totalTests: totalTests || 0,
@@ -116,8 +125,9 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
     try {
       const { data, error } = await supabase
         .from('submissions')
-        .select('*')
+        .select(SUBMISSION_COLUMNS)
         .eq('test_id', testId)
+        .in('status', ['completed', 'auto_submitted'])
         .order('submitted_at', { ascending: false });
 
       if (error) throw error;
@@ -179,6 +189,22 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
                   <RotateCcw className="w-4 h-4" />
                   <span className="hidden sm:inline">Retests</span>
                 </button>
+                <button
+                  onClick={() => setActiveTab('grading')}
+                  className={`flex items-center gap-2 px-3 py-1.5 md:py-2 rounded-lg transition text-xs md:text-sm font-medium ${activeTab === 'grading' ? 'bg-white/20 text-white' : 'text-blue-100 hover:bg-white/10'
+                    }`}
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                  <span className="hidden sm:inline">Grading</span>
+                </button>
+                <button
+                  onClick={() => setActiveTab('bank')}
+                  className={`flex items-center gap-2 px-3 py-1.5 md:py-2 rounded-lg transition text-xs md:text-sm font-medium ${activeTab === 'bank' ? 'bg-white/20 text-white' : 'text-blue-100 hover:bg-white/10'
+                    }`}
+                >
+                  <Library className="w-4 h-4" />
+                  <span className="hidden sm:inline">Bank</span>
+                </button>
               </nav>
               <div className="hidden md:block h-6 w-px bg-blue-400 mx-1"></div>
               <button
@@ -232,6 +258,26 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
             <RotateCcw className="w-4 h-4 md:w-5 md:h-5" />
             Manage Retests
           </button>
+          <button
+            onClick={() => setActiveTab('grading')}
+            className={`flex items-center gap-2 px-4 md:px-6 py-3 md:py-4 border-b-2 font-medium text-sm md:text-base transition whitespace-nowrap ${activeTab === 'grading'
+              ? 'border-blue-600 text-blue-600 bg-blue-50/50'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+          >
+            <ClipboardCheck className="w-4 h-4 md:w-5 md:h-5" />
+            Manual Grading
+          </button>
+          <button
+            onClick={() => setActiveTab('bank')}
+            className={`flex items-center gap-2 px-4 md:px-6 py-3 md:py-4 border-b-2 font-medium text-sm md:text-base transition whitespace-nowrap ${activeTab === 'bank'
+              ? 'border-blue-600 text-blue-600 bg-blue-50/50'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+          >
+            <Library className="w-4 h-4 md:w-5 md:h-5" />
+            Question Bank
+          </button>
         </div>
 
         {activeTab === 'dashboard' ? (
@@ -315,6 +361,13 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
                             >
                               <Users className="w-4 h-4 md:w-5 md:h-5" />
                             </button>
+                            <button
+                              onClick={() => setRegradingTest(test)}
+                              className="p-1.5 md:p-2 text-orange-600 hover:bg-orange-50 rounded-lg transition"
+                              title="Re-grade Submissions"
+                            >
+                              <RefreshCw className="w-4 h-4 md:w-5 md:h-5" />
+                            </button>
                             <button
                               onClick={() => {
                                 setEditingTest(test);
@@ -341,8 +394,12 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
               </div>
             </div>
           </div>
-        ) : (
+        ) : activeTab === 'retests' ? (
           <ManageRetests />
+        ) : activeTab === 'grading' ? (
+          <GradingQueue />
+        ) : (
+          <QuestionBank />
         )}
       </main>
 
@@ -363,6 +420,16 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
           onClose={() => setViewingTestResults(null)}
         />
       )}
+
+      {regradingTest && (
+        <RegradeModal
+          test={regradingTest}
+          onClose={() => {
+            setRegradingTest(null);
+            loadStats();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -16,6 +16,7 @@ interface StudentEntryProps {
     studentName: string,
     fatherName: string,
     classApplyingFor: string,
+    accessCode: string,
     retestKeyId?: string,
     isMasterKey?: boolean
   ) => void;
@@ -160,6 +161,7 @@ export default function StudentEntry({ onStartTest }: StudentEntryProps) {
       studentName.trim(),
       fatherName.trim(),
       classApplyingFor,
+      accessCode.trim().toUpperCase(),
       activeRetestKeyId,
       isMasterKey
     );
@@ -1,45 +1,79 @@
 import { useState, useEffect } from 'react';
 import { CheckCircle, XCircle, AlertCircle, Home, TrendingUp } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { SUBMISSION_COLUMNS, type Submission } from '../lib/attempts';
+import { getMatchingColumns, isAnswered, isMultiBlankQuestion, isPartiallyCorrect } from '../lib/evaluation';
+import { defaultShuffleSettings, getPaperSnapshot, orderAnswersAsShown } from '../lib/paperOrder';
+import { getOptionImages } from '../lib/questionImages';
+import { getCriterionMaxMarks, getRubric, getRubricScores } from '../lib/rubric';
+import { getSectionScores } from '../lib/sections';
 import type { Database } from '../lib/database.types';
+import MathText from '../components/MathText';
 
-type Submission = Database['public']['Tables']['submissions']['Row'];
+type Question = Database['public']['Tables']['questions']['Row'];
 interface TestResultProps {
   submissionId: string;
+  submissionKey: string;
   onBackToHome: () => void;
 }
 
-export default function TestResult({ submissionId, onBackToHome }: TestResultProps) {
+export default function TestResult({ submissionId, submissionKey, onBackToHome }: TestResultProps) {
   const [submission, setSubmission] = useState<Submission | null>(null);
   const [details, setDetails] = useState<any[]>([]);
+  const [answerKeyReleased, setAnswerKeyReleased] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadSubmission();
-  }, [submissionId]);
+  }, [submissionId, submissionKey]);
 
   const loadSubmission = async () => {
     try {
       // Fetch submission
       const { data: submissionData, error: submissionError } = await (supabase
         .from('submissions')
-        .select('*')
+        .select(SUBMISSION_COLUMNS)
         .eq('id', submissionId) as any)
         .single();
 
       if (submissionError) throw submissionError;
 
-      // Fetch answers with question details
-      const { data: answersData, error: answersError } = await (supabase
-        .from('answers')
-        .select(`
-          *,
-          questions (*)
-        `)
-        .eq('submission_id', submissionId) as any);
+      // Fetch answers with question details; the answer key is left out until the test has closed for everyone
+      const { data: reviewData, error: answersError } = await supabase
+        .rpc('get_submission_review', { p_submission_key: submissionKey });
 
       if (answersError) throw answersError;
 
+      const reviewAnswers = (reviewData?.answers || []) as any[];
+
+      // Attempts started before snapshots were stored are rebuilt from the test as it is now
+      let snapshot = getPaperSnapshot(submissionData);
+      if (!snapshot) {
+        const { data: sectionsData, error: sectionsError } = await supabase
+          .from('test_sections')
+          .select('id, position')
+          .eq('test_id', submissionData.test_id);
+
+        if (sectionsError) throw sectionsError;
+
+        const { data: shuffleSettings, error: shuffleSettingsError } = await supabase
+          .from('tests')
+          .select('question_shuffle, shuffle_options')
+          .eq('id', submissionData.test_id)
+          .maybeSingle();
+
+        if (shuffleSettingsError) throw shuffleSettingsError;
+
+        snapshot = {
+          ...(shuffleSettings ?? defaultShuffleSettings),
+          sections: sectionsData || [],
+          questions: reviewAnswers.flatMap((answer) => (answer.questions ? [answer.questions] : [])),
+        };
+      }
+
+      // Rebuild the order the student saw the questions and options in from the attempt's seed
+      const orderedDetails = orderAnswersAsShown(reviewAnswers, snapshot, submissionData.shuffle_seed ?? null);
+
       let retestKeyDetails = null;
       if (submissionData.retest_key_used) {
         const { data: keyData, error: keyError } = await (supabase
@@ -59,7 +93,8 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
         retest_keys: retestKeyDetails
       } as any);
 
-      setDetails(answersData || []);
+      setDetails(orderedDetails);
+      setAnswerKeyReleased(reviewData?.answer_key_released ?? false);
 
     } catch (error) {
       console.error('Error loading submission:', error);
@@ -88,6 +123,7 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
   // @ts-ignore
   const retestKey = submission.retest_keys?.key;
   const isRetest = !!(submission.retest_key_used || retestKey);
+  const sectionScores = getSectionScores(submission);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -95,6 +131,37 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
     return `${mins}m ${secs}s`;
   };
 
+  // Structured answers are shown item by item: "(1) sun  (2) east / e", "Dog → Barks" or "1st → 2nd → 3rd"
+  const formatAnswer = (question: Question | null, value: unknown, emptyLabel: string): string => {
+    if (!isAnswered(value)) return emptyLabel;
+    if (!Array.isArray(value)) return String(value);
+    if (question?.question_type === 'matching') {
+      const { left } = getMatchingColumns(question);
+      return left.map((item, i) => `${item} → ${value[i] || '—'}`).join(', ');
+    }
+    if (question?.question_type === 'ordering') {
+      return value.join(' → ');
+    }
+    if (question && isMultiBlankQuestion(question)) {
+      return value.map((v, i) => `(${i + 1}) ${Array.isArray(v) ? v.join(' / ') : v || '—'}`).join('  ');
+    }
+    return value.join(', ');
+  };
+
+  // MCQ options that are pictures are shown as thumbnails next to their text
+  const renderOptionImages = (question: Question | null, value: unknown) => {
+    const images = getOptionImages(question);
+    const picked = (Array.isArray(value) ? value : [value]).filter((option) => images[String(option)]);
+    if (picked.length === 0) return null;
+    return (
+      <div className="flex flex-wrap gap-2 mt-2">
+        {picked.map((option) => (
+          <img key={String(option)} src={images[String(option)]} alt={String(option)} className="h-16 max-w-[8rem] object-contain rounded border border-gray-200 bg-white" />
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div className={`min-h-screen bg-gradient-to-br ${isRetest ? 'from-blue-100 via-blue-50 to-indigo-100' : 'from-blue-50 via-white to-green-50'}`}>
       <div className="container mx-auto px-4 py-8">
@@ -209,6 +276,30 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
                   </div>
                 </div>
 
+                {sectionScores.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-sm font-semibold text-gray-700 mb-3">Section-wise Scores</h3>
+                    <div className="space-y-3">
+                      {sectionScores.map((section) => {
+                        const sectionPercentage = section.total_marks > 0 ? Math.max(0, (section.score / section.total_marks) * 100) : 0;
+                        return (
+                          <div key={section.section_id}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                              <span className="font-medium text-gray-900">{section.title}</span>
+                              <span className="text-gray-600">
+                                {section.score}/{section.total_marks} ({sectionPercentage.toFixed(1)}%)
+                              </span>
+                            </div>
+                            <div className="w-full bg-gray-100 rounded-full h-2">
+                              <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${Math.min(100, sectionPercentage)}%` }} />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {submission.needs_manual_review && (
                   <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-start gap-3">
                     <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
@@ -254,12 +345,14 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
 
                   <div className="space-y-8">
                     {details
-                      .sort((a, b) => (a.questions?.question_number || 0) - (b.questions?.question_number || 0))
                       .map((detail, idx) => {
                         const question = detail.questions;
                         const isCorrect = detail.is_correct;
+                        const isPartial = isPartiallyCorrect(isCorrect, Number(detail.marks_awarded) || 0);
                         const studentAnswer = detail.student_answer;
                         const correctAnswers = question?.correct_answers as string[] || [];
+                        const rubric = getRubric(question);
+                        const rubricScores = getRubricScores(detail);
 
                         return (
                           <div key={detail.id} className="border-b border-gray-100 pb-8 last:border-0">
@@ -269,14 +362,43 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
                               </span>
                               <div className="flex-1">
                                 <h3 className="text-lg font-medium text-gray-900">
-                                  {question?.question_text || 'Question not found'}
+                                  {question ? <MathText text={question.question_text} /> : 'Question not found'}
                                 </h3>
+                                {question?.image_url && (
+                                  <img
+                                    src={question.image_url}
+                                    alt={`Diagram for question ${idx + 1}`}
+                                    className="mt-2 max-h-60 max-w-full object-contain rounded-lg border border-gray-200"
+                                  />
+                                )}
+                                {question && (
+                                  <p className={`text-xs font-semibold mt-1 ${detail.marks_awarded < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                    Marks: {Number(detail.marks_awarded) || 0}/{question.marks}
+                                    {submission.shuffle_seed !== null && (
+                                      <span className="text-gray-400 font-normal"> · Question {question.question_number} of the test</span>
+                                    )}
+                                  </p>
+                                )}
+                                {detail.shown_options.length > 0 && (
+                                  <p className="text-xs text-gray-500 mt-1">
+                                    Options as shown:{' '}
+                                    {detail.shown_options.map((option: string, optionIdx: number) => (
+                                      <span key={optionIdx} className="mr-2">
+                                        {optionIdx + 1}. <MathText text={option} />
+                                      </span>
+                                    ))}
+                                  </p>
+                                )}
                               </div>
                               <div className="flex-shrink-0">
                                 {isCorrect === true ? (
                                   <span className="flex items-center gap-1 text-green-600 font-bold px-3 py-1 bg-green-50 rounded-full text-xs">
                                     <CheckCircle className="w-4 h-4" /> Correct
                                   </span>
+                                ) : isPartial ? (
+                                  <span className="flex items-center gap-1 text-orange-600 font-bold px-3 py-1 bg-orange-50 rounded-full text-xs">
+                                    <AlertCircle className="w-4 h-4" /> Partially Correct
+                                  </span>
                                 ) : isCorrect === false ? (
                                   <span className="flex items-center gap-1 text-red-600 font-bold px-3 py-1 bg-red-50 rounded-full text-xs">
                                     <XCircle className="w-4 h-4" /> Incorrect
@@ -292,18 +414,69 @@ export default function TestResult({ submissionId, onBackToHome }: TestResultPro
                             <div className="ml-11 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                               <div className="p-3 bg-gray-50 rounded-lg">
                                 <p className="text-gray-500 mb-1 font-medium">Your Answer:</p>
-                                <p className={`font-semibold ${isCorrect === false ? 'text-red-600' : 'text-gray-900'}`}>
-                                  {Array.isArray(studentAnswer) ? studentAnswer.join(', ') : (studentAnswer || 'Not answered')}
+                                <p className={`font-semibold ${isPartial ? 'text-orange-600' : isCorrect === false ? 'text-red-600' : 'text-gray-900'}`}>
+                                  <MathText text={formatAnswer(question, studentAnswer, 'Not answered')} />
                                 </p>
+                                {renderOptionImages(question, studentAnswer)}
                               </div>
                               <div className="p-3 bg-blue-50/50 rounded-lg">
                                 <p className="text-blue-500 mb-1 font-medium">Correct Answer:</p>
-                                <p className="font-semibold text-blue-900">
-                                  {Array.isArray(correctAnswers) ? correctAnswers.join(', ') : correctAnswers}
-                                </p>
+                                {answerKeyReleased ? (
+                                  <>
+                                    <p className="font-semibold text-blue-900">
+                                      <MathText text={formatAnswer(question, correctAnswers, '—')} />
+                                    </p>
+                                    {renderOptionImages(question, correctAnswers)}
+                                  </>
+                                ) : (
+                                  <p className="text-gray-500">Shown once the test has closed for every student</p>
+                                )}
                               </div>
                             </div>
 
+                            {rubric && rubricScores.length > 0 && (
+                              <div className="ml-11 mt-3 border border-gray-100 rounded-lg overflow-hidden text-sm">
+                                <table className="w-full">
+                                  <thead className="bg-gray-50 text-gray-500">
+                                    <tr>
+                                      <th className="px-3 py-2 text-left font-medium">Criterion</th>
+                                      <th className="px-3 py-2 text-left font-medium">Level</th>
+                                      <th className="px-3 py-2 text-right font-medium">Marks</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-gray-100">
+                                    {rubric.criteria.map((criterion) => {
+                                      const score = rubricScores.find((s) => s.criterion_id === criterion.id);
+                                      const level = score ? criterion.levels[score.level] : undefined;
+                                      return (
+                                        <tr key={criterion.id}>
+                                          <td className="px-3 py-2 font-medium text-gray-900">{criterion.name}</td>
+                                          <td className="px-3 py-2 text-gray-700">
+                                            {level ? level.label : '—'}
+                                            {level?.description && <span className="block text-xs text-gray-500">{level.description}</span>}
+                                          </td>
+                                          <td className="px-3 py-2 text-right text-gray-900">{score ? score.marks : 0}/{getCriterionMaxMarks(criterion)}</td>
+                                        </tr>
+                                      );
+                                    })}
+                                  </tbody>
+                                </table>
+                              </div>
+                            )}
+
+                            {detail.grader_comment && (
+                              <div className="ml-11 mt-3 p-3 bg-yellow-50 rounded-lg text-sm text-gray-700">
+                                <p className="text-yellow-700 mb-1 font-medium">Grader's Comment:</p>
+                                <p className="whitespace-pre-wrap">{detail.grader_comment}</p>
+                              </div>
+                            )}
+
+                            {question?.explanation?.trim() && (
+                              <div className="ml-11 mt-3 p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+                                <p className="text-gray-500 mb-1 font-medium">Explanation:</p>
+                                <MathText text={question.explanation} />
+                              </div>
+                            )}
                           </div>
                         );
                       })}
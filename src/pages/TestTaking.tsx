@@ -1,26 +1,43 @@
-import { useState, useEffect, useRef } from 'react';
-import { AlertTriangle, Clock, CheckCircle, Menu, X } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AlertTriangle, Clock, CheckCircle, Lock, Menu, X, Wifi, WifiOff } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { evaluateAnswer, calculateResults } from '../lib/evaluation';
 import {
   getOrCreateSlot,
   generateStudentCode,
   getNextSerialForSlot,
 } from '../lib/slotManagement';
+import { AUTOSAVE_INTERVAL_MS, saveAttempt, startAttempt } from '../lib/attempts';
+import {
+  getStoredAttempt,
+  getSubmitErrorMessage,
+  isNetworkError,
+  isRetryableError,
+  MAX_SERVER_ERROR_RETRIES,
+  removeStoredAttempt,
+  storeAttempt,
+  waitForRetry,
+} from '../lib/offlineQueue';
+import { orderPaper } from '../lib/paperOrder';
+import type { QuestionGroup } from '../lib/questionGroups';
+import { getSectionTimeLeft, isSectionTimeLocked, sortSections, type TestSection } from '../lib/sections';
 import type { Database } from '../lib/database.types';
 import QuestionRenderer from '../components/QuestionRenderer';
+import StimulusPanel from '../components/StimulusPanel';
 
 type Test = Database['public']['Tables']['tests']['Row'];
-type Question = Database['public']['Tables']['questions']['Row'];
+// Student-safe question payload: no answer key, rubric or explanation
+type Question = Database['public']['Functions']['get_test_questions']['Returns'][number];
 
 interface TestTakingProps {
   testId: string;
   studentName: string;
   fatherName: string;
   classApplyingFor: string;
+  accessCode: string;
   retestKeyId?: string;
   isMasterKey?: boolean;
-  onComplete: (submissionId: string) => void;
+  // The key is what lets the results page read the student's own review
+  onComplete: (submissionId: string, submissionKey: string) => void;
 }
 
 export default function TestTaking({
@@ -28,6 +45,7 @@ export default function TestTaking({
   studentName,
   fatherName,
   classApplyingFor,
+  accessCode,
   retestKeyId,
   isMasterKey,
   onComplete,
@@ -42,20 +60,46 @@ export default function TestTaking({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [slotNumber, setSlotNumber] = useState(0);
   const [studentCode, setStudentCode] = useState('');
+  const [attemptStarted, setAttemptStarted] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // 'pending': saved on this device only; 'saved': the server has the latest draft
+  const [syncStatus, setSyncStatus] = useState<'pending' | 'saved' | 'error'>('pending');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [waitingForConnection, setWaitingForConnection] = useState(false);
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const [groups, setGroups] = useState<QuestionGroup[]>([]);
+  // Seconds spent in each section, keyed by section id
+  const [sectionTimeUsed, setSectionTimeUsed] = useState<Record<string, number>>({});
+  const [sectionNotice, setSectionNotice] = useState<string | null>(null);
+  // A submission queued on this device in an earlier session, shown until it reaches the server
+  const [pendingSubmission, setPendingSubmission] = useState<Record<string, unknown> | null>(null);
 
   // Refs for state access in event handlers
   const answersRef = useRef<Record<string, any>>({});
-  const questionsRef = useRef<Question[]>([]);
+  // performance.now() at which time runs out, synced from the server's deadline
+  const deadlineRef = useRef(0);
+  const currentQuestionIdRef = useRef<string | null>(null);
+  const currentSectionIdRef = useRef<string | null>(null);
+  const sectionTimeUsedRef = useRef<Record<string, number>>({});
+  // performance.now() of the last timer tick, to charge the time since then to the current section
+  const lastTickRef = useRef(0);
   const violationCountRef = useRef(0);
   const fullscreenExitCountRef = useRef(0);
   const tabSwitchCountRef = useRef(0);
   const startTimeRef = useRef<number>(Date.now());
   const submissionIdRef = useRef<string | null>(null);
+  // Identifies the attempt for autosave and resume, and is sent with every submit
+  // attempt so a retry cannot create a second submission
+  const submissionKeyRef = useRef<string>(crypto.randomUUID());
   const malpracticeWarningTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const sectionNoticeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Sync refs
   useEffect(() => { answersRef.current = answers; }, [answers]);
-  useEffect(() => { questionsRef.current = questions; }, [questions]);
+  useEffect(() => {
+    currentQuestionIdRef.current = questions[currentQuestionIndex]?.id ?? null;
+    currentSectionIdRef.current = questions[currentQuestionIndex]?.section_id ?? null;
+  }, [questions, currentQuestionIndex]);
 
   // Anti-Cheating Handlers
   const preventDefault = (e: Event) => e.preventDefault();
@@ -125,6 +169,7 @@ export default function TestTaking({
     document.removeEventListener('fullscreenchange', handleFullscreenChange);
 
     if (malpracticeWarningTimeoutRef.current) clearTimeout(malpracticeWarningTimeoutRef.current);
+    if (sectionNoticeTimeoutRef.current) clearTimeout(sectionNoticeTimeoutRef.current);
   };
 
   useEffect(() => {
@@ -134,19 +179,87 @@ export default function TestTaking({
     return () => cleanupAntiCheating();
   }, []);
 
+  // Counts down to the server deadline on a monotonic clock, so changing the
+  // system time or a throttled tab cannot stretch the exam
   useEffect(() => {
-    if (timeLeft <= 0 && timeLeft !== 0) return;
+    if (!attemptStarted || isSubmitting) return;
     const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          handleSubmit(true);
-          return 0;
-        }
-        return prev - 1;
-      });
+      const now = performance.now();
+      const sectionId = currentSectionIdRef.current;
+      if (sectionId) {
+        sectionTimeUsedRef.current = {
+          ...sectionTimeUsedRef.current,
+          [sectionId]: (sectionTimeUsedRef.current[sectionId] || 0) + (now - lastTickRef.current) / 1000,
+        };
+        setSectionTimeUsed(sectionTimeUsedRef.current);
+      }
+      lastTickRef.current = now;
+
+      const remaining = Math.max(0, Math.ceil((deadlineRef.current - performance.now()) / 1000));
+      setTimeLeft(remaining);
+      if (remaining === 0) handleSubmitRef.current(true);
     }, 1000);
     return () => clearInterval(timer);
-  }, [timeLeft]);
+  }, [attemptStarted, isSubmitting]);
+
+  const syncClock = useCallback((remainingSeconds: number) => {
+    deadlineRef.current = performance.now() + remainingSeconds * 1000;
+    setTimeLeft(remainingSeconds);
+  }, []);
+
+  const getDraft = useCallback(() => ({
+    answers: answersRef.current,
+    currentQuestionId: currentQuestionIdRef.current,
+    violationCount: violationCountRef.current,
+    sectionTimeUsed: sectionTimeUsedRef.current,
+  }), []);
+
+  const syncDraft = useCallback(() => {
+    if (submissionIdRef.current) return;
+    saveAttempt(submissionKeyRef.current, getDraft())
+      .then((remainingSeconds) => {
+        if (remainingSeconds !== null) syncClock(remainingSeconds);
+        setSyncStatus('saved');
+        setLastSavedAt(new Date());
+      })
+      .catch((error) => {
+        console.error('Autosave failed:', error);
+        setSyncStatus('error');
+      });
+  }, [getDraft, syncClock]);
+
+  // Connection status
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Keep a copy of every change on this device so nothing is lost while offline
+  useEffect(() => {
+    if (!attemptStarted || isSubmitting) return;
+    setSyncStatus('pending');
+    storeAttempt({
+      ...getDraft(),
+      submissionKey: submissionKeyRef.current,
+      testId,
+      pendingSubmission: null,
+      updatedAt: Date.now(),
+    }).catch((error) => console.error('Local save failed:', error));
+  }, [attemptStarted, isSubmitting, answers, currentQuestionIndex, violationCount, testId, getDraft]);
+
+  // Autosave to the server, and catch up as soon as the connection returns
+  useEffect(() => {
+    if (!attemptStarted || !isOnline) return;
+    syncDraft();
+    const autosave = setInterval(syncDraft, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(autosave);
+  }, [attemptStarted, isOnline, syncDraft]);
 
   const enterFullscreen = async () => {
     try {
@@ -180,15 +293,6 @@ export default function TestTaking({
     malpracticeWarningTimeoutRef.current = setTimeout(() => setShowMalpracticeWarning(false), 5000);
   };
 
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-
   const loadTestData = async () => {
     console.log('🎯 TestTaking: Starting to load test data for testId:', testId);
     try {
@@ -202,24 +306,63 @@ export default function TestTaking({
       console.log('Test fetch result:', { testData, testError });
       if (testError) throw testError;
 
+      const durationSeconds = (testData as Test).duration_minutes * 60;
       setTest(testData as Test);
-      setTimeLeft((testData as Test).duration_minutes * 60);
+
+      const { data: sectionsData, error: sectionsError } = await supabase
+        .from('test_sections')
+        .select('*')
+        .eq('test_id', testId);
+      if (sectionsError) throw sectionsError;
+      const sortedSections = sortSections((sectionsData || []) as TestSection[]);
+      setSections(sortedSections);
+
+      const { data: groupsData, error: groupsError } = await supabase
+        .from('question_groups')
+        .select('*')
+        .eq('test_id', testId);
+      if (groupsError) throw groupsError;
+      setGroups((groupsData || []) as QuestionGroup[]);
 
       console.log('🎰 Getting slot information...');
       const slot = await getOrCreateSlot(testId);
-      setSlotNumber(slot.slot_number);
 
       const serial = await getNextSerialForSlot(testId, slot.slot_number, classApplyingFor);
       const code = generateStudentCode(classApplyingFor, studentName, serial);
-      setStudentCode(code);
       console.log('✅ Student code generated:', code);
 
+      // Creates the in-progress submission, or picks up the one left by a crash
+      const attempt = await startAttempt({
+        testId,
+        accessCode,
+        studentName,
+        fatherName,
+        classApplyingFor,
+        studentCode: code,
+        submissionKey: submissionKeyRef.current,
+        retestKeyId,
+      });
+      submissionKeyRef.current = attempt.submission_key;
+      setSlotNumber(attempt.slot_number);
+      setStudentCode(attempt.student_code);
+
+      const remainingSeconds = attempt.remaining_seconds ?? durationSeconds;
+      syncClock(remainingSeconds);
+      startTimeRef.current = Date.now() - (durationSeconds - remainingSeconds) * 1000;
+
+      const stored = attempt.resumed
+        ? await getStoredAttempt(attempt.submission_key).catch(() => null)
+        : null;
+      if (stored?.pendingSubmission) {
+        // Submitted on this device before the connection or browser gave out
+        setPendingSubmission(stored.pendingSubmission);
+        deliverSubmission(stored.pendingSubmission);
+        return;
+      }
+
       console.log('📝 Fetching questions...');
       const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('test_id', testId)
-        .order('question_number', { ascending: true });
+        .rpc('get_test_questions', { p_test_id: testId, p_submission_key: attempt.submission_key });
 
       console.log('Questions fetch result:', { count: questionsData?.length, error: questionsError });
       if (questionsError) throw questionsError;
@@ -228,29 +371,42 @@ export default function TestTaking({
         const questionsList = questionsData as Question[];
         console.log('Original questions order:', questionsList.map(q => q.question_number));
 
-        // Shuffle questions
-        const shuffledQuestions = shuffleArray<Question>(questionsList);
-        console.log('Shuffled questions order:', shuffledQuestions.map(q => q.question_number));
-
-        // Shuffle options for each question if they exist
-        const questionsWithOptionsShuffled = shuffledQuestions.map((q: Question) => {
-          const options = q.options as any;
-          if (options && Array.isArray(options) && options.length > 1) {
-            // Don't shuffle True/False options as they should stay fixed
-            if (q.question_type === 'mcq_single' || q.question_type === 'mcq_multiple') {
-              const shuffledOptions = shuffleArray<string>(options as string[]);
-              console.log(`Shuffled options for Q${q.question_number}:`, shuffledOptions);
-              return {
-                ...q,
-                options: shuffledOptions
-              };
-            }
-          }
-          return q;
-        });
+        // Question and option order follow the attempt's seed, so a resume (or the
+        // results page) sees exactly the same paper
+        const questionsWithOptionsShuffled = orderPaper(questionsList, sortedSections, attempt.shuffle_seed ?? 0, testData as Test);
+        console.log('Shuffled questions order:', questionsWithOptionsShuffled.map(q => q.question_number));
 
         setQuestions(questionsWithOptionsShuffled);
         console.log('✅ Test loaded successfully with', questionsWithOptionsShuffled.length, 'questions');
+
+        if (attempt.resumed) {
+          // The copy on this device is written on every change, so it is never behind the server's
+          const draft = stored ?? {
+            answers: (attempt.draft_answers || {}) as typeof answers,
+            currentQuestionId: attempt.current_question_id,
+            violationCount: attempt.tab_switch_count || 0,
+          };
+          setAnswers(draft.answers as typeof answers);
+          const resumeIndex = questionsWithOptionsShuffled.findIndex((q) => q.id === draft.currentQuestionId);
+          if (resumeIndex >= 0) setCurrentQuestionIndex(resumeIndex);
+
+          violationCountRef.current = Math.max(draft.violationCount, attempt.tab_switch_count || 0);
+          setViolationCount(violationCountRef.current);
+
+          // Section time is saved to the server more often than to this device, so keep the larger of the two
+          const serverSectionTime = (attempt.section_time_used || {}) as Record<string, number>;
+          const localSectionTime = stored?.sectionTimeUsed || {};
+          sectionTimeUsedRef.current = Object.fromEntries(
+            [...new Set([...Object.keys(serverSectionTime), ...Object.keys(localSectionTime)])].map((id) => [
+              id,
+              Math.max(Number(serverSectionTime[id]) || 0, Number(localSectionTime[id]) || 0),
+            ])
+          );
+          setSectionTimeUsed(sectionTimeUsedRef.current);
+          alert('Your previous progress has been restored. Continue where you left off.');
+        }
+        lastTickRef.current = performance.now();
+        setAttemptStarted(true);
       } else {
         console.warn('⚠️ No questions found for this test');
         setQuestions([]);
@@ -272,120 +428,124 @@ export default function TestTaking({
     setAnswers((prev) => ({ ...prev, [questionId]: answer }));
   };
 
-  const handleSubmit = async (isAutoSubmit = false, forceMalpractice = false) => {
-    if (isSubmitting) return;
-    setIsSubmitting(true);
+  // Scoring happens in the submit-test edge function; only raw answers are sent.
+  // Keeps retrying with backoff while the connection is down, and gives up on
+  // server errors after a few tries.
+  const sendSubmission = async (body: Record<string, unknown>): Promise<string> => {
+    let serverErrors = 0;
+    for (let attempt = 0; ; attempt++) {
+      const { data, error } = await supabase.functions.invoke('submit-test', { body });
+      if (!error && data?.submission_id) return data.submission_id;
+      if (!error) throw new Error(data?.error || 'Failed to create submission.');
+      if (!isRetryableError(error)) throw error;
+      if (!isNetworkError(error) && ++serverErrors >= MAX_SERVER_ERROR_RETRIES) throw error;
+
+      setWaitingForConnection(true);
+      await waitForRetry(attempt);
+    }
+  };
 
+  const deliverSubmission = async (body: Record<string, unknown>) => {
+    setIsSubmitting(true);
     try {
-      const currentQuestions = questionsRef.current;
-      const currentAnswers = answersRef.current;
-      const currentViolationCount = violationCountRef.current;
-
-      const timeTakenSeconds = Math.floor((Date.now() - startTimeRef.current) / 1000);
+      const submissionId = await sendSubmission(body);
+      removeStoredAttempt(submissionKeyRef.current).catch((error) => console.error('Error clearing local copy:', error));
 
-      const evaluations = currentQuestions.map((q) => {
-        const studentAnswer = currentAnswers[q.id];
-        return evaluateAnswer(q, studentAnswer);
-      });
+      submissionIdRef.current = submissionId;
+      onComplete(submissionId, submissionKeyRef.current);
+    } catch (error) {
+      console.error('Error submitting test:', error);
+      if (isRetryableError(error)) {
+        // The server kept failing; the queued copy stays on this device for a manual retry
+        setPendingSubmission(body);
+      } else {
+        alert(`Error submitting test: ${await getSubmitErrorMessage(error)}. Please contact invigilator.`);
+      }
+      setWaitingForConnection(false);
+      setIsSubmitting(false);
+    }
+  };
 
-      const { score, correctCount, wrongCount, needsManualReview } = calculateResults(evaluations);
-      const totalMarks = currentQuestions.reduce((sum, q) => sum + q.marks, 0);
-      const percentage = totalMarks > 0 ? (score / totalMarks) * 100 : 0;
+  const handleSubmit = async (isAutoSubmit = false, forceMalpractice = false) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
 
-      const hasMalpractice = forceMalpractice || currentViolationCount > 0;
+    const currentViolationCount = violationCountRef.current;
+    const timeTakenSeconds = Math.floor((Date.now() - startTimeRef.current) / 1000);
+    const hasMalpractice = forceMalpractice || currentViolationCount > 0;
+
+    const body = {
+      test_id: testId,
+      student_name: studentName,
+      father_name: fatherName,
+      class_applying_for: classApplyingFor,
+      student_code: studentCode,
+      slot_number: slotNumber,
+      tab_switch_count: currentViolationCount,
+      time_taken_seconds: timeTakenSeconds,
+      malpractice_detected: hasMalpractice,
+      is_auto_submit: isAutoSubmit,
+      retest_key_id: retestKeyId || null,
+      is_retest: !!(retestKeyId || isMasterKey),
+      submission_key: submissionKeyRef.current,
+      answers: answersRef.current,
+    };
+
+    // Queue on this device first so the submission survives a dropped connection or a crash
+    await storeAttempt({
+      ...getDraft(),
+      submissionKey: submissionKeyRef.current,
+      testId,
+      pendingSubmission: body,
+      updatedAt: Date.now(),
+    }).catch((error) => console.error('Error queueing submission locally:', error));
+
+    await deliverSubmission(body);
+  };
 
-      // Retest Invalidation
-      if (retestKeyId || isMasterKey) {
-        import('../lib/slotManagement').then(({ invalidatePreviousSubmission }) => {
-          invalidatePreviousSubmission(testId, slotNumber, studentName, fatherName, retestKeyId);
-        });
-      }
+  // The section-lock effect below submits through this, so it does not re-run whenever handleSubmit changes
+  const handleSubmitRef = useRef(handleSubmit);
+  useEffect(() => { handleSubmitRef.current = handleSubmit; });
 
-      // Retry Logic for "Duplicate Student Code"
-      let submission = null;
-      let attempt = 0;
-      const maxAttempts = 3;
-
-      while (attempt < maxAttempts) {
-        try {
-          // Ensure Uniqueness: Append timestamp + random to code at submission time
-          // We regenerate this on every attempt to ensure a new unique value
-          const uniqueSuffix = `${Date.now().toString().slice(-6)}-${Math.random().toString(36).substring(2, 5).toUpperCase()}`;
-          const finalStudentCode = `${studentCode || 'FALLBACK'}-${uniqueSuffix}`;
-
-          const { data, error } = await (supabase
-            .from('submissions')
-            .insert({
-              test_id: testId,
-              student_name: studentName,
-              father_name: fatherName,
-              class_applying_for: classApplyingFor,
-              student_code: finalStudentCode,
-              slot_number: slotNumber,
-              tab_switch_count: currentViolationCount,
-              time_taken_seconds: timeTakenSeconds,
-              score,
-              total_marks: totalMarks,
-              percentage,
-              correct_count: correctCount,
-              wrong_count: wrongCount,
-              needs_manual_review: needsManualReview,
-              malpractice_detected: hasMalpractice,
-              status: isAutoSubmit ? 'auto_submitted' : 'completed',
-              submitted_at: new Date().toISOString(),
-              retest_key_used: retestKeyId || null
-            } as any)
-            .select()
-            .single() as any);
-
-          if (error) {
-            // If unique constraint violation (code 23505), throw to catch block but check code
-            if (error.code === '23505') {
-              console.warn(`Attempt ${attempt + 1}: Duplicate Code ${finalStudentCode}. Retrying...`);
-              attempt++;
-              continue; // Retry loop
-            }
-            throw error; // Other errors, throw immediately
-          }
-
-          submission = data;
-          break; // Success
-
-        } catch (err: any) {
-          if (attempt === maxAttempts - 1) throw err; // Throw if last attempt failed
-          attempt++;
-        }
-      }
+  const getSection = useCallback((question: Question | undefined) =>
+    sections.find((section) => section.id === question?.section_id) ?? null, [sections]);
 
-      if (!submission) throw new Error('Failed to create submission after multiple attempts.');
+  const isSectionLocked = useCallback((section: TestSection | null) =>
+    !!section && isSectionTimeLocked(section, sectionTimeUsed[section.id] || 0), [sectionTimeUsed]);
 
-      const submissionData = submission as any;
-      if (retestKeyId) {
-        import('../lib/slotManagement').then(({ markRetestKeyAsUsed }) => {
-          markRetestKeyAsUsed(retestKeyId, submissionData.id);
-        });
-      }
+  const isQuestionLocked = useCallback((idx: number) =>
+    isSectionLocked(getSection(questions[idx])), [isSectionLocked, getSection, questions]);
 
-      const answersToInsert = currentQuestions.map((q, idx) => ({
-        submission_id: submissionData.id,
-        question_id: q.id,
-        student_answer: currentAnswers[q.id] || null,
-        is_correct: evaluations[idx].isCorrect,
-        marks_awarded: evaluations[idx].marksAwarded,
-      }));
+  // Nearest question in the given direction that is not in a locked section
+  const findOpenIndex = useCallback((from: number, step: 1 | -1): number | null => {
+    for (let idx = from + step; idx >= 0 && idx < questions.length; idx += step) {
+      if (!isQuestionLocked(idx)) return idx;
+    }
+    return null;
+  }, [questions.length, isQuestionLocked]);
 
-      const { error: answersError } = await (supabase.from('answers').insert(answersToInsert as any) as any);
-      if (answersError) throw answersError;
+  const goToQuestion = (idx: number) => {
+    if (!isQuestionLocked(idx)) setCurrentQuestionIndex(idx);
+  };
 
-      submissionIdRef.current = submissionData.id;
-      onComplete(submissionData.id);
+  const showSectionNotice = useCallback((message: string) => {
+    setSectionNotice(message);
+    if (sectionNoticeTimeoutRef.current) clearTimeout(sectionNoticeTimeoutRef.current);
+    sectionNoticeTimeoutRef.current = setTimeout(() => setSectionNotice(null), 5000);
+  }, []);
 
-    } catch (error: any) {
-      console.error('Error submitting test:', error);
-      alert(`Error submitting test: ${error.message || 'Unknown code'}. Please contact invigilator.`);
-      setIsSubmitting(false);
+  // Moves the student on once the time of a locking section runs out, and
+  // submits when every remaining section is locked
+  useEffect(() => {
+    if (!attemptStarted || isSubmitting || !isQuestionLocked(currentQuestionIndex)) return;
+    const nextIndex = findOpenIndex(currentQuestionIndex, 1) ?? findOpenIndex(currentQuestionIndex, -1);
+    if (nextIndex === null) {
+      handleSubmitRef.current(true);
+      return;
     }
-  };
+    showSectionNotice(`Time is up for ${getSection(questions[currentQuestionIndex])?.title}. The section is now locked.`);
+    setCurrentQuestionIndex(nextIndex);
+  }, [attemptStarted, isSubmitting, currentQuestionIndex, questions, getSection, isQuestionLocked, findOpenIndex, showSectionNotice]);
 
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
@@ -397,10 +557,37 @@ export default function TestTaking({
 
   const getQuestionStatusColor = (idx: number) => {
     if (idx === currentQuestionIndex) return 'bg-blue-600 text-white shadow-md ring-2 ring-blue-300';
+    if (isQuestionLocked(idx)) return 'bg-gray-100 text-gray-400 cursor-not-allowed';
     if (answers[questions[idx].id] !== undefined) return 'bg-green-500 text-white hover:bg-green-600';
     return 'bg-red-50 text-red-600 border border-red-200 hover:bg-red-100';
   };
 
+  if (pendingSubmission) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 md:p-8 max-w-md w-full text-center">
+          <WifiOff className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-2">Submission pending</h2>
+          <p className="text-sm md:text-base text-gray-600 mb-6">
+            {!isSubmitting
+              ? 'Your test was submitted on this device but has not reached the server yet. Your answers are saved here; try again, or ask the invigilator for help.'
+              : waitingForConnection
+                ? 'Waiting for the connection. Your answers are saved on this device; do not close this window.'
+                : 'Submitting your test...'}
+          </p>
+          {!isSubmitting && (
+            <button
+              onClick={() => deliverSubmission(pendingSubmission)}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2.5 px-6 rounded-lg transition"
+            >
+              Retry submission
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (!test || questions.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -410,7 +597,28 @@ export default function TestTaking({
   }
 
   const currentQuestion = questions[currentQuestionIndex];
+  const currentSection = getSection(currentQuestion);
   const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  const previousIndex = findOpenIndex(currentQuestionIndex, -1);
+  const nextIndex = findOpenIndex(currentQuestionIndex, 1);
+
+  // The passage of the current question, shown beside it; its questions are next to each other on the paper
+  const currentGroup = groups.find((group) => group.id === currentQuestion.group_id) ?? null;
+  const groupIndices = currentGroup ? questions.flatMap((q, idx) => (q.group_id === currentGroup.id ? [idx] : [])) : [];
+  const groupRange = groupIndices.length > 1
+    ? `Questions ${groupIndices[0] + 1}–${groupIndices[groupIndices.length - 1] + 1}`
+    : `Question ${currentQuestionIndex + 1}`;
+
+  // Navigator groups: one per section, then any questions outside the sections
+  const questionGroups = sections.length === 0
+    ? [{ section: null as TestSection | null, indices: questions.map((_, idx) => idx) }]
+    : [
+        ...sections.map((section) => ({
+          section: section as TestSection | null,
+          indices: questions.flatMap((q, idx) => (q.section_id === section.id ? [idx] : [])),
+        })),
+        { section: null, indices: questions.flatMap((q, idx) => (getSection(q) ? [] : [idx])) },
+      ].filter((group) => group.indices.length > 0);
 
   return (
     <div className="h-screen bg-gray-50 flex flex-col font-sans relative overflow-hidden">
@@ -434,6 +642,18 @@ export default function TestTaking({
         </div>
       )}
 
+      {/* Submission waiting for the connection */}
+      {isSubmitting && waitingForConnection && (
+        <div className="fixed inset-0 z-[150] bg-black/80 flex flex-col items-center justify-center text-white p-8 text-center">
+          <WifiOff className="w-14 h-14 md:w-20 md:h-20 text-amber-400 mb-6 animate-pulse" />
+          <h2 className="text-2xl md:text-3xl font-bold mb-3">Waiting for connection</h2>
+          <p className="text-base md:text-lg max-w-xl text-gray-300">
+            Your answers are saved on this device and will be submitted automatically when the connection returns.
+            Do not close this window.
+          </p>
+        </div>
+      )}
+
       {/* Malpractice Warning Banner */}
       {showMalpracticeWarning && (
         <div className="fixed top-0 left-0 right-0 bg-red-600 text-white p-2 md:p-3 z-[100] flex items-center justify-center gap-2 shadow-lg animate-pulse">
@@ -446,6 +666,14 @@ export default function TestTaking({
         </div>
       )}
 
+      {/* Section locked notice */}
+      {sectionNotice && (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[100] bg-amber-500 text-white px-4 py-2 md:px-6 md:py-3 rounded-full shadow-lg flex items-center gap-2 text-sm md:text-base font-semibold max-w-[90vw]">
+          <Lock className="w-4 h-4 md:w-5 md:h-5 flex-shrink-0" />
+          <span>{sectionNotice}</span>
+        </div>
+      )}
+
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200 z-10 flex-shrink-0">
         <div className="container mx-auto px-4 md:px-6 py-2 md:py-3">
@@ -467,6 +695,24 @@ export default function TestTaking({
                 </span>
               </div>
 
+              <div
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 md:px-3 rounded-full text-xs md:text-sm font-semibold ${
+                  !isOnline || syncStatus === 'error' ? 'bg-amber-100 text-amber-800' : syncStatus === 'saved' ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-600'
+                }`}
+                title={!isOnline ? 'Answers are kept on this device and will be sent when the connection returns' : undefined}
+              >
+                {isOnline ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+                <span className="hidden md:inline">
+                  {!isOnline
+                    ? 'Offline - saved on this device'
+                    : syncStatus === 'error'
+                      ? 'Not synced - retrying'
+                      : syncStatus === 'saved' && lastSavedAt
+                        ? `Saved ${lastSavedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                        : 'Saved on this device'}
+                </span>
+              </div>
+
               <div className="hidden sm:flex items-center gap-2">
                 <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full ${violationCount > 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'}`}>
                   <AlertTriangle className={`w-4 h-4 ${violationCount > 0 ? 'text-red-600' : 'text-gray-400'}`} />
@@ -508,24 +754,35 @@ export default function TestTaking({
             </button>
           </div>
 
-          <div className="flex-1 overflow-y-auto p-4 md:p-5 custom-scrollbar">
-            <div className="grid grid-cols-4 sm:grid-cols-5 gap-2 md:gap-3">
-              {questions.map((_, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => {
-                    setCurrentQuestionIndex(idx);
-                    if (window.innerWidth < 768) setIsSidebarOpen(false);
-                  }}
-                  className={`h-9 w-full md:h-10 rounded-lg text-xs md:text-sm font-bold transition-all duration-200 flex items-center justify-center relative ${getQuestionStatusColor(idx)}`}
-                >
-                  {idx + 1}
-                  {answers[questions[idx].id] !== undefined && idx !== currentQuestionIndex && (
-                    <CheckCircle className="w-3 h-3 absolute -top-1 -right-1 text-green-600 bg-white rounded-full" />
-                  )}
-                </button>
-              ))}
-            </div>
+          <div className="flex-1 overflow-y-auto p-4 md:p-5 custom-scrollbar space-y-5">
+            {questionGroups.map((group) => (
+              <div key={group.section?.id ?? 'other'}>
+                {sections.length > 0 && (
+                  <h4 className="text-[10px] md:text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+                    {isSectionLocked(group.section) && <Lock className="w-3 h-3" />}
+                    {group.section?.title ?? 'Other Questions'}
+                  </h4>
+                )}
+                <div className="grid grid-cols-4 sm:grid-cols-5 gap-2 md:gap-3">
+                  {group.indices.map((idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => {
+                        goToQuestion(idx);
+                        if (window.innerWidth < 768) setIsSidebarOpen(false);
+                      }}
+                      disabled={isQuestionLocked(idx)}
+                      className={`h-9 w-full md:h-10 rounded-lg text-xs md:text-sm font-bold transition-all duration-200 flex items-center justify-center relative ${getQuestionStatusColor(idx)}`}
+                    >
+                      {idx + 1}
+                      {answers[questions[idx].id] !== undefined && idx !== currentQuestionIndex && (
+                        <CheckCircle className="w-3 h-3 absolute -top-1 -right-1 text-green-600 bg-white rounded-full" />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
           </div>
 
           <div className="p-3 md:p-4 border-t border-gray-200 bg-gray-50 text-[10px] md:text-xs text-gray-500 grid grid-cols-3 gap-1">
@@ -555,35 +812,81 @@ export default function TestTaking({
         {/* Question Area */}
         <main className="flex-1 flex flex-col bg-slate-50 relative overflow-hidden">
           <div className="flex-1 overflow-y-auto p-3 md:p-6 custom-scrollbar flex flex-col">
-            <div className="max-w-4xl mx-auto w-full flex-1 flex flex-col justify-center">
-              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6 flex flex-col min-h-[350px] md:min-h-[400px]">
-                <div className="mb-4 flex items-center justify-between border-b border-gray-100 pb-3">
-                  <span className="text-xs md:text-sm font-medium text-gray-500">Question {currentQuestionIndex + 1}</span>
-                  <span className="px-2.5 py-1 bg-blue-50 text-blue-700 text-[10px] md:text-xs font-bold uppercase rounded-full tracking-wide">
-                    {currentQuestion.marks} Marks
-                  </span>
+            <div className={`${currentGroup ? 'max-w-7xl' : 'max-w-4xl'} mx-auto w-full flex-1 flex flex-col justify-center`}>
+              {sections.length > 0 && (
+                <div className="flex gap-2 overflow-x-auto pb-3 custom-scrollbar">
+                  {sections.map((section) => {
+                    const firstIndex = questions.findIndex((q) => q.section_id === section.id);
+                    if (firstIndex < 0) return null;
+                    const isActive = currentSection?.id === section.id;
+                    const isLocked = isSectionLocked(section);
+                    const sectionTimeLeft = getSectionTimeLeft(section, sectionTimeUsed[section.id] || 0);
+                    return (
+                      <button
+                        key={section.id}
+                        onClick={() => {
+                          if (!isActive) goToQuestion(firstIndex);
+                        }}
+                        disabled={isLocked}
+                        className={`flex-shrink-0 flex items-center gap-2 px-3 py-1.5 md:px-4 md:py-2 rounded-lg border text-xs md:text-sm font-semibold transition ${
+                          isActive
+                            ? 'bg-blue-600 border-blue-600 text-white shadow-sm'
+                            : isLocked
+                              ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                              : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {isLocked && <Lock className="w-3.5 h-3.5" />}
+                        <span>{section.title}</span>
+                        {sectionTimeLeft !== null && !isLocked && (
+                          <span className={`font-mono ${isActive ? 'text-blue-100' : sectionTimeLeft === 0 || sectionTimeLeft < 60 ? 'text-red-600' : 'text-gray-500'}`}>
+                            {sectionTimeLeft === 0 ? 'Time up' : formatTime(sectionTimeLeft)}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
+              )}
 
-                <div className="flex-1 overflow-y-auto py-2">
-                  <QuestionRenderer
-                    question={currentQuestion}
-                    displayNumber={currentQuestionIndex + 1}
-                    answer={answers[currentQuestion.id]}
-                    onAnswerChange={(answer) => handleAnswerChange(currentQuestion.id, answer)}
-                  />
+              <div className={currentGroup ? 'grid grid-cols-1 lg:grid-cols-2 gap-4 items-start' : ''}>
+                {currentGroup && (
+                  <div className="lg:sticky lg:top-0 lg:max-h-[calc(100vh-12rem)] overflow-y-auto custom-scrollbar rounded-xl">
+                    <StimulusPanel group={currentGroup} questionRange={groupRange} />
+                  </div>
+                )}
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6 flex flex-col min-h-[350px] md:min-h-[400px]">
+                  <div className="mb-4 flex items-center justify-between border-b border-gray-100 pb-3">
+                    <span className="text-xs md:text-sm font-medium text-gray-500">
+                      {currentSection && <span className="font-semibold text-gray-700">{currentSection.title} · </span>}
+                      Question {currentQuestionIndex + 1}
+                    </span>
+                    <span className="px-2.5 py-1 bg-blue-50 text-blue-700 text-[10px] md:text-xs font-bold uppercase rounded-full tracking-wide">
+                      {currentQuestion.marks} Marks
+                    </span>
+                  </div>
+
+                  <div className="flex-1 overflow-y-auto py-2">
+                    <QuestionRenderer
+                      question={currentQuestion}
+                      displayNumber={currentQuestionIndex + 1}
+                      answer={answers[currentQuestion.id]}
+                      onAnswerChange={(answer) => handleAnswerChange(currentQuestion.id, answer)}
+                    />
+                  </div>
                 </div>
               </div>
 
               <div className="flex items-center justify-between pt-4 pb-2">
                 <button
-                  onClick={() => setCurrentQuestionIndex((prev) => Math.max(0, prev - 1))}
-                  disabled={currentQuestionIndex === 0}
+                  onClick={() => previousIndex !== null && setCurrentQuestionIndex(previousIndex)}
+                  disabled={previousIndex === null}
                   className="px-4 py-2 md:px-6 md:py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 text-sm md:text-base font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition shadow-sm"
                 >
                   Previous
                 </button>
 
-                {currentQuestionIndex === questions.length - 1 ? (
+                {nextIndex === null ? (
                   <button
                     onClick={() => handleSubmit(false)}
                     disabled={isSubmitting}
@@ -594,7 +897,7 @@ export default function TestTaking({
                   </button>
                 ) : (
                   <button
-                    onClick={() => setCurrentQuestionIndex((prev) => Math.min(questions.length - 1, prev + 1))}
+                    onClick={() => setCurrentQuestionIndex(nextIndex)}
                     className="px-6 py-2 md:px-8 md:py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm md:text-base font-medium rounded-lg transition shadow-md flex items-center gap-2"
                   >
                     Next Question
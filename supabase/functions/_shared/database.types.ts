@@ -0,0 +1,800 @@
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      tests: {
+        Row: {
+          id: string;
+          title: string;
+          description: string;
+          duration_minutes: number;
+          is_published: boolean;
+          total_marks: number;
+          passing_percentage: number;
+          negative_marks: number;
+          question_shuffle: 'none' | 'within_sections' | 'all';
+          shuffle_options: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description?: string;
+          duration_minutes?: number;
+          is_published?: boolean;
+          total_marks?: number;
+          passing_percentage?: number;
+          negative_marks?: number;
+          question_shuffle?: 'none' | 'within_sections' | 'all';
+          shuffle_options?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string;
+          duration_minutes?: number;
+          is_published?: boolean;
+          total_marks?: number;
+          passing_percentage?: number;
+          negative_marks?: number;
+          question_shuffle?: 'none' | 'within_sections' | 'all';
+          shuffle_options?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      questions: {
+        Row: {
+          id: string;
+          test_id: string;
+          question_number: number;
+          question_type: 'mcq_single' | 'mcq_multiple' | 'fill_blank' | 'true_false' | 'numerical' | 'short_answer' | 'paragraph' | 'matching' | 'ordering';
+          question_text: string;
+          options: Json;
+          correct_answers: Json;
+          marks: number;
+          is_case_sensitive: boolean;
+          negative_marks: number | null;
+          scoring_mode: 'all_or_nothing' | 'proportional' | 'proportional_deduct' | 'partial_jee' | 'adjacency';
+          answer_config: Json;
+          image_url: string | null;
+          explanation: string | null;
+          rubric: Json | null;
+          option_images: Json;
+          section_id: string | null;
+          bank_question_id: string | null;
+          bank_linked: boolean;
+          pool_id: string | null;
+          keep_position: boolean;
+          shuffle_options: boolean;
+          pinned_options: Json;
+          group_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          question_number: number;
+          question_type: 'mcq_single' | 'mcq_multiple' | 'fill_blank' | 'true_false' | 'numerical' | 'short_answer' | 'paragraph' | 'matching' | 'ordering';
+          question_text: string;
+          options?: Json;
+          correct_answers: Json;
+          marks?: number;
+          is_case_sensitive?: boolean;
+          negative_marks?: number | null;
+          scoring_mode?: 'all_or_nothing' | 'proportional' | 'proportional_deduct' | 'partial_jee' | 'adjacency';
+          answer_config?: Json;
+          image_url?: string | null;
+          explanation?: string | null;
+          rubric?: Json | null;
+          option_images?: Json;
+          section_id?: string | null;
+          bank_question_id?: string | null;
+          bank_linked?: boolean;
+          pool_id?: string | null;
+          keep_position?: boolean;
+          shuffle_options?: boolean;
+          pinned_options?: Json;
+          group_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          question_number?: number;
+          question_type?: 'mcq_single' | 'mcq_multiple' | 'fill_blank' | 'true_false' | 'numerical' | 'short_answer' | 'paragraph' | 'matching' | 'ordering';
+          question_text?: string;
+          options?: Json;
+          correct_answers?: Json;
+          marks?: number;
+          is_case_sensitive?: boolean;
+          negative_marks?: number | null;
+          scoring_mode?: 'all_or_nothing' | 'proportional' | 'proportional_deduct' | 'partial_jee' | 'adjacency';
+          answer_config?: Json;
+          image_url?: string | null;
+          explanation?: string | null;
+          rubric?: Json | null;
+          option_images?: Json;
+          section_id?: string | null;
+          bank_question_id?: string | null;
+          bank_linked?: boolean;
+          pool_id?: string | null;
+          keep_position?: boolean;
+          shuffle_options?: boolean;
+          pinned_options?: Json;
+          group_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'questions_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'questions_section_id_fkey';
+            columns: ['section_id'];
+            isOneToOne: false;
+            referencedRelation: 'test_sections';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'questions_bank_question_id_fkey';
+            columns: ['bank_question_id'];
+            isOneToOne: false;
+            referencedRelation: 'question_bank';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'questions_pool_id_fkey';
+            columns: ['pool_id'];
+            isOneToOne: false;
+            referencedRelation: 'question_pools';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'questions_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'question_groups';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      submissions: {
+        Row: {
+          id: string;
+          test_id: string;
+          student_name: string;
+          father_name: string | null;
+          class_applying_for: string;
+          student_code: string | null;
+          slot_number: number | null;
+          tab_switch_count: number;
+          malpractice_detected: boolean | null;
+          time_taken_seconds: number;
+          score: number;
+          total_marks: number;
+          percentage: number;
+          correct_count: number;
+          wrong_count: number;
+          needs_manual_review: boolean;
+          status: 'in_progress' | 'completed' | 'auto_submitted' | 'invalidated_by_retest';
+          retest_key_used: string | null;
+          submission_key: string | null;
+          draft_answers: Json;
+          current_question_id: string | null;
+          remaining_seconds: number | null;
+          last_saved_at: string | null;
+          started_at: string | null;
+          deadline_at: string | null;
+          submitted_late: boolean;
+          section_time_used: Json;
+          section_scores: Json;
+          drawn_question_ids: Json | null;
+          shuffle_seed: number | null;
+          paper_snapshot: Json | null;
+          submitted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          student_name: string;
+          father_name?: string | null;
+          class_applying_for: string;
+          student_code?: string | null;
+          slot_number?: number | null;
+          tab_switch_count?: number;
+          malpractice_detected?: boolean | null;
+          time_taken_seconds?: number;
+          score?: number;
+          total_marks?: number;
+          percentage?: number;
+          correct_count?: number;
+          wrong_count?: number;
+          needs_manual_review?: boolean;
+          status?: 'in_progress' | 'completed' | 'auto_submitted' | 'invalidated_by_retest';
+          retest_key_used?: string | null;
+          submission_key?: string | null;
+          draft_answers?: Json;
+          current_question_id?: string | null;
+          remaining_seconds?: number | null;
+          last_saved_at?: string | null;
+          started_at?: string | null;
+          deadline_at?: string | null;
+          submitted_late?: boolean;
+          section_time_used?: Json;
+          section_scores?: Json;
+          drawn_question_ids?: Json | null;
+          shuffle_seed?: number | null;
+          paper_snapshot?: Json | null;
+          submitted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          student_name?: string;
+          father_name?: string | null;
+          class_applying_for?: string;
+          student_code?: string | null;
+          slot_number?: number | null;
+          tab_switch_count?: number;
+          malpractice_detected?: boolean | null;
+          time_taken_seconds?: number;
+          score?: number;
+          total_marks?: number;
+          percentage?: number;
+          correct_count?: number;
+          wrong_count?: number;
+          needs_manual_review?: boolean;
+          status?: 'in_progress' | 'completed' | 'auto_submitted' | 'invalidated_by_retest';
+          retest_key_used?: string | null;
+          submission_key?: string | null;
+          draft_answers?: Json;
+          current_question_id?: string | null;
+          remaining_seconds?: number | null;
+          last_saved_at?: string | null;
+          started_at?: string | null;
+          deadline_at?: string | null;
+          submitted_late?: boolean;
+          section_time_used?: Json;
+          section_scores?: Json;
+          drawn_question_ids?: Json | null;
+          shuffle_seed?: number | null;
+          paper_snapshot?: Json | null;
+          submitted_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'submissions_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      answers: {
+        Row: {
+          id: string;
+          submission_id: string;
+          question_id: string;
+          student_answer: Json;
+          is_correct: boolean | null;
+          marks_awarded: number;
+          grader_comment: string | null;
+          graded_by: string | null;
+          graded_at: string | null;
+          rubric_scores: Json | null;
+          confidence: 'high' | 'low' | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          submission_id: string;
+          question_id: string;
+          student_answer?: Json;
+          is_correct?: boolean | null;
+          marks_awarded?: number;
+          grader_comment?: string | null;
+          graded_by?: string | null;
+          graded_at?: string | null;
+          rubric_scores?: Json | null;
+          confidence?: 'high' | 'low' | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          submission_id?: string;
+          question_id?: string;
+          student_answer?: Json;
+          is_correct?: boolean | null;
+          marks_awarded?: number;
+          grader_comment?: string | null;
+          graded_by?: string | null;
+          graded_at?: string | null;
+          rubric_scores?: Json | null;
+          confidence?: 'high' | 'low' | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'answers_submission_id_fkey';
+            columns: ['submission_id'];
+            isOneToOne: false;
+            referencedRelation: 'submissions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'answers_question_id_fkey';
+            columns: ['question_id'];
+            isOneToOne: false;
+            referencedRelation: 'questions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      slots: {
+        Row: {
+          id: string;
+          test_id: string;
+          slot_number: number;
+          start_time: string;
+          end_time: string;
+          duration_minutes: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          slot_number: number;
+          start_time: string;
+          end_time: string;
+          duration_minutes: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          slot_number?: number;
+          start_time?: string;
+          end_time?: string;
+          duration_minutes?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'slots_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      access_codes: {
+        Row: {
+          id: string;
+          slot_id: string;
+          code: string;
+          valid_until: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          slot_id: string;
+          code: string;
+          valid_until: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          slot_id?: string;
+          code?: string;
+          valid_until?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'access_codes_slot_id_fkey';
+            columns: ['slot_id'];
+            isOneToOne: false;
+            referencedRelation: 'slots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      retest_keys: {
+        Row: {
+          id: string;
+          test_id: string;
+          submission_id: string;
+          slot_number: number;
+          student_name: string;
+          key: string;
+          is_used: boolean;
+          expires_at: string;
+          used_by_submission_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          submission_id: string;
+          slot_number: number;
+          student_name: string;
+          key: string;
+          is_used?: boolean;
+          expires_at: string;
+          used_by_submission_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          submission_id?: string;
+          slot_number?: number;
+          student_name?: string;
+          key?: string;
+          is_used?: boolean;
+          expires_at?: string;
+          used_by_submission_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'retest_keys_submission_id_fkey';
+            columns: ['submission_id'];
+            isOneToOne: false;
+            referencedRelation: 'submissions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'retest_keys_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'retest_keys_used_by_submission_id_fkey';
+            columns: ['used_by_submission_id'];
+            isOneToOne: false;
+            referencedRelation: 'submissions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      regrade_audits: {
+        Row: {
+          id: string;
+          test_id: string;
+          question_id: string | null;
+          performed_by: string;
+          changes: Json;
+          submissions_affected: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          question_id?: string | null;
+          performed_by?: string;
+          changes?: Json;
+          submissions_affected?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          question_id?: string | null;
+          performed_by?: string;
+          changes?: Json;
+          submissions_affected?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'regrade_audits_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'regrade_audits_question_id_fkey';
+            columns: ['question_id'];
+            isOneToOne: false;
+            referencedRelation: 'questions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      test_sections: {
+        Row: {
+          id: string;
+          test_id: string;
+          title: string;
+          position: number;
+          duration_minutes: number | null;
+          lock_on_expiry: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          title: string;
+          position?: number;
+          duration_minutes?: number | null;
+          lock_on_expiry?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          title?: string;
+          position?: number;
+          duration_minutes?: number | null;
+          lock_on_expiry?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'test_sections_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      question_pools: {
+        Row: {
+          id: string;
+          test_id: string;
+          title: string;
+          draw_count: number;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          title: string;
+          draw_count: number;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          title?: string;
+          draw_count?: number;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'question_pools_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      question_groups: {
+        Row: {
+          id: string;
+          test_id: string;
+          title: string;
+          stimulus_text: string;
+          stimulus_image_url: string | null;
+          stimulus_table: Json;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_id: string;
+          title?: string;
+          stimulus_text?: string;
+          stimulus_image_url?: string | null;
+          stimulus_table?: Json;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_id?: string;
+          title?: string;
+          stimulus_text?: string;
+          stimulus_image_url?: string | null;
+          stimulus_table?: Json;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'question_groups_test_id_fkey';
+            columns: ['test_id'];
+            isOneToOne: false;
+            referencedRelation: 'tests';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      question_bank: {
+        Row: {
+          id: string;
+          subject: string;
+          class_level: string;
+          topic: string;
+          difficulty: 'easy' | 'medium' | 'hard';
+          question_type: 'mcq_single' | 'mcq_multiple' | 'fill_blank' | 'true_false' | 'numerical' | 'short_answer' | 'paragraph' | 'matching' | 'ordering';
+          question_text: string;
+          options: Json;
+          correct_answers: Json;
+          marks: number;
+          negative_marks: number | null;
+          is_case_sensitive: boolean;
+          scoring_mode: 'all_or_nothing' | 'proportional' | 'proportional_deduct' | 'partial_jee' | 'adjacency';
+          answer_config: Json;
+          image_url: string | null;
+          option_images: Json;
+          explanation: string | null;
+          rubric: Json | null;
+          shuffle_options: boolean;
+          pinned_options: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          subject?: string;
+          class_level?: string;
+          topic?: string;
+          difficulty?: 'easy' | 'medium' | 'hard';
+          question_type: 'mcq_single' | 'mcq_multiple' | 'fill_blank' | 'true_false' | 'numerical' | 'short_answer' | 'paragraph' | 'matching' | 'ordering';
+          question_text: string;
+          options?: Json;
+          correct_answers?: Json;
+          marks?: number;
+          negative_marks?: number | null;
+          is_case_sensitive?: boolean;
+          scoring_mode?: 'all_or_nothing' | 'proportional' | 'proportional_deduct' | 'partial_jee' | 'adjacency';
+          answer_config?: Json;
+          image_url?: string | null;
+          option_images?: Json;
+          explanation?: string | null;
+          rubric?: Json | null;
+          shuffle_options?: boolean;
+          pinned_options?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          subject?: string;
+          class_level?: string;
+          topic?: string;
+          difficulty?: 'easy' | 'medium' | 'hard';
+          question_type?: 'mcq_single' | 'mcq_multiple' | 'fill_blank' | 'true_false' | 'numerical' | 'short_answer' | 'paragraph' | 'matching' | 'ordering';
+          question_text?: string;
+          options?: Json;
+          correct_answers?: Json;
+          marks?: number;
+          negative_marks?: number | null;
+          is_case_sensitive?: boolean;
+          scoring_mode?: 'all_or_nothing' | 'proportional' | 'proportional_deduct' | 'partial_jee' | 'adjacency';
+          answer_config?: Json;
+          image_url?: string | null;
+          option_images?: Json;
+          explanation?: string | null;
+          rubric?: Json | null;
+          shuffle_options?: boolean;
+          pinned_options?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      question_bank_usage: {
+        Row: {
+          bank_question_id: string;
+          test_count: number;
+          answer_count: number;
+          correct_count: number;
+          average_marks: number;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      get_test_questions: {
+        Args: { p_test_id: string; p_submission_key?: string | null };
+        Returns: {
+          id: string;
+          test_id: string;
+          question_number: number;
+          question_type: Database['public']['Tables']['questions']['Row']['question_type'];
+          question_text: string;
+          options: Json;
+          marks: number;
+          negative_marks: number | null;
+          scoring_mode: Database['public']['Tables']['questions']['Row']['scoring_mode'];
+          answer_config: Json;
+          image_url: string | null;
+          option_images: Json;
+          section_id: string | null;
+          keep_position: boolean;
+          shuffle_options: boolean;
+          pinned_options: Json;
+          group_id: string | null;
+        }[];
+      };
+      start_attempt: {
+        Args: {
+          p_test_id: string;
+          p_access_code: string;
+          p_student_name: string;
+          p_father_name: string;
+          p_class_applying_for: string;
+          p_student_code: string;
+          p_submission_key: string;
+          p_retest_key_id?: string | null;
+        };
+        Returns: {
+          submission_key: string;
+          student_code: string;
+          slot_number: number;
+          draft_answers: Json;
+          current_question_id: string | null;
+          tab_switch_count: number;
+          remaining_seconds: number | null;
+          section_time_used: Json;
+          shuffle_seed: number | null;
+          resumed: boolean;
+        }[];
+      };
+      save_attempt: {
+        Args: {
+          p_submission_key: string;
+          p_draft_answers: Json;
+          p_current_question_id: string | null;
+          p_tab_switch_count: number;
+          p_section_time_used?: Json | null;
+        };
+        Returns: number | null;
+      };
+      get_submission_review: {
+        Args: { p_submission_key: string };
+        Returns: {
+          answer_key_released: boolean;
+          // Until the key is released, the questions come without correct_answers, answer_config, rubric and explanation
+          answers: (Database['public']['Tables']['answers']['Row'] & {
+            questions: Database['public']['Tables']['questions']['Row'] | null;
+          })[];
+        };
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+}
@@ -0,0 +1,380 @@
+// Runs in the edge functions (Deno) and, through src/lib, in the browser, so local imports keep their extension
+import type { Database } from './database.types.ts';
+import { parseNumericAnswer } from './numericAnswer.ts';
+import { containsTerm, countBlanks, matchesTextAnswer, type TextMatchOptions } from './textAnswer.ts';
+
+type Question = Database['public']['Tables']['questions']['Row'];
+
+export interface Evaluation {
+  isCorrect: boolean | null;
+  marksAwarded: number;
+  // Set for keyword-scored short answers; 'low' keeps the answer in manual review
+  confidence?: 'high' | 'low';
+}
+
+/** A keyword together with its synonyms; any one of the terms counts as a match. */
+export interface KeywordRule {
+  terms: string[];
+  required: boolean;
+}
+
+/** Type-specific matching rules stored in `questions.answer_config`. */
+export interface AnswerConfig {
+  // numerical
+  absolute_tolerance?: number;
+  relative_tolerance?: number;
+  min_value?: number;
+  max_value?: number;
+  units?: string[];
+  require_unit?: boolean;
+  // fill_blank
+  normalize_whitespace?: boolean;
+  ignore_punctuation?: boolean;
+  max_edit_distance?: number;
+  patterns?: string[];
+  // short_answer
+  keywords?: KeywordRule[];
+  keyword_threshold?: number;
+}
+
+export function getAnswerConfig(question: Pick<Question, 'answer_config'>): AnswerConfig {
+  const config = question.answer_config;
+  return config && typeof config === 'object' && !Array.isArray(config) ? (config as AnswerConfig) : {};
+}
+
+export function getTextMatchOptions(question: Pick<Question, 'answer_config' | 'is_case_sensitive'>): TextMatchOptions {
+  const config = getAnswerConfig(question);
+  return {
+    caseSensitive: question.is_case_sensitive,
+    normalizeWhitespace: config.normalize_whitespace,
+    ignorePunctuation: config.ignore_punctuation,
+    maxEditDistance: config.max_edit_distance,
+    patterns: config.patterns,
+  };
+}
+
+/** Fill-in questions whose text has two or more blank markers are answered inline, one input per blank. */
+export function isMultiBlankQuestion(question: Pick<Question, 'question_type' | 'question_text'>): boolean {
+  return question.question_type === 'fill_blank' && countBlanks(question.question_text) >= 2;
+}
+
+/**
+ * Accepted answers for each blank of a multi-blank `fill_blank` question, or
+ * null for the classic single-blank variant. Multi-blank keys are stored in
+ * `correct_answers` as one list of accepted answers per blank.
+ */
+export function getBlankAnswers(question: Pick<Question, 'question_type' | 'question_text' | 'correct_answers'>): string[][] | null {
+  const correctAnswers = question.correct_answers;
+  if (question.question_type !== 'fill_blank' || !Array.isArray(correctAnswers)) return null;
+  if (!correctAnswers.some((answers) => Array.isArray(answers))) return null;
+
+  const blankCount = Math.max(countBlanks(question.question_text), correctAnswers.length);
+  return Array.from({ length: blankCount }, (_, i) => {
+    const answers = correctAnswers[i];
+    return (Array.isArray(answers) ? answers : answers ? [answers] : []).map(String);
+  });
+}
+
+export interface MatchingColumns {
+  left: string[];
+  right: string[];
+}
+
+/** Column items of a `matching` question; `options` holds `{ left, right }`. */
+export function getMatchingColumns(question: Pick<Question, 'options'>): MatchingColumns {
+  const options = question.options as Partial<MatchingColumns> | null;
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return { left: [], right: [] };
+  }
+  return {
+    left: Array.isArray(options.left) ? options.left.map(String) : [],
+    right: Array.isArray(options.right) ? options.right.map(String) : [],
+  };
+}
+
+export function roundMarks(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isAnswered(studentAnswer: unknown): boolean {
+  if (studentAnswer === undefined || studentAnswer === null) return false;
+  if (Array.isArray(studentAnswer)) return studentAnswer.some(isAnswered);
+  return String(studentAnswer).trim() !== '';
+}
+
+/**
+ * Penalty for a wrong answer. A question-level value overrides the test default;
+ * NULL on the question means "use the test setting".
+ */
+export function getNegativeMarks(question: Question, defaultNegativeMarks = 0): number {
+  const penalty = question.negative_marks ?? defaultNegativeMarks;
+  return Math.abs(Number(penalty) || 0);
+}
+
+export function evaluateAnswer(
+  question: Question,
+  studentAnswer: unknown,
+  defaultNegativeMarks = 0
+): Evaluation {
+  const evaluation = scoreAnswer(question, studentAnswer);
+
+  // Unanswered questions are never penalised, only attempted wrong answers.
+  // Partially correct answers keep their partial marks, and keyword-scored
+  // short answers are a heuristic, so they are not penalised either.
+  if (evaluation.isCorrect === false && evaluation.marksAwarded <= 0 && isAnswered(studentAnswer) && !evaluation.confidence) {
+    return {
+      isCorrect: false,
+      marksAwarded: roundMarks(evaluation.marksAwarded - getNegativeMarks(question, defaultNegativeMarks)),
+    };
+  }
+
+  return evaluation;
+}
+
+export function isPartiallyCorrect(isCorrect: boolean | null, marksAwarded: number): boolean {
+  return isCorrect === false && marksAwarded > 0;
+}
+
+function scoreMultipleChoice(question: Question, studentAnswer: string[], correctAnswers: string[]): Evaluation {
+  const correctSet = new Set(correctAnswers);
+  const selected = Array.from(new Set(studentAnswer));
+  const correctPicks = selected.filter((option) => correctSet.has(option)).length;
+  const wrongPicks = selected.length - correctPicks;
+
+  if (wrongPicks === 0 && correctPicks === correctSet.size) {
+    return { isCorrect: true, marksAwarded: question.marks };
+  }
+
+  const share = correctSet.size > 0 ? question.marks / correctSet.size : 0;
+  let marksAwarded = 0;
+
+  switch (question.scoring_mode) {
+    case 'proportional':
+      marksAwarded = correctPicks * share;
+      break;
+    case 'proportional_deduct':
+      marksAwarded = Math.max(0, (correctPicks - wrongPicks) * share);
+      break;
+    case 'partial_jee':
+      // Any wrong pick voids the answer; otherwise credit each correct option picked.
+      marksAwarded = wrongPicks > 0 ? 0 : correctPicks * share;
+      break;
+    default:
+      marksAwarded = 0;
+  }
+
+  return { isCorrect: false, marksAwarded: roundMarks(marksAwarded) };
+}
+
+function scoreMultiBlank(question: Question, studentAnswer: unknown, blankAnswers: string[][]): Evaluation {
+  const responses = Array.isArray(studentAnswer) ? studentAnswer : [];
+  // Question-level patterns describe a single answer, so they do not apply per blank
+  const options = { ...getTextMatchOptions(question), patterns: undefined };
+  const matched = blankAnswers.filter((accepted, i) => matchesTextAnswer(responses[i], accepted, options)).length;
+
+  if (blankAnswers.length > 0 && matched === blankAnswers.length) {
+    return { isCorrect: true, marksAwarded: question.marks };
+  }
+  return {
+    isCorrect: false,
+    marksAwarded: blankAnswers.length > 0 ? roundMarks((question.marks * matched) / blankAnswers.length) : 0,
+  };
+}
+
+function scoreMatching(question: Question, studentAnswer: unknown, correctAnswers: unknown[]): Evaluation {
+  const responses = Array.isArray(studentAnswer) ? studentAnswer : [];
+  const pairCount = correctAnswers.length;
+  const matched = correctAnswers.filter((right, i) => responses[i] !== undefined && responses[i] === right).length;
+
+  if (pairCount > 0 && matched === pairCount) {
+    return { isCorrect: true, marksAwarded: question.marks };
+  }
+  return {
+    isCorrect: false,
+    marksAwarded: pairCount > 0 ? roundMarks((question.marks * matched) / pairCount) : 0,
+  };
+}
+
+function scoreOrdering(question: Question, studentAnswer: unknown, correctOrder: unknown[]): Evaluation {
+  const response = Array.isArray(studentAnswer) ? studentAnswer : [];
+  const isExact = correctOrder.length > 0
+    && response.length === correctOrder.length
+    && response.every((item, i) => item === correctOrder[i]);
+
+  if (isExact) {
+    return { isCorrect: true, marksAwarded: question.marks };
+  }
+  if (question.scoring_mode !== 'adjacency' || correctOrder.length < 2) {
+    return { isCorrect: false, marksAwarded: 0 };
+  }
+
+  // One credit for every item immediately followed by its correct successor
+  const links = correctOrder.length - 1;
+  let correctLinks = 0;
+  for (let i = 0; i < response.length - 1; i++) {
+    const position = correctOrder.indexOf(response[i]);
+    if (position !== -1 && correctOrder[position + 1] === response[i + 1]) {
+      correctLinks++;
+    }
+  }
+
+  return { isCorrect: false, marksAwarded: roundMarks((question.marks * correctLinks) / links) };
+}
+
+/**
+ * Provisional score for a short answer from the author's keywords. Answers
+ * that hit every required keyword and at least `keyword_threshold` percent of
+ * all keywords get full marks, answers that hit none get zero; anything in
+ * between keeps a proportional provisional score and goes to manual review.
+ */
+function scoreKeywords(question: Question, studentAnswer: unknown, rules: KeywordRule[]): Evaluation {
+  if (!isAnswered(studentAnswer)) {
+    return { isCorrect: false, marksAwarded: 0, confidence: 'high' };
+  }
+
+  const config = getAnswerConfig(question);
+  const options = getTextMatchOptions(question);
+  const matched = rules.map((rule) => rule.terms.some((term) => containsTerm(studentAnswer, term, options)));
+  const matchedCount = matched.filter(Boolean).length;
+  const hasAllRequired = rules.every((rule, i) => !rule.required || matched[i]);
+  const threshold = Math.min(Math.max(Number(config.keyword_threshold ?? 100), 0), 100);
+
+  if (hasAllRequired && (matchedCount / rules.length) * 100 >= threshold) {
+    return { isCorrect: true, marksAwarded: question.marks, confidence: 'high' };
+  }
+  if (matchedCount === 0) {
+    return { isCorrect: false, marksAwarded: 0, confidence: 'high' };
+  }
+
+  return {
+    isCorrect: null,
+    marksAwarded: roundMarks((question.marks * matchedCount) / rules.length),
+    confidence: 'low',
+  };
+}
+
+export function getKeywordRules(question: Pick<Question, 'answer_config'>): KeywordRule[] {
+  return (getAnswerConfig(question).keywords || [])
+    .map((rule) => ({ ...rule, terms: (rule.terms || []).filter((term) => term && term.trim()) }))
+    .filter((rule) => rule.terms.length > 0);
+}
+
+function isNumericalMatch(question: Question, studentAnswer: unknown, correctAnswer: unknown): boolean {
+  const config = getAnswerConfig(question);
+  const units = config.units || [];
+  const student = parseNumericAnswer(studentAnswer, units);
+
+  if (student.value === null) return false;
+  if (config.require_unit && units.length > 0 && !student.unit) return false;
+
+  const hasMin = typeof config.min_value === 'number';
+  const hasMax = typeof config.max_value === 'number';
+  if (hasMin || hasMax) {
+    const aboveMin = !hasMin || student.value >= (config.min_value as number);
+    const belowMax = !hasMax || student.value <= (config.max_value as number);
+    if (aboveMin && belowMax) return true;
+  }
+
+  const correct = parseNumericAnswer(correctAnswer, units).value;
+  if (correct === null) return false;
+
+  const tolerance = Math.max(
+    Math.abs(Number(config.absolute_tolerance) || 0),
+    Math.abs(correct) * (Math.abs(Number(config.relative_tolerance) || 0) / 100)
+  );
+  // Small epsilon absorbs floating point noise such as 0.1 + 0.2
+  return Math.abs(student.value - correct) <= tolerance + 1e-9;
+}
+
+function scoreAnswer(question: Question, studentAnswer: any): Evaluation {
+  const correctAnswers = question.correct_answers as any;
+
+  switch (question.question_type) {
+    case 'mcq_single':
+      const isCorrectSingle = studentAnswer === correctAnswers[0];
+      return {
+        isCorrect: isCorrectSingle,
+        marksAwarded: isCorrectSingle ? question.marks : 0,
+      };
+
+    case 'mcq_multiple':
+      if (!Array.isArray(studentAnswer) || !Array.isArray(correctAnswers)) {
+        return { isCorrect: false, marksAwarded: 0 };
+      }
+      return scoreMultipleChoice(question, studentAnswer, correctAnswers);
+
+    case 'fill_blank': {
+      const blankAnswers = getBlankAnswers(question);
+      if (blankAnswers) {
+        return scoreMultiBlank(question, studentAnswer, blankAnswers);
+      }
+      const acceptedFill = Array.isArray(correctAnswers) ? correctAnswers : [correctAnswers];
+      const isCorrectFill = matchesTextAnswer(studentAnswer, acceptedFill, getTextMatchOptions(question));
+
+      return {
+        isCorrect: isCorrectFill,
+        marksAwarded: isCorrectFill ? question.marks : 0,
+      };
+    }
+
+    case 'true_false':
+      const isCorrectTF = studentAnswer === correctAnswers[0];
+      return {
+        isCorrect: isCorrectTF,
+        marksAwarded: isCorrectTF ? question.marks : 0,
+      };
+
+    case 'numerical':
+      const isCorrectNum = isNumericalMatch(question, studentAnswer, correctAnswers[0]);
+      return {
+        isCorrect: isCorrectNum,
+        marksAwarded: isCorrectNum ? question.marks : 0,
+      };
+
+    case 'matching':
+      return scoreMatching(question, studentAnswer, Array.isArray(correctAnswers) ? correctAnswers : []);
+
+    case 'ordering':
+      return scoreOrdering(question, studentAnswer, Array.isArray(correctAnswers) ? correctAnswers : []);
+
+    case 'short_answer': {
+      const rules = getKeywordRules(question);
+      if (rules.length > 0) {
+        return scoreKeywords(question, studentAnswer, rules);
+      }
+      return { isCorrect: null, marksAwarded: 0 };
+    }
+
+    case 'paragraph':
+      return {
+        isCorrect: null,
+        marksAwarded: 0,
+      };
+
+    default:
+      return { isCorrect: false, marksAwarded: 0 };
+  }
+}
+
+export function calculateResults(evaluations: Evaluation[]) {
+  let score = 0;
+  let correctCount = 0;
+  let wrongCount = 0;
+  let needsManualReview = false;
+
+  evaluations.forEach((evaluation) => {
+    score += evaluation.marksAwarded;
+
+    if (evaluation.isCorrect === true) {
+      correctCount++;
+    } else if (isPartiallyCorrect(evaluation.isCorrect, evaluation.marksAwarded)) {
+      // Partial credit is neither a correct nor a wrong answer.
+    } else if (evaluation.isCorrect === false) {
+      wrongCount++;
+    } else {
+      needsManualReview = true;
+    }
+  });
+
+  return { score: roundMarks(score), correctCount, wrongCount, needsManualReview };
+}
@@ -0,0 +1,73 @@
+export interface ParsedNumber {
+  value: number | null;
+  unit: string | null;
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+function parsePlainNumber(text: string): number | null {
+  const cleaned = text.replace(/,/g, '').replace(/\s+/g, '');
+  if (!NUMBER_PATTERN.test(cleaned)) return null;
+  const value = Number(cleaned);
+  return isFinite(value) ? value : null;
+}
+
+function parseNumberText(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  // Scientific notation written by hand: 1.5 x 10^3, 1.5×10^-3, 1.5*10^3
+  const sciMatch = trimmed.match(/^(.+?)\s*[x×*]\s*10\s*\^\s*([-+]?\d+)$/i);
+  if (sciMatch) {
+    const mantissa = parsePlainNumber(sciMatch[1]);
+    return mantissa === null ? null : mantissa * Math.pow(10, Number(sciMatch[2]));
+  }
+
+  // Mixed fraction: 2 1/2, -3 3/4
+  const mixedMatch = trimmed.match(/^([-+]?)(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixedMatch) {
+    const [, sign, whole, numerator, denominator] = mixedMatch;
+    if (Number(denominator) === 0) return null;
+    const value = Number(whole) + Number(numerator) / Number(denominator);
+    return sign === '-' ? -value : value;
+  }
+
+  // Simple fraction: 1/2, -3/4, 0.5/2
+  const fractionMatch = trimmed.match(/^(.+?)\s*\/\s*(.+)$/);
+  if (fractionMatch) {
+    const numerator = parsePlainNumber(fractionMatch[1]);
+    const denominator = parsePlainNumber(fractionMatch[2]);
+    if (numerator === null || denominator === null || denominator === 0) return null;
+    return numerator / denominator;
+  }
+
+  return parsePlainNumber(trimmed);
+}
+
+/**
+ * Parses a typed numeric answer. Accepts plain decimals, thousands separators,
+ * fractions, mixed fractions and scientific notation, optionally followed by
+ * one of the accepted unit suffixes (matched case-insensitively).
+ */
+export function parseNumericAnswer(input: unknown, units: string[] = []): ParsedNumber {
+  if (input === undefined || input === null) return { value: null, unit: null };
+  if (typeof input === 'number') return { value: isFinite(input) ? input : null, unit: null };
+
+  const text = String(input).trim();
+  const lower = text.toLowerCase();
+
+  // Longest unit first so "km" is not mistaken for "m"
+  const sortedUnits = units
+    .map((unit) => unit.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+
+  for (const unit of sortedUnits) {
+    if (lower.endsWith(unit.toLowerCase())) {
+      const value = parseNumberText(text.slice(0, text.length - unit.length));
+      if (value !== null) return { value, unit };
+    }
+  }
+
+  return { value: parseNumberText(text), unit: null };
+}
@@ -0,0 +1,92 @@
+// Runs in the edge functions (Deno) and, through src/lib, in the browser, so local imports keep their extension
+import type { Database } from './database.types.ts';
+
+export type QuestionPool = Database['public']['Tables']['question_pools']['Row'];
+
+interface PooledQuestion {
+  id: string;
+  question_number?: number;
+  pool_id?: string | null;
+  marks: number;
+}
+
+export function sortPools<T extends Pick<QuestionPool, 'position'>>(pools: T[]): T[] {
+  return [...pools].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * How many questions of each mark value a pool draws: in proportion to how
+ * many it has of that value, leftovers going to the largest remainders and
+ * then the lower mark value. Every attempt gets the same quotas, so every
+ * paper is worth the same. Mirrors `draw_question_set` in the database.
+ */
+export function getPoolQuotas(drawCount: number, questions: Pick<PooledQuestion, 'marks'>[]): Map<number, number> {
+  const size = questions.length;
+  const draw = Math.min(Math.max(drawCount, 0), size);
+  const counts = new Map<number, number>();
+  questions.forEach((q) => counts.set(Number(q.marks) || 0, (counts.get(Number(q.marks) || 0) || 0) + 1));
+
+  const groups = Array.from(counts, ([marks, n]) => ({
+    marks,
+    base: Math.floor((draw * n) / size),
+    remainder: (draw * n) % size,
+  }));
+  const leftover = draw - groups.reduce((sum, group) => sum + group.base, 0);
+  const extra = new Set(
+    [...groups].sort((a, b) => b.remainder - a.remainder || a.marks - b.marks).slice(0, leftover).map((group) => group.marks)
+  );
+
+  return new Map(groups.map((group) => [group.marks, group.base + (extra.has(group.marks) ? 1 : 0)]));
+}
+
+/** Marks of one paper: every question outside a pool plus each pool's balanced draw. */
+export function getPaperTotalMarks(
+  pools: Pick<QuestionPool, 'id' | 'draw_count'>[],
+  questions: Pick<PooledQuestion, 'pool_id' | 'marks'>[]
+): number {
+  const poolIds = new Set(pools.map((pool) => pool.id));
+  const fixed = questions
+    .filter((q) => !q.pool_id || !poolIds.has(q.pool_id))
+    .reduce((sum, q) => sum + (Number(q.marks) || 0), 0);
+  return pools.reduce((sum, pool) => {
+    const quotas = getPoolQuotas(pool.draw_count, questions.filter((q) => q.pool_id === pool.id));
+    return sum + Array.from(quotas).reduce((poolSum, [marks, count]) => poolSum + marks * count, 0);
+  }, fixed);
+}
+
+export function getDrawnQuestionIds(submission: { drawn_question_ids?: unknown } | null | undefined): string[] | null {
+  return Array.isArray(submission?.drawn_question_ids) ? (submission.drawn_question_ids as string[]) : null;
+}
+
+/** The questions on a student's paper; all of them when the submission has no drawn set. */
+export function getDrawnQuestions<T extends { id: string }>(questions: T[], drawnIds: string[] | null): T[] {
+  if (!drawnIds) return questions;
+  const drawn = new Set(drawnIds);
+  return questions.filter((q) => drawn.has(q.id));
+}
+
+export interface PoolDraw {
+  pool_id: string;
+  title: string;
+  question_numbers: number[];
+  marks: number;
+}
+
+/** Which questions of each pool ended up on a student's paper, in pool order. */
+export function getPaperComposition(
+  pools: Pick<QuestionPool, 'id' | 'title' | 'position'>[],
+  questions: PooledQuestion[],
+  drawnIds: string[] | null
+): PoolDraw[] {
+  if (!drawnIds) return [];
+  const drawn = getDrawnQuestions(questions, drawnIds);
+  return sortPools(pools).map((pool) => {
+    const poolQuestions = drawn.filter((q) => q.pool_id === pool.id);
+    return {
+      pool_id: pool.id,
+      title: pool.title,
+      question_numbers: poolQuestions.map((q) => q.question_number ?? 0).sort((a, b) => a - b),
+      marks: poolQuestions.reduce((sum, q) => sum + (Number(q.marks) || 0), 0),
+    };
+  });
+}
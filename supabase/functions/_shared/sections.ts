@@ -0,0 +1,59 @@
+// Runs in the edge functions (Deno) and, through src/lib, in the browser, so local imports keep their extension
+import type { Database } from './database.types.ts';
+import { roundMarks } from './evaluation.ts';
+
+export type TestSection = Database['public']['Tables']['test_sections']['Row'];
+
+/** One entry per section, stored in `submissions.section_scores`. */
+export interface SectionScore {
+  section_id: string;
+  // Title when the scores were computed, so reports do not need to look the section up
+  title: string;
+  score: number;
+  total_marks: number;
+}
+
+interface SectionedQuestion {
+  id: string;
+  section_id?: string | null;
+  marks: number;
+}
+
+export function sortSections<T extends Pick<TestSection, 'position'>>(sections: T[]): T[] {
+  return [...sections].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Sums the marks awarded per section. Questions outside any section count only
+ * towards the overall score.
+ */
+export function calculateSectionScores(
+  sections: Pick<TestSection, 'id' | 'title' | 'position'>[],
+  questions: SectionedQuestion[],
+  marksAwarded: Record<string, number>
+): SectionScore[] {
+  return sortSections(sections).map((section) => {
+    const sectionQuestions = questions.filter((q) => q.section_id === section.id);
+    return {
+      section_id: section.id,
+      title: section.title,
+      score: roundMarks(sectionQuestions.reduce((sum, q) => sum + (Number(marksAwarded[q.id]) || 0), 0)),
+      total_marks: sectionQuestions.reduce((sum, q) => sum + (Number(q.marks) || 0), 0),
+    };
+  });
+}
+
+export function getSectionScores(submission: { section_scores?: unknown } | null | undefined): SectionScore[] {
+  return Array.isArray(submission?.section_scores) ? (submission.section_scores as SectionScore[]) : [];
+}
+
+/** Seconds left in a timed section, or null for an untimed one. */
+export function getSectionTimeLeft(section: Pick<TestSection, 'duration_minutes'>, secondsUsed: number): number | null {
+  if (!section.duration_minutes) return null;
+  return Math.max(0, Math.ceil(section.duration_minutes * 60 - secondsUsed));
+}
+
+/** Whether a section that locks on expiry has used up its time, after which its answers cannot change. */
+export function isSectionTimeLocked(section: Pick<TestSection, 'duration_minutes' | 'lock_on_expiry'>, secondsUsed: number): boolean {
+  return section.lock_on_expiry && getSectionTimeLeft(section, secondsUsed) === 0;
+}
@@ -0,0 +1,57 @@
+// Runs in the edge functions (Deno) and, through src/lib, in the browser, so local imports keep their extension
+import type { Database } from './database.types.ts';
+import { calculateResults, roundMarks, type Evaluation } from './evaluation.ts';
+import { getDrawnQuestionIds, getDrawnQuestions } from './pools.ts';
+import { calculateSectionScores, type SectionScore, type TestSection } from './sections.ts';
+
+type Submission = Database['public']['Tables']['submissions']['Row'];
+type Answer = Database['public']['Tables']['answers']['Row'];
+type Question = Database['public']['Tables']['questions']['Row'];
+
+/** The columns of `submissions` that follow from its answers. */
+export interface SubmissionResults {
+  score: number;
+  percentage: number;
+  correct_count: number;
+  wrong_count: number;
+  needs_manual_review: boolean;
+  section_scores: SectionScore[];
+}
+
+/**
+ * Full marks count as correct; anything less is stored as `is_correct = false`,
+ * which reads as partially correct when some marks were awarded.
+ */
+export function toGradedEvaluation(marks: number, maxMarks: number): Evaluation {
+  const awarded = roundMarks(Math.min(Math.max(Number(marks) || 0, 0), maxMarks));
+  return { isCorrect: awarded >= maxMarks, marksAwarded: awarded };
+}
+
+/** Re-derives score, percentage, counts and section scores of a submission from its answers. */
+export function calculateSubmissionResults(
+  submission: Pick<Submission, 'total_marks' | 'drawn_question_ids'>,
+  answers: Pick<Answer, 'question_id' | 'is_correct' | 'marks_awarded'>[],
+  sections: Pick<TestSection, 'id' | 'title' | 'position'>[],
+  questions: Pick<Question, 'id' | 'section_id' | 'marks'>[]
+): SubmissionResults {
+  const evaluations: Evaluation[] = answers.map((answer) => ({
+    isCorrect: answer.is_correct,
+    marksAwarded: Number(answer.marks_awarded) || 0,
+  }));
+  const { score, correctCount, wrongCount, needsManualReview } = calculateResults(evaluations);
+  const totalMarks = Number(submission.total_marks) || 0;
+
+  return {
+    score,
+    percentage: totalMarks > 0 ? roundMarks((score / totalMarks) * 100) : 0,
+    correct_count: correctCount,
+    wrong_count: wrongCount,
+    needs_manual_review: needsManualReview,
+    section_scores: calculateSectionScores(
+      sections,
+      // Section totals count only the questions on this student's paper
+      getDrawnQuestions(questions, getDrawnQuestionIds(submission)),
+      Object.fromEntries(answers.map((answer) => [answer.question_id, Number(answer.marks_awarded) || 0]))
+    ),
+  };
+}
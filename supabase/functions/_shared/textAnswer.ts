@@ -0,0 +1,111 @@
+export interface TextMatchOptions {
+  caseSensitive?: boolean;
+  normalizeWhitespace?: boolean;
+  ignorePunctuation?: boolean;
+  maxEditDistance?: number;
+  patterns?: string[];
+}
+
+export function normalizeText(value: unknown, options: TextMatchOptions = {}): string {
+  let text = value === undefined || value === null ? '' : String(value);
+
+  if (options.ignorePunctuation) {
+    text = text.replace(/[\p{P}\p{S}]/gu, ' ');
+  }
+  if (options.normalizeWhitespace || options.ignorePunctuation) {
+    text = text.replace(/\s+/g, ' ');
+  }
+  text = text.trim();
+
+  return options.caseSensitive ? text : text.toLowerCase();
+}
+
+/** Levenshtein distance between two strings (insert, delete, substitute). */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function matchesPattern(studentAnswer: string, pattern: string, caseSensitive?: boolean): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`, caseSensitive ? 'u' : 'iu').test(studentAnswer.trim());
+  } catch {
+    // Malformed author patterns are ignored rather than failing the whole evaluation
+    return false;
+  }
+}
+
+/**
+ * Checks a typed answer against a list of accepted answers and optional
+ * regular-expression patterns. Spelling tolerance only applies to literal
+ * answers longer than the allowed distance, so "a" never matches "b".
+ */
+export function matchesTextAnswer(
+  studentAnswer: unknown,
+  acceptedAnswers: unknown[],
+  options: TextMatchOptions = {}
+): boolean {
+  if (studentAnswer === undefined || studentAnswer === null) return false;
+
+  const student = normalizeText(studentAnswer, options);
+  if (!student) return false;
+
+  const maxDistance = Math.max(0, Math.floor(Number(options.maxEditDistance) || 0));
+
+  const literalMatch = acceptedAnswers.some((accepted) => {
+    const expected = normalizeText(accepted, options);
+    if (!expected) return false;
+    if (student === expected) return true;
+    return maxDistance > 0 && expected.length > maxDistance && editDistance(student, expected) <= maxDistance;
+  });
+  if (literalMatch) return true;
+
+  return (options.patterns || [])
+    .filter((pattern) => pattern && pattern.trim())
+    .some((pattern) => matchesPattern(String(studentAnswer), pattern, options.caseSensitive));
+}
+
+/**
+ * Whether a keyword or phrase appears as whole words in a free-text answer.
+ * Spelling tolerance is applied word by word, again only to words longer than
+ * the allowed distance.
+ */
+export function containsTerm(answer: unknown, term: string, options: TextMatchOptions = {}): boolean {
+  const wordOptions = { ...options, ignorePunctuation: true };
+  const words = normalizeText(answer, wordOptions).split(' ').filter(Boolean);
+  const termWords = normalizeText(term, wordOptions).split(' ').filter(Boolean);
+  if (termWords.length === 0 || termWords.length > words.length) return false;
+
+  const maxDistance = Math.max(0, Math.floor(Number(options.maxEditDistance) || 0));
+  const wordMatches = (word: string, expected: string) =>
+    word === expected || (maxDistance > 0 && expected.length > maxDistance && editDistance(word, expected) <= maxDistance);
+
+  for (let start = 0; start + termWords.length <= words.length; start++) {
+    if (termWords.every((expected, i) => wordMatches(words[start + i], expected))) return true;
+  }
+  return false;
+}
+
+/** Three or more underscores in question text mark an inline blank. */
+export const BLANK_MARKER = /_{3,}/g;
+
+export function countBlanks(text: string): number {
+  return (text.match(BLANK_MARKER) || []).length;
+}
+
+/** Splits question text around blank markers; N blanks give N + 1 segments. */
+export function splitOnBlanks(text: string): string[] {
+  return text.split(BLANK_MARKER);
+}
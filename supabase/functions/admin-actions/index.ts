@@ -0,0 +1,321 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { calculateSubmissionResults, toGradedEvaluation } from '../_shared/submissionResults.ts';
+
+/**
+ * Admin reads of answer keys and the re-grade history, which the anon key
+ * cannot select, and admin writes to questions, the question bank,
+ * submissions and answers, which it can only read. They run here with the
+ * service role key once the admin password (the `ADMIN_PASSWORD` secret) has
+ * been checked. Grades are written together with the recomputed results and
+ * any audit entry in one transaction by the `apply_answer_grades` database
+ * function.
+ */
+
+interface AdminActionRequest {
+  action: string;
+  password: string;
+  [key: string]: unknown;
+}
+
+// The parts of a `RegradePreview` (src/lib/regrade.ts) needed to apply it
+interface RegradePreview {
+  testId: string;
+  questionId: string | null;
+  changes: {
+    submissionId: string;
+    answers: { answerId: string; newIsCorrect: boolean | null; newMarks: number; newConfidence: 'high' | 'low' | null }[];
+  }[];
+}
+
+// The columns of one answer to change, written through apply_answer_grades
+interface AnswerPatch {
+  id: string;
+  is_correct: boolean | null;
+  marks_awarded: number;
+  [column: string]: unknown;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+class ActionError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Re-derives the results of the given submissions of a test with the answer
+ * patches applied, and writes both (and the audit entry, if any) in one
+ * transaction.
+ */
+async function writeGrades(
+  supabase: SupabaseClient,
+  testId: string,
+  submissionIds: string[],
+  patches: AnswerPatch[],
+  audit: Record<string, unknown> | null = null
+) {
+  const { data: testSubmissions, error: submissionsError } = await supabase
+    .from('submissions')
+    .select('id, total_marks, drawn_question_ids')
+    .eq('test_id', testId);
+  if (submissionsError) throw submissionsError;
+  const wanted = new Set(submissionIds);
+  const submissions = (testSubmissions || []).filter((s) => wanted.has(s.id));
+  if (submissions.length !== wanted.size) throw new ActionError('Submission not found for this test', 404);
+
+  const answers: { id: string; submission_id: string; question_id: string; is_correct: boolean | null; marks_awarded: number }[] = [];
+  // Fetch answers in batches to keep the request URL short
+  for (let i = 0; i < submissions.length; i += 100) {
+    const { data, error } = await supabase
+      .from('answers')
+      .select('id, submission_id, question_id, is_correct, marks_awarded')
+      .in('submission_id', submissions.slice(i, i + 100).map((s) => s.id));
+    if (error) throw error;
+    answers.push(...(data || []));
+  }
+
+  const { data: sections, error: sectionsError } = await supabase
+    .from('test_sections')
+    .select('id, title, position')
+    .eq('test_id', testId);
+  if (sectionsError) throw sectionsError;
+
+  const { data: questions, error: questionsError } = await supabase
+    .from('questions')
+    .select('id, section_id, marks')
+    .eq('test_id', testId);
+  if (questionsError) throw questionsError;
+
+  const patchesById = new Map(patches.map((patch) => [patch.id, patch]));
+  const answerIds = new Set(answers.map((answer) => answer.id));
+  if (patches.some((patch) => !answerIds.has(patch.id))) {
+    throw new ActionError('Answer not found for this submission', 404);
+  }
+  const patchedAnswers = answers.map((answer) => ({ ...answer, ...patchesById.get(answer.id) }));
+
+  const results = submissions.map((submission) => ({
+    id: submission.id,
+    ...calculateSubmissionResults(
+      submission,
+      patchedAnswers.filter((answer) => answer.submission_id === submission.id),
+      sections || [],
+      questions || []
+    ),
+  }));
+
+  const { error } = await supabase.rpc('apply_answer_grades', {
+    p_answers: patches,
+    p_results: results,
+    p_audit: audit,
+  });
+  if (error) throw error;
+
+  return results;
+}
+
+// Full rows, answer keys included; the anon key cannot read those columns
+async function getTestQuestions(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (typeof body.test_id !== 'string') throw new ActionError('Missing test');
+
+  const { data, error } = await supabase
+    .from('questions')
+    .select('*')
+    .eq('test_id', body.test_id)
+    .order('question_number', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+async function getQuestionBank(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('question_bank')
+    .select('*')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+// A student's paper with the answer key, whatever the state of the test window
+async function getSubmissionReview(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (typeof body.submission_id !== 'string') throw new ActionError('Missing submission');
+
+  const { data, error } = await supabase
+    .from('answers')
+    .select('*, questions(*)')
+    .eq('submission_id', body.submission_id);
+  if (error) throw error;
+  return data || [];
+}
+
+// The test editor's questions, answer keys included, saved in one upsert
+async function saveQuestions(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (!Array.isArray(body.questions)) throw new ActionError('Missing questions');
+  if (body.questions.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('questions')
+    .upsert(body.questions)
+    .select('id');
+  if (error) throw error;
+  return data || [];
+}
+
+async function saveBankQuestion(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (!body.question || typeof body.question !== 'object') throw new ActionError('Missing question');
+  if (body.id !== undefined && typeof body.id !== 'string') throw new ActionError('Invalid question');
+
+  const { data, error } = body.id
+    ? await supabase.from('question_bank').update(body.question).eq('id', body.id).select('id, created_at').maybeSingle()
+    : await supabase.from('question_bank').insert(body.question).select('id, created_at').single();
+  if (error) throw error;
+  if (!data) throw new ActionError('Question not found', 404);
+  return data;
+}
+
+async function getRegradeAudits(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (typeof body.test_id !== 'string') throw new ActionError('Missing test');
+
+  const { data, error } = await supabase
+    .from('regrade_audits')
+    .select('*')
+    .eq('test_id', body.test_id)
+    .order('created_at', { ascending: false })
+    .limit(10);
+  if (error) throw error;
+  return data || [];
+}
+
+async function deleteSubmission(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (typeof body.submission_id !== 'string') throw new ActionError('Missing submission');
+
+  // Its answers are removed with it (ON DELETE CASCADE)
+  const { data, error } = await supabase
+    .from('submissions')
+    .delete()
+    .eq('id', body.submission_id)
+    .select('id');
+  if (error) throw error;
+  if (!data?.length) throw new ActionError('Submission not found', 404);
+  return { deleted: body.submission_id };
+}
+
+async function gradeAnswer(supabase: SupabaseClient, body: AdminActionRequest) {
+  if (typeof body.answer_id !== 'string') throw new ActionError('Missing answer');
+
+  const { data: answer, error: answerError } = await supabase
+    .from('answers')
+    .select('id, submission_id, questions!inner(test_id, marks)')
+    .eq('id', body.answer_id)
+    .maybeSingle();
+  if (answerError) throw answerError;
+  if (!answer) throw new ActionError('Answer not found', 404);
+
+  const question = answer.questions as { test_id: string; marks: number };
+  const evaluation = toGradedEvaluation(Number(body.marks), question.marks);
+  const [results] = await writeGrades(supabase, question.test_id, [answer.submission_id], [{
+    id: answer.id,
+    is_correct: evaluation.isCorrect,
+    marks_awarded: evaluation.marksAwarded,
+    grader_comment: typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null,
+    graded_by: typeof body.graded_by === 'string' && body.graded_by.trim() ? body.graded_by.trim() : null,
+    graded_at: new Date().toISOString(),
+    rubric_scores: body.rubric_scores ?? null,
+  }]);
+  return results;
+}
+
+async function applyRegrade(supabase: SupabaseClient, body: AdminActionRequest) {
+  const preview = body.preview as RegradePreview | undefined;
+  const performedBy = typeof body.performed_by === 'string' ? body.performed_by.trim() : '';
+  if (!preview?.testId || !Array.isArray(preview.changes)) throw new ActionError('Missing re-grade preview');
+  if (!performedBy) throw new ActionError('Enter your name to apply the re-grade');
+  if (preview.changes.length === 0) return { submissions_affected: 0 };
+
+  const patches = preview.changes.flatMap((change) =>
+    change.answers.map((answer) => ({
+      id: answer.answerId,
+      is_correct: answer.newIsCorrect,
+      marks_awarded: answer.newMarks,
+      confidence: answer.newConfidence,
+    }))
+  );
+
+  await writeGrades(
+    supabase,
+    preview.testId,
+    preview.changes.map((change) => change.submissionId),
+    patches,
+    {
+      test_id: preview.testId,
+      question_id: preview.questionId,
+      performed_by: performedBy,
+      changes: preview.changes,
+      submissions_affected: preview.changes.length,
+    }
+  );
+  return { submissions_affected: preview.changes.length };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let body: AdminActionRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+
+  const adminPassword = Deno.env.get('ADMIN_PASSWORD');
+  if (!adminPassword) return json({ error: 'Admin password is not configured' }, 500);
+  if (!body?.password || body.password !== adminPassword) {
+    return json({ error: 'Invalid admin password' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  try {
+    switch (body.action) {
+      case 'verify':
+        return json({ ok: true });
+      case 'test_questions':
+        return json(await getTestQuestions(supabase, body));
+      case 'question_bank':
+        return json(await getQuestionBank(supabase));
+      case 'submission_review':
+        return json(await getSubmissionReview(supabase, body));
+      case 'save_questions':
+        return json(await saveQuestions(supabase, body));
+      case 'save_bank_question':
+        return json(await saveBankQuestion(supabase, body));
+      case 'regrade_audits':
+        return json(await getRegradeAudits(supabase, body));
+      case 'delete_submission':
+        return json(await deleteSubmission(supabase, body));
+      case 'grade_answer':
+        return json(await gradeAnswer(supabase, body));
+      case 'apply_regrade':
+        return json(await applyRegrade(supabase, body));
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof ActionError) return json({ error: error.message }, error.status);
+    console.error(`Error running ${body.action}:`, error);
+    const { code, message } = error as { code?: string; message?: string };
+    // Errors raised by apply_answer_grades itself (P0001) will not go away on retry
+    return json({ error: message || 'Admin action failed' }, code === 'P0001' ? 422 : 500);
+  }
+});
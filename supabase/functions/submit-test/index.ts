@@ -0,0 +1,150 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { calculateResults, evaluateAnswer, roundMarks } from '../_shared/evaluation.ts';
+import { getDrawnQuestionIds, getDrawnQuestions } from '../_shared/pools.ts';
+import { calculateSectionScores, isSectionTimeLocked } from '../_shared/sections.ts';
+
+/**
+ * Scores a finished test on the server. The browser sends only the raw
+ * answers; the answer key is read here with the service role key and the
+ * submission, its answers and any retest bookkeeping are written in one
+ * transaction by the `submit_test` database function.
+ */
+
+interface SubmitTestRequest {
+  test_id: string;
+  student_name: string;
+  father_name: string;
+  class_applying_for: string;
+  student_code: string;
+  slot_number: number;
+  tab_switch_count: number;
+  time_taken_seconds: number;
+  malpractice_detected: boolean;
+  is_auto_submit: boolean;
+  retest_key_id: string | null;
+  // Set for retests (retest key or master key); the previous attempt is invalidated
+  is_retest: boolean;
+  // One per test attempt, so retries return the first submission
+  submission_key: string;
+  answers: Record<string, unknown>;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let body: SubmitTestRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+  if (!body?.test_id || !body.student_name || !body.class_applying_for || !body.submission_key) {
+    return json({ error: 'Missing test or student details' }, 400);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: test, error: testError } = await supabase
+    .from('tests')
+    .select('*')
+    .eq('id', body.test_id)
+    .eq('is_published', true)
+    .maybeSingle();
+  if (testError) return json({ error: testError.message }, 500);
+  if (!test) return json({ error: 'Test not found' }, 404);
+
+  const { data: testQuestions, error: questionsError } = await supabase
+    .from('questions')
+    .select('*')
+    .eq('test_id', body.test_id);
+  if (questionsError) return json({ error: questionsError.message }, 500);
+
+  // Tests with question pools are scored on the paper drawn when the attempt started
+  const { data: startedAttempt, error: attemptError } = await supabase
+    .from('submissions')
+    .select('drawn_question_ids, section_time_used, draft_answers')
+    .eq('submission_key', body.submission_key)
+    .eq('test_id', body.test_id)
+    .maybeSingle();
+  if (attemptError) return json({ error: attemptError.message }, 500);
+  // Only attempts started through start_attempt (access code, deadline) can be submitted
+  if (!startedAttempt) return json({ error: 'Test attempt not found' }, 422);
+  const questions = getDrawnQuestions(testQuestions || [], getDrawnQuestionIds(startedAttempt));
+
+  const { data: sections, error: sectionsError } = await supabase
+    .from('test_sections')
+    .select('*')
+    .eq('test_id', body.test_id);
+  if (sectionsError) return json({ error: sectionsError.message }, 500);
+
+  // A section locked by its timer keeps the answers autosaved before it locked
+  const sectionTimeUsed = (startedAttempt.section_time_used || {}) as Record<string, number>;
+  const lockedSectionIds = new Set(
+    (sections || []).filter((s) => isSectionTimeLocked(s, Number(sectionTimeUsed[s.id]) || 0)).map((s) => s.id)
+  );
+  const savedAnswers = (startedAttempt.draft_answers || {}) as Record<string, unknown>;
+  const submittedAnswers = body.answers && typeof body.answers === 'object' ? body.answers : {};
+  const rawAnswers: Record<string, unknown> = Object.fromEntries(questions.map((q) => [
+    q.id,
+    q.section_id && lockedSectionIds.has(q.section_id) ? savedAnswers[q.id] : submittedAnswers[q.id],
+  ]));
+  const evaluations = questions.map((q) => evaluateAnswer(q, rawAnswers[q.id], test.negative_marks || 0));
+
+  const { score, correctCount, wrongCount, needsManualReview } = calculateResults(evaluations);
+  const totalMarks = questions.reduce((sum, q) => sum + q.marks, 0);
+  const percentage = totalMarks > 0 ? roundMarks((score / totalMarks) * 100) : 0;
+
+  const answers = questions.map((q, idx) => ({
+    question_id: q.id,
+    student_answer: rawAnswers[q.id] ?? null,
+    is_correct: evaluations[idx].isCorrect,
+    marks_awarded: evaluations[idx].marksAwarded,
+    confidence: evaluations[idx].confidence ?? null,
+  }));
+  const sectionScores = calculateSectionScores(
+    sections || [],
+    questions,
+    Object.fromEntries(answers.map((a) => [a.question_id, a.marks_awarded]))
+  );
+
+  const { data: submissionId, error } = await supabase.rpc('submit_test', {
+    p_submission: {
+      test_id: body.test_id,
+      tab_switch_count: body.tab_switch_count || 0,
+      time_taken_seconds: body.time_taken_seconds || 0,
+      score,
+      total_marks: totalMarks,
+      percentage,
+      correct_count: correctCount,
+      wrong_count: wrongCount,
+      needs_manual_review: needsManualReview,
+      section_scores: sectionScores,
+      malpractice_detected: !!body.malpractice_detected,
+      status: body.is_auto_submit ? 'auto_submitted' : 'completed',
+      retest_key_used: body.retest_key_id || null,
+      submission_key: body.submission_key,
+    },
+    p_answers: answers,
+    p_invalidate_previous: !!(body.is_retest || body.retest_key_id),
+  });
+
+  if (error) {
+    console.error('Error saving submission:', error);
+    // Errors raised by submit_test itself (P0001) will not go away on retry
+    return json({ error: error.message }, error.code === 'P0001' ? 422 : 500);
+  }
+  return json({ submission_id: submissionId });
+});
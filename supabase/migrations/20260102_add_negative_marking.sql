@@ -0,0 +1,19 @@
+/*
+  # Negative Marking
+
+  ## Overview
+  Adds penalty configuration for wrong answers and allows fractional marks
+  to be stored on answers and submissions.
+
+  ## Changes
+  - `tests.negative_marks` (numeric) - Default penalty deducted for each wrong answer
+  - `questions.negative_marks` (numeric, nullable) - Per-question override, NULL uses the test default
+  - `answers.marks_awarded` and `submissions.score` changed to numeric so penalties
+    such as 0.25 are stored exactly
+*/
+
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS negative_marks numeric(6,2) DEFAULT 0;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS negative_marks numeric(6,2);
+
+ALTER TABLE answers ALTER COLUMN marks_awarded TYPE numeric(8,2);
+ALTER TABLE submissions ALTER COLUMN score TYPE numeric(8,2);
@@ -0,0 +1,16 @@
+/*
+  # Partial Credit Scoring Modes
+
+  ## Overview
+  Lets authors choose how `mcq_multiple` questions are scored instead of the
+  previous all-or-nothing rule.
+
+  ## Changes
+  - `questions.scoring_mode` (text) - One of:
+    - `all_or_nothing` - Full marks only for the exact set of correct options
+    - `proportional` - Share of marks for each correct option picked
+    - `proportional_deduct` - Share for each correct pick, minus a share for each wrong pick
+    - `partial_jee` - Proportional credit, but any wrong pick makes the answer wrong
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS scoring_mode text DEFAULT 'all_or_nothing';
@@ -0,0 +1,16 @@
+/*
+  # Per-Question Answer Configuration
+
+  ## Overview
+  Adds a JSON column holding type-specific answer matching rules.
+
+  ## Changes
+  - `questions.answer_config` (jsonb) - For `numerical` questions:
+    - `absolute_tolerance` (number) - Accept answers within +/- this value
+    - `relative_tolerance` (number) - Accept answers within this percentage of the key
+    - `min_value` / `max_value` (number) - Accept any answer inside this range
+    - `units` (text[]) - Unit suffixes students may type after the number
+    - `require_unit` (boolean) - Reject answers that omit the unit
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS answer_config jsonb DEFAULT '{}'::jsonb;
@@ -0,0 +1,26 @@
+/*
+  # Match-the-Following Question Type
+
+  ## Overview
+  Adds `matching` to the allowed question types.
+
+  ## Storage
+  - `options` - `{ "left": [...], "right": [...] }`; the right column may contain extra distractors
+  - `correct_answers` - Right-column item for each left item, in left-column order
+  - `answers.student_answer` - Chosen right-column item for each left item, in left-column order
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'questions_question_type_check'
+    AND conrelid = 'questions'::regclass
+  ) THEN
+    ALTER TABLE questions DROP CONSTRAINT questions_question_type_check;
+  END IF;
+
+  ALTER TABLE questions
+    ADD CONSTRAINT questions_question_type_check
+    CHECK (question_type IN ('mcq_single', 'mcq_multiple', 'fill_blank', 'true_false', 'numerical', 'short_answer', 'paragraph', 'matching'));
+END $$;
@@ -0,0 +1,28 @@
+/*
+  # Ordering / Sequencing Question Type
+
+  ## Overview
+  Adds `ordering` to the allowed question types.
+
+  ## Storage
+  - `options` - Items to arrange (stored alphabetically so the key is not exposed)
+  - `correct_answers` - Items in the canonical order
+  - `answers.student_answer` - Items in the order the student arranged them
+  - `scoring_mode` - `all_or_nothing` (exact order) or `adjacency` (credit for each
+    neighbouring pair placed in the correct relative order)
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'questions_question_type_check'
+    AND conrelid = 'questions'::regclass
+  ) THEN
+    ALTER TABLE questions DROP CONSTRAINT questions_question_type_check;
+  END IF;
+
+  ALTER TABLE questions
+    ADD CONSTRAINT questions_question_type_check
+    CHECK (question_type IN ('mcq_single', 'mcq_multiple', 'fill_blank', 'true_false', 'numerical', 'short_answer', 'paragraph', 'matching', 'ordering'));
+END $$;
@@ -0,0 +1,38 @@
+/*
+  # Question and Option Images
+
+  ## Overview
+  Lets questions carry diagrams: one image for the question stem and one per
+  MCQ option. Images live in a public storage bucket; the question row only
+  keeps their URLs, so copying a question row carries its images with it.
+
+  ## Changes
+  - `questions.image_url` (text, nullable) - Image shown below the question text
+  - `questions.option_images` (jsonb) - Map of option text to image URL, e.g.
+    `{"Triangle": "https://.../triangle.png"}`. Keyed by text so it survives
+    option shuffling.
+  - Storage bucket `question-images` (public read)
+
+  ## Security
+  - Anyone can read images (students need them during the test)
+  - Uploads and deletes follow the existing open admin policies on `questions`
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS image_url text;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS option_images jsonb DEFAULT '{}'::jsonb;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('question-images', 'question-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view question images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'question-images');
+
+CREATE POLICY "Allow uploads of question images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'question-images');
+
+CREATE POLICY "Allow deletes of question images"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'question-images');
@@ -0,0 +1,20 @@
+/*
+  # Manual Grading
+
+  ## Overview
+  Records grader decisions for answers that cannot be marked automatically
+  (`short_answer` and `paragraph`). Ungraded answers keep `is_correct = NULL`;
+  grading sets `is_correct` and `marks_awarded` and fills in the columns below.
+
+  ## Changes
+  - `answers.grader_comment` (text) - Feedback shown to the student in the review
+  - `answers.graded_by` (text) - Name of the grader
+  - `answers.graded_at` (timestamptz) - When the answer was last graded
+  - Index on ungraded answers to keep the grading queue fast
+*/
+
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS grader_comment text;
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS graded_by text;
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS graded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_answers_ungraded ON answers(question_id) WHERE is_correct IS NULL;
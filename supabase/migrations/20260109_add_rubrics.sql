@@ -0,0 +1,17 @@
+/*
+  # Rubric-Based Grading
+
+  ## Overview
+  Lets `paragraph` questions be graded against named criteria, each with
+  level descriptors worth a fixed number of marks.
+
+  ## Changes
+  - `questions.rubric` (jsonb, nullable) - `{ "criteria": [{ "id", "name",
+    "levels": [{ "label", "description", "marks" }] }] }`
+  - `answers.rubric_scores` (jsonb, nullable) - Level picked for each criterion:
+    `[{ "criterion_id", "level", "marks" }]`. Their sum is stored in
+    `answers.marks_awarded`.
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS rubric jsonb;
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS rubric_scores jsonb;
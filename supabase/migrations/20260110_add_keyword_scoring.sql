@@ -0,0 +1,22 @@
+/*
+  # Keyword-Based Provisional Scoring
+
+  ## Overview
+  `short_answer` questions can list keywords (with synonyms) in
+  `questions.answer_config`. Answers are scored from the keywords they contain;
+  only answers the scorer is unsure about stay in manual review.
+
+  ## answer_config keys for `short_answer`
+  - `keywords` - `[{ "terms": ["photosynthesis"], "required": true }]`, where
+    `terms` holds a keyword and its synonyms
+  - `keyword_threshold` (number) - Percent of keywords an answer must contain,
+    besides every required one, to be auto-accepted. Defaults to 100.
+
+  ## Changes
+  - `answers.confidence` (text, nullable) - `high` when the keyword scorer
+    settled the answer, `low` when its provisional marks await a grader.
+    NULL for answers not scored by keywords.
+*/
+
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS confidence text
+  CHECK (confidence IN ('high', 'low'));
@@ -0,0 +1,40 @@
+/*
+  # Re-grade Audit Log
+
+  ## Overview
+  Records every re-evaluation of stored answers after an answer-key
+  correction, so it is clear who changed which scores and when.
+
+  ## Tables Created
+  ### regrade_audits
+  - `id` (uuid, primary key)
+  - `test_id` (uuid, foreign key) - Test that was re-graded
+  - `question_id` (uuid, nullable) - Single question re-graded, NULL for the whole test
+  - `performed_by` (text) - Name entered by the admin applying the change
+  - `changes` (jsonb) - Per submission: student, old/new score and percentage,
+    and the old/new marks of each changed answer
+  - `submissions_affected` (integer) - Number of submissions whose answers changed
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Same open admin policy as the other admin tables
+*/
+
+CREATE TABLE IF NOT EXISTS regrade_audits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  question_id uuid REFERENCES questions(id) ON DELETE SET NULL,
+  performed_by text NOT NULL DEFAULT '',
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  submissions_affected integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_regrade_audits_test_id ON regrade_audits(test_id);
+
+ALTER TABLE regrade_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on regrade_audits"
+  ON regrade_audits FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,77 @@
+/*
+  # Server-side Submission
+
+  ## Overview
+  Scores are no longer computed in the browser. The `submit-test` edge function
+  receives the raw answers, evaluates them against the stored answer key and
+  writes the result through `submit_test`, so the submission and its answers
+  are inserted in one transaction.
+
+  ## Functions Created
+  ### submit_test(p_submission jsonb, p_answers jsonb) returns uuid
+  - Inserts one `submissions` row and its `answers` rows, returns the submission id
+  - Only callable with the service role key (used by the edge function)
+
+  ## Security
+  - The anon key can no longer insert into `submissions` or `answers`; the
+    "Allow all operations" policies are split so the admin panel keeps its
+    select/update/delete access
+*/
+
+CREATE OR REPLACE FUNCTION submit_test(p_submission jsonb, p_answers jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_submission_id uuid;
+BEGIN
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code, slot_number,
+    tab_switch_count, malpractice_detected, time_taken_seconds, score, total_marks,
+    percentage, correct_count, wrong_count, needs_manual_review, status,
+    retest_key_used, submitted_at
+  )
+  SELECT
+    s.test_id, s.student_name, s.father_name, s.class_applying_for, s.student_code, s.slot_number,
+    s.tab_switch_count, s.malpractice_detected, s.time_taken_seconds, s.score, s.total_marks,
+    s.percentage, s.correct_count, s.wrong_count, s.needs_manual_review, s.status,
+    s.retest_key_used, now()
+  FROM jsonb_populate_record(NULL::submissions, p_submission) s
+  RETURNING id INTO v_submission_id;
+
+  INSERT INTO answers (submission_id, question_id, student_answer, is_correct, marks_awarded, confidence)
+  SELECT v_submission_id, a.question_id, a.student_answer, a.is_correct, a.marks_awarded, a.confidence
+  FROM jsonb_populate_recordset(NULL::answers, p_answers) a;
+
+  RETURN v_submission_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_test(jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_test(jsonb, jsonb) TO service_role;
+
+-- Submissions: no direct inserts from the browser
+DROP POLICY IF EXISTS "Anyone can insert submissions" ON submissions;
+DROP POLICY IF EXISTS "Allow all operations on submissions" ON submissions;
+
+CREATE POLICY "Allow updates on submissions"
+  ON submissions FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow deletes on submissions"
+  ON submissions FOR DELETE
+  USING (true);
+
+-- Answers: no direct inserts from the browser
+DROP POLICY IF EXISTS "Anyone can insert answers" ON answers;
+DROP POLICY IF EXISTS "Allow all operations on answers" ON answers;
+
+CREATE POLICY "Allow updates on answers"
+  ON answers FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow deletes on answers"
+  ON answers FOR DELETE
+  USING (true);
@@ -0,0 +1,65 @@
+/*
+  # Student-safe Question Payload
+
+  ## Overview
+  Students load questions through `get_test_questions` instead of reading the
+  `questions` table, so the answer key never reaches the browser during the exam.
+
+  ## Functions Created
+  ### get_test_questions(p_test_id uuid)
+  Returns the questions of a published test without:
+  - `correct_answers`, `rubric` and `explanation` (shown only in the result page)
+  - `is_case_sensitive` and the matching internals of `answer_config`
+    (patterns, keywords, tolerances); only `units` and `require_unit` are kept
+    because the answer input displays them
+
+  ## Not Included
+  - Column-level revokes on `questions` for the anon role. The admin panel
+    reads and edits questions with the same anon key, so hiding the key columns
+    from anon needs admin sign-in first.
+*/
+
+CREATE OR REPLACE FUNCTION get_test_questions(p_test_id uuid)
+RETURNS TABLE (
+  id uuid,
+  test_id uuid,
+  question_number integer,
+  question_type text,
+  question_text text,
+  options jsonb,
+  marks integer,
+  negative_marks numeric,
+  scoring_mode text,
+  answer_config jsonb,
+  image_url text,
+  option_images jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.test_id,
+    q.question_number,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.scoring_mode,
+    jsonb_strip_nulls(jsonb_build_object(
+      'units', q.answer_config->'units',
+      'require_unit', q.answer_config->'require_unit'
+    )),
+    q.image_url,
+    q.option_images
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  WHERE q.test_id = p_test_id
+    AND t.is_published = true
+  ORDER BY q.question_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_test_questions(uuid) TO anon, authenticated;
@@ -0,0 +1,105 @@
+/*
+  # Atomic, Idempotent Submission
+
+  ## Overview
+  `submit_test` now also consumes the retest key and invalidates the student's
+  previous attempt, so a failure at any step rolls back the whole submission.
+  A client-generated `submission_key` makes repeated calls (double click,
+  network retry) return the first submission instead of creating another.
+
+  ## Changes
+  - `submissions.submission_key` (uuid, unique, nullable) - Idempotency key sent
+    by the browser, one per test attempt
+  - `submit_test(p_submission jsonb, p_answers jsonb, p_invalidate_previous boolean)`
+    replaces the two-argument version:
+    - Returns the existing submission id when `submission_key` was already used
+    - Marks the latest completed/auto-submitted submission of the same student
+      in the same slot as `invalidated_by_retest` when `p_invalidate_previous` is set
+    - Marks `retest_key_used` as used by the new submission; raises if the key
+      was already consumed
+*/
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS submission_key uuid UNIQUE;
+
+DROP FUNCTION IF EXISTS submit_test(jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION submit_test(
+  p_submission jsonb,
+  p_answers jsonb,
+  p_invalidate_previous boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new submissions;
+  v_submission_id uuid;
+  v_previous_id uuid;
+BEGIN
+  v_new := jsonb_populate_record(NULL::submissions, p_submission);
+
+  IF v_new.submission_key IS NOT NULL THEN
+    SELECT id INTO v_submission_id FROM submissions WHERE submission_key = v_new.submission_key;
+    IF FOUND THEN
+      RETURN v_submission_id;
+    END IF;
+  END IF;
+
+  IF p_invalidate_previous THEN
+    SELECT id INTO v_previous_id
+    FROM submissions
+    WHERE test_id = v_new.test_id
+      AND slot_number IS NOT DISTINCT FROM v_new.slot_number
+      AND student_name = v_new.student_name
+      AND father_name IS NOT DISTINCT FROM v_new.father_name
+      AND status IN ('completed', 'auto_submitted')
+    ORDER BY submitted_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code, slot_number,
+    tab_switch_count, malpractice_detected, time_taken_seconds, score, total_marks,
+    percentage, correct_count, wrong_count, needs_manual_review, status,
+    retest_key_used, submission_key, submitted_at
+  )
+  VALUES (
+    v_new.test_id, v_new.student_name, v_new.father_name, v_new.class_applying_for, v_new.student_code, v_new.slot_number,
+    v_new.tab_switch_count, v_new.malpractice_detected, v_new.time_taken_seconds, v_new.score, v_new.total_marks,
+    v_new.percentage, v_new.correct_count, v_new.wrong_count, v_new.needs_manual_review, v_new.status,
+    v_new.retest_key_used, v_new.submission_key, now()
+  )
+  ON CONFLICT (submission_key) DO NOTHING
+  RETURNING id INTO v_submission_id;
+
+  -- A concurrent call with the same key won the race
+  IF v_submission_id IS NULL THEN
+    SELECT id INTO v_submission_id FROM submissions WHERE submission_key = v_new.submission_key;
+    RETURN v_submission_id;
+  END IF;
+
+  INSERT INTO answers (submission_id, question_id, student_answer, is_correct, marks_awarded, confidence)
+  SELECT v_submission_id, a.question_id, a.student_answer, a.is_correct, a.marks_awarded, a.confidence
+  FROM jsonb_populate_recordset(NULL::answers, p_answers) a;
+
+  IF v_previous_id IS NOT NULL THEN
+    UPDATE submissions SET status = 'invalidated_by_retest' WHERE id = v_previous_id;
+  END IF;
+
+  IF v_new.retest_key_used IS NOT NULL THEN
+    UPDATE retest_keys
+    SET is_used = true, used_by_submission_id = v_submission_id
+    WHERE id = v_new.retest_key_used
+      AND is_used = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Retest key has already been used';
+    END IF;
+  END IF;
+
+  RETURN v_submission_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_test(jsonb, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_test(jsonb, jsonb, boolean) TO service_role;
@@ -0,0 +1,243 @@
+/*
+  # Autosave and Resume of In-progress Attempts
+
+  ## Overview
+  The submission row is now created when the test starts (status `in_progress`)
+  and the browser saves answers, violation count and remaining time to it
+  periodically. A student whose browser crashes can re-enter the same access
+  code, name and father's name and continue where they left off, as long as
+  the slot is still open.
+
+  ## Changes
+  ### submissions
+  - `draft_answers` (jsonb) - Answers saved so far, keyed by question id
+  - `current_question_id` (uuid, nullable) - Question the student was on
+  - `remaining_seconds` (integer, nullable) - Time left at the last save
+  - `last_saved_at` (timestamptz, nullable)
+
+  ### Functions
+  - `start_attempt(...)` - Verifies the access code for the test, then returns
+    the student's open attempt in that slot or creates one. The attempt's
+    `submission_key` doubles as the resume token for saving and submitting.
+  - `save_attempt(...)` - Stores the draft of an `in_progress` attempt
+  - `submit_test(...)` - Finalises the `in_progress` row with the same
+    `submission_key` instead of inserting a new one
+*/
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS draft_answers jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS current_question_id uuid;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS remaining_seconds integer;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS last_saved_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_in_progress
+  ON submissions(test_id, slot_number, student_name, father_name)
+  WHERE status = 'in_progress';
+
+CREATE OR REPLACE FUNCTION start_attempt(
+  p_test_id uuid,
+  p_access_code text,
+  p_student_name text,
+  p_father_name text,
+  p_class_applying_for text,
+  p_student_code text,
+  p_submission_key uuid,
+  p_retest_key_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_key uuid,
+  student_code text,
+  slot_number integer,
+  draft_answers jsonb,
+  current_question_id uuid,
+  tab_switch_count integer,
+  remaining_seconds integer,
+  resumed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_slot_number integer;
+  v_attempt submissions;
+BEGIN
+  SELECT s.slot_number INTO v_slot_number
+  FROM access_codes ac
+  JOIN slots s ON s.id = ac.slot_id
+  WHERE s.test_id = p_test_id
+    AND ac.code = upper(trim(p_access_code))
+    AND ac.valid_until > now()
+  LIMIT 1;
+
+  IF v_slot_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired access code';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM submissions sub
+  WHERE sub.test_id = p_test_id
+    AND sub.slot_number = v_slot_number
+    AND sub.student_name = p_student_name
+    AND sub.father_name IS NOT DISTINCT FROM p_father_name
+    AND sub.status = 'in_progress'
+  ORDER BY sub.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT
+      v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+      v_attempt.draft_answers, v_attempt.current_question_id,
+      v_attempt.tab_switch_count, v_attempt.remaining_seconds, true;
+    RETURN;
+  END IF;
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code,
+    slot_number, status, retest_key_used, submission_key
+  )
+  VALUES (
+    p_test_id, p_student_name, p_father_name, p_class_applying_for,
+    p_student_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+    v_slot_number, 'in_progress', p_retest_key_id, p_submission_key
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN QUERY SELECT
+    v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+    v_attempt.draft_answers, NULL::uuid, v_attempt.tab_switch_count, NULL::integer, false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_attempt(
+  p_submission_key uuid,
+  p_draft_answers jsonb,
+  p_current_question_id uuid,
+  p_tab_switch_count integer,
+  p_remaining_seconds integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE submissions
+  SET draft_answers = COALESCE(p_draft_answers, '{}'::jsonb),
+      current_question_id = p_current_question_id,
+      tab_switch_count = GREATEST(tab_switch_count, COALESCE(p_tab_switch_count, 0)),
+      remaining_seconds = p_remaining_seconds,
+      last_saved_at = now()
+  WHERE submission_key = p_submission_key
+    AND status = 'in_progress';
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_attempt(uuid, text, text, text, text, text, uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_attempt(uuid, jsonb, uuid, integer, integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_test(
+  p_submission jsonb,
+  p_answers jsonb,
+  p_invalidate_previous boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new submissions;
+  v_existing submissions;
+  v_submission_id uuid;
+  v_previous_id uuid;
+BEGIN
+  v_new := jsonb_populate_record(NULL::submissions, p_submission);
+
+  IF v_new.submission_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM submissions
+    WHERE submission_key = v_new.submission_key
+    FOR UPDATE;
+
+    IF FOUND AND v_existing.status <> 'in_progress' THEN
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_invalidate_previous THEN
+    SELECT id INTO v_previous_id
+    FROM submissions
+    WHERE test_id = v_new.test_id
+      AND slot_number IS NOT DISTINCT FROM COALESCE(v_existing.slot_number, v_new.slot_number)
+      AND student_name = v_new.student_name
+      AND father_name IS NOT DISTINCT FROM v_new.father_name
+      AND status IN ('completed', 'auto_submitted')
+    ORDER BY submitted_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_existing.id IS NOT NULL THEN
+    -- Finalise the attempt created by start_attempt; its code and slot stay as they are
+    UPDATE submissions
+    SET tab_switch_count = GREATEST(tab_switch_count, COALESCE(v_new.tab_switch_count, 0)),
+        malpractice_detected = v_new.malpractice_detected,
+        time_taken_seconds = v_new.time_taken_seconds,
+        score = v_new.score,
+        total_marks = v_new.total_marks,
+        percentage = v_new.percentage,
+        correct_count = v_new.correct_count,
+        wrong_count = v_new.wrong_count,
+        needs_manual_review = v_new.needs_manual_review,
+        status = v_new.status,
+        retest_key_used = COALESCE(v_new.retest_key_used, retest_key_used),
+        draft_answers = '{}'::jsonb,
+        remaining_seconds = NULL,
+        submitted_at = now()
+    WHERE id = v_existing.id
+    RETURNING id INTO v_submission_id;
+  ELSE
+    INSERT INTO submissions (
+      test_id, student_name, father_name, class_applying_for, student_code, slot_number,
+      tab_switch_count, malpractice_detected, time_taken_seconds, score, total_marks,
+      percentage, correct_count, wrong_count, needs_manual_review, status,
+      retest_key_used, submission_key, submitted_at
+    )
+    VALUES (
+      v_new.test_id, v_new.student_name, v_new.father_name, v_new.class_applying_for, v_new.student_code, v_new.slot_number,
+      v_new.tab_switch_count, v_new.malpractice_detected, v_new.time_taken_seconds, v_new.score, v_new.total_marks,
+      v_new.percentage, v_new.correct_count, v_new.wrong_count, v_new.needs_manual_review, v_new.status,
+      v_new.retest_key_used, v_new.submission_key, now()
+    )
+    ON CONFLICT (submission_key) DO NOTHING
+    RETURNING id INTO v_submission_id;
+
+    -- A concurrent call with the same key won the race
+    IF v_submission_id IS NULL THEN
+      SELECT id INTO v_submission_id FROM submissions WHERE submission_key = v_new.submission_key;
+      RETURN v_submission_id;
+    END IF;
+  END IF;
+
+  INSERT INTO answers (submission_id, question_id, student_answer, is_correct, marks_awarded, confidence)
+  SELECT v_submission_id, a.question_id, a.student_answer, a.is_correct, a.marks_awarded, a.confidence
+  FROM jsonb_populate_recordset(NULL::answers, p_answers) a;
+
+  IF v_previous_id IS NOT NULL THEN
+    UPDATE submissions SET status = 'invalidated_by_retest' WHERE id = v_previous_id;
+  END IF;
+
+  IF v_new.retest_key_used IS NOT NULL THEN
+    UPDATE retest_keys
+    SET is_used = true, used_by_submission_id = v_submission_id
+    WHERE id = v_new.retest_key_used
+      AND is_used = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Retest key has already been used';
+    END IF;
+  END IF;
+
+  RETURN v_submission_id;
+END;
+$$;
@@ -0,0 +1,259 @@
+/*
+  # Server-authoritative Exam Timer
+
+  ## Overview
+  The deadline of an attempt is fixed on the server when it starts, so the
+  browser clock no longer decides how long a student gets. The browser counts
+  down locally and re-syncs with the server's remaining time on every autosave.
+
+  ## Changes
+  ### submissions
+  - `started_at` (timestamptz, nullable) - Server time the attempt was created
+  - `deadline_at` (timestamptz, nullable) - `started_at` plus the test duration
+  - `submitted_late` (boolean) - Submission reached the server more than
+    2 minutes (grace period) after the deadline
+
+  ### Functions
+  - `start_attempt` sets `started_at`/`deadline_at` and returns the remaining
+    seconds from the deadline, including when resuming
+  - `save_attempt` no longer takes the remaining time from the browser and
+    returns the server's remaining seconds instead (NULL once submitted, or
+    for attempts started before this migration)
+  - `submit_test` computes `time_taken_seconds` from `started_at` and sets
+    `submitted_late`. Late submissions are kept and flagged rather than
+    rejected, because a submission queued offline on time can arrive late.
+*/
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS started_at timestamptz;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS deadline_at timestamptz;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS submitted_late boolean DEFAULT false;
+
+CREATE OR REPLACE FUNCTION start_attempt(
+  p_test_id uuid,
+  p_access_code text,
+  p_student_name text,
+  p_father_name text,
+  p_class_applying_for text,
+  p_student_code text,
+  p_submission_key uuid,
+  p_retest_key_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_key uuid,
+  student_code text,
+  slot_number integer,
+  draft_answers jsonb,
+  current_question_id uuid,
+  tab_switch_count integer,
+  remaining_seconds integer,
+  resumed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_slot_number integer;
+  v_duration_minutes integer;
+  v_attempt submissions;
+BEGIN
+  SELECT s.slot_number INTO v_slot_number
+  FROM access_codes ac
+  JOIN slots s ON s.id = ac.slot_id
+  WHERE s.test_id = p_test_id
+    AND ac.code = upper(trim(p_access_code))
+    AND ac.valid_until > now()
+  LIMIT 1;
+
+  IF v_slot_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired access code';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM submissions sub
+  WHERE sub.test_id = p_test_id
+    AND sub.slot_number = v_slot_number
+    AND sub.student_name = p_student_name
+    AND sub.father_name IS NOT DISTINCT FROM p_father_name
+    AND sub.status = 'in_progress'
+  ORDER BY sub.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- The clock kept running while the student was away
+    RETURN QUERY SELECT
+      v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+      v_attempt.draft_answers, v_attempt.current_question_id, v_attempt.tab_switch_count,
+      CASE
+        WHEN v_attempt.deadline_at IS NOT NULL
+          THEN GREATEST(0, floor(extract(epoch FROM v_attempt.deadline_at - now())))::integer
+        ELSE v_attempt.remaining_seconds
+      END,
+      true;
+    RETURN;
+  END IF;
+
+  SELECT t.duration_minutes INTO v_duration_minutes FROM tests t WHERE t.id = p_test_id;
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code,
+    slot_number, status, retest_key_used, submission_key, started_at, deadline_at
+  )
+  VALUES (
+    p_test_id, p_student_name, p_father_name, p_class_applying_for,
+    p_student_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+    v_slot_number, 'in_progress', p_retest_key_id, p_submission_key,
+    now(), now() + make_interval(mins => v_duration_minutes)
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN QUERY SELECT
+    v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+    v_attempt.draft_answers, NULL::uuid, v_attempt.tab_switch_count, v_duration_minutes * 60, false;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS save_attempt(uuid, jsonb, uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION save_attempt(
+  p_submission_key uuid,
+  p_draft_answers jsonb,
+  p_current_question_id uuid,
+  p_tab_switch_count integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deadline_at timestamptz;
+BEGIN
+  UPDATE submissions
+  SET draft_answers = COALESCE(p_draft_answers, '{}'::jsonb),
+      current_question_id = p_current_question_id,
+      tab_switch_count = GREATEST(tab_switch_count, COALESCE(p_tab_switch_count, 0)),
+      remaining_seconds = GREATEST(0, floor(extract(epoch FROM deadline_at - now())))::integer,
+      last_saved_at = now()
+  WHERE submission_key = p_submission_key
+    AND status = 'in_progress'
+  RETURNING deadline_at INTO v_deadline_at;
+
+  IF NOT FOUND OR v_deadline_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN GREATEST(0, floor(extract(epoch FROM v_deadline_at - now())))::integer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_attempt(uuid, jsonb, uuid, integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_test(
+  p_submission jsonb,
+  p_answers jsonb,
+  p_invalidate_previous boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new submissions;
+  v_existing submissions;
+  v_submission_id uuid;
+  v_previous_id uuid;
+  v_grace constant interval := interval '2 minutes';
+BEGIN
+  v_new := jsonb_populate_record(NULL::submissions, p_submission);
+
+  IF v_new.submission_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM submissions
+    WHERE submission_key = v_new.submission_key
+    FOR UPDATE;
+
+    IF FOUND AND v_existing.status <> 'in_progress' THEN
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_invalidate_previous THEN
+    SELECT id INTO v_previous_id
+    FROM submissions
+    WHERE test_id = v_new.test_id
+      AND slot_number IS NOT DISTINCT FROM COALESCE(v_existing.slot_number, v_new.slot_number)
+      AND student_name = v_new.student_name
+      AND father_name IS NOT DISTINCT FROM v_new.father_name
+      AND status IN ('completed', 'auto_submitted')
+    ORDER BY submitted_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_existing.id IS NOT NULL THEN
+    -- Finalise the attempt created by start_attempt; its code and slot stay as they are
+    UPDATE submissions
+    SET tab_switch_count = GREATEST(tab_switch_count, COALESCE(v_new.tab_switch_count, 0)),
+        malpractice_detected = v_new.malpractice_detected,
+        time_taken_seconds = CASE
+          WHEN started_at IS NOT NULL THEN floor(extract(epoch FROM now() - started_at))::integer
+          ELSE v_new.time_taken_seconds
+        END,
+        submitted_late = deadline_at IS NOT NULL AND now() > deadline_at + v_grace,
+        score = v_new.score,
+        total_marks = v_new.total_marks,
+        percentage = v_new.percentage,
+        correct_count = v_new.correct_count,
+        wrong_count = v_new.wrong_count,
+        needs_manual_review = v_new.needs_manual_review,
+        status = v_new.status,
+        retest_key_used = COALESCE(v_new.retest_key_used, retest_key_used),
+        draft_answers = '{}'::jsonb,
+        remaining_seconds = NULL,
+        submitted_at = now()
+    WHERE id = v_existing.id
+    RETURNING id INTO v_submission_id;
+  ELSE
+    INSERT INTO submissions (
+      test_id, student_name, father_name, class_applying_for, student_code, slot_number,
+      tab_switch_count, malpractice_detected, time_taken_seconds, score, total_marks,
+      percentage, correct_count, wrong_count, needs_manual_review, status,
+      retest_key_used, submission_key, submitted_at
+    )
+    VALUES (
+      v_new.test_id, v_new.student_name, v_new.father_name, v_new.class_applying_for, v_new.student_code, v_new.slot_number,
+      v_new.tab_switch_count, v_new.malpractice_detected, v_new.time_taken_seconds, v_new.score, v_new.total_marks,
+      v_new.percentage, v_new.correct_count, v_new.wrong_count, v_new.needs_manual_review, v_new.status,
+      v_new.retest_key_used, v_new.submission_key, now()
+    )
+    ON CONFLICT (submission_key) DO NOTHING
+    RETURNING id INTO v_submission_id;
+
+    -- A concurrent call with the same key won the race
+    IF v_submission_id IS NULL THEN
+      SELECT id INTO v_submission_id FROM submissions WHERE submission_key = v_new.submission_key;
+      RETURN v_submission_id;
+    END IF;
+  END IF;
+
+  INSERT INTO answers (submission_id, question_id, student_answer, is_correct, marks_awarded, confidence)
+  SELECT v_submission_id, a.question_id, a.student_answer, a.is_correct, a.marks_awarded, a.confidence
+  FROM jsonb_populate_recordset(NULL::answers, p_answers) a;
+
+  IF v_previous_id IS NOT NULL THEN
+    UPDATE submissions SET status = 'invalidated_by_retest' WHERE id = v_previous_id;
+  END IF;
+
+  IF v_new.retest_key_used IS NOT NULL THEN
+    UPDATE retest_keys
+    SET is_used = true, used_by_submission_id = v_submission_id
+    WHERE id = v_new.retest_key_used
+      AND is_used = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Retest key has already been used';
+    END IF;
+  END IF;
+
+  RETURN v_submission_id;
+END;
+$$;
@@ -0,0 +1,360 @@
+/*
+  # Test Sections
+
+  ## Overview
+  A test can be split into sections (e.g. English, Maths, Reasoning), each
+  with its own time limit. The test's `duration_minutes` stays the limit for
+  the whole attempt; a section's time counts only while the student is in it.
+  A section can be locked once its time runs out, after which the student
+  cannot go back to it.
+
+  ## Tables Created
+  ### test_sections
+  - `id` (uuid, primary key)
+  - `test_id` (uuid, foreign key) - Test the section belongs to
+  - `title` (text) - Shown on the section tab and in reports
+  - `position` (integer) - Order of the section within the test
+  - `duration_minutes` (integer, nullable) - Time limit, NULL for untimed
+  - `lock_on_expiry` (boolean) - Lock the section once its time runs out
+  - `created_at` (timestamptz)
+
+  ## Changes
+  ### questions
+  - `section_id` (uuid, nullable) - Section of the question; set to NULL when
+    the section is removed
+
+  ### submissions
+  - `section_time_used` (jsonb) - Seconds spent in each section, keyed by
+    section id, so section timers survive a resume
+  - `section_scores` (jsonb) - Score, total marks and title of each section;
+    recomputed with the other results after manual grading or a re-grade
+
+  ### Functions
+  - `get_test_questions` also returns `section_id`
+  - `start_attempt` also returns `section_time_used`
+  - `save_attempt` takes `p_section_time_used`
+  - `submit_test` stores `section_scores`
+
+  ## Security
+  - `test_sections` has the same open admin policy as the other admin tables
+
+  ## Not Included
+  - Server-side enforcement of section locks. Section time is counted by the
+    browser, like the question navigation it controls; only the overall
+    deadline is enforced by the server.
+*/
+
+CREATE TABLE IF NOT EXISTS test_sections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  duration_minutes integer CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+  lock_on_expiry boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_test_sections_test_id ON test_sections(test_id);
+
+ALTER TABLE test_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on test_sections"
+  ON test_sections FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS section_id uuid REFERENCES test_sections(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_section_id ON questions(section_id);
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS section_time_used jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS section_scores jsonb DEFAULT '[]'::jsonb;
+
+DROP FUNCTION IF EXISTS get_test_questions(uuid);
+
+CREATE OR REPLACE FUNCTION get_test_questions(p_test_id uuid)
+RETURNS TABLE (
+  id uuid,
+  test_id uuid,
+  question_number integer,
+  question_type text,
+  question_text text,
+  options jsonb,
+  marks integer,
+  negative_marks numeric,
+  scoring_mode text,
+  answer_config jsonb,
+  image_url text,
+  option_images jsonb,
+  section_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.test_id,
+    q.question_number,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.scoring_mode,
+    jsonb_strip_nulls(jsonb_build_object(
+      'units', q.answer_config->'units',
+      'require_unit', q.answer_config->'require_unit'
+    )),
+    q.image_url,
+    q.option_images,
+    q.section_id
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  WHERE q.test_id = p_test_id
+    AND t.is_published = true
+  ORDER BY q.question_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_test_questions(uuid) TO anon, authenticated;
+
+-- The result columns change, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS start_attempt(uuid, text, text, text, text, text, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION start_attempt(
+  p_test_id uuid,
+  p_access_code text,
+  p_student_name text,
+  p_father_name text,
+  p_class_applying_for text,
+  p_student_code text,
+  p_submission_key uuid,
+  p_retest_key_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_key uuid,
+  student_code text,
+  slot_number integer,
+  draft_answers jsonb,
+  current_question_id uuid,
+  tab_switch_count integer,
+  remaining_seconds integer,
+  section_time_used jsonb,
+  resumed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_slot_number integer;
+  v_duration_minutes integer;
+  v_attempt submissions;
+BEGIN
+  SELECT s.slot_number INTO v_slot_number
+  FROM access_codes ac
+  JOIN slots s ON s.id = ac.slot_id
+  WHERE s.test_id = p_test_id
+    AND ac.code = upper(trim(p_access_code))
+    AND ac.valid_until > now()
+  LIMIT 1;
+
+  IF v_slot_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired access code';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM submissions sub
+  WHERE sub.test_id = p_test_id
+    AND sub.slot_number = v_slot_number
+    AND sub.student_name = p_student_name
+    AND sub.father_name IS NOT DISTINCT FROM p_father_name
+    AND sub.status = 'in_progress'
+  ORDER BY sub.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- The clock kept running while the student was away
+    RETURN QUERY SELECT
+      v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+      v_attempt.draft_answers, v_attempt.current_question_id, v_attempt.tab_switch_count,
+      CASE
+        WHEN v_attempt.deadline_at IS NOT NULL
+          THEN GREATEST(0, floor(extract(epoch FROM v_attempt.deadline_at - now())))::integer
+        ELSE v_attempt.remaining_seconds
+      END,
+      v_attempt.section_time_used,
+      true;
+    RETURN;
+  END IF;
+
+  SELECT t.duration_minutes INTO v_duration_minutes FROM tests t WHERE t.id = p_test_id;
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code,
+    slot_number, status, retest_key_used, submission_key, started_at, deadline_at
+  )
+  VALUES (
+    p_test_id, p_student_name, p_father_name, p_class_applying_for,
+    p_student_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+    v_slot_number, 'in_progress', p_retest_key_id, p_submission_key,
+    now(), now() + make_interval(mins => v_duration_minutes)
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN QUERY SELECT
+    v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+    v_attempt.draft_answers, NULL::uuid, v_attempt.tab_switch_count, v_duration_minutes * 60,
+    v_attempt.section_time_used, false;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS save_attempt(uuid, jsonb, uuid, integer);
+
+CREATE OR REPLACE FUNCTION save_attempt(
+  p_submission_key uuid,
+  p_draft_answers jsonb,
+  p_current_question_id uuid,
+  p_tab_switch_count integer,
+  p_section_time_used jsonb DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deadline_at timestamptz;
+BEGIN
+  UPDATE submissions
+  SET draft_answers = COALESCE(p_draft_answers, '{}'::jsonb),
+      current_question_id = p_current_question_id,
+      tab_switch_count = GREATEST(tab_switch_count, COALESCE(p_tab_switch_count, 0)),
+      section_time_used = COALESCE(p_section_time_used, section_time_used),
+      remaining_seconds = GREATEST(0, floor(extract(epoch FROM deadline_at - now())))::integer,
+      last_saved_at = now()
+  WHERE submission_key = p_submission_key
+    AND status = 'in_progress'
+  RETURNING deadline_at INTO v_deadline_at;
+
+  IF NOT FOUND OR v_deadline_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN GREATEST(0, floor(extract(epoch FROM v_deadline_at - now())))::integer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_attempt(uuid, text, text, text, text, text, uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_attempt(uuid, jsonb, uuid, integer, jsonb) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_test(
+  p_submission jsonb,
+  p_answers jsonb,
+  p_invalidate_previous boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new submissions;
+  v_existing submissions;
+  v_submission_id uuid;
+  v_previous_id uuid;
+  v_grace constant interval := interval '2 minutes';
+BEGIN
+  v_new := jsonb_populate_record(NULL::submissions, p_submission);
+
+  IF v_new.submission_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM submissions
+    WHERE submission_key = v_new.submission_key
+    FOR UPDATE;
+
+    IF FOUND AND v_existing.status <> 'in_progress' THEN
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_invalidate_previous THEN
+    SELECT id INTO v_previous_id
+    FROM submissions
+    WHERE test_id = v_new.test_id
+      AND slot_number IS NOT DISTINCT FROM COALESCE(v_existing.slot_number, v_new.slot_number)
+      AND student_name = v_new.student_name
+      AND father_name IS NOT DISTINCT FROM v_new.father_name
+      AND status IN ('completed', 'auto_submitted')
+    ORDER BY submitted_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_existing.id IS NOT NULL THEN
+    -- Finalise the attempt created by start_attempt; its code and slot stay as they are
+    UPDATE submissions
+    SET tab_switch_count = GREATEST(tab_switch_count, COALESCE(v_new.tab_switch_count, 0)),
+        malpractice_detected = v_new.malpractice_detected,
+        time_taken_seconds = CASE
+          WHEN started_at IS NOT NULL THEN floor(extract(epoch FROM now() - started_at))::integer
+          ELSE v_new.time_taken_seconds
+        END,
+        submitted_late = deadline_at IS NOT NULL AND now() > deadline_at + v_grace,
+        score = v_new.score,
+        total_marks = v_new.total_marks,
+        percentage = v_new.percentage,
+        correct_count = v_new.correct_count,
+        wrong_count = v_new.wrong_count,
+        needs_manual_review = v_new.needs_manual_review,
+        section_scores = COALESCE(v_new.section_scores, '[]'::jsonb),
+        status = v_new.status,
+        retest_key_used = COALESCE(v_new.retest_key_used, retest_key_used),
+        draft_answers = '{}'::jsonb,
+        remaining_seconds = NULL,
+        submitted_at = now()
+    WHERE id = v_existing.id
+    RETURNING id INTO v_submission_id;
+  ELSE
+    INSERT INTO submissions (
+      test_id, student_name, father_name, class_applying_for, student_code, slot_number,
+      tab_switch_count, malpractice_detected, time_taken_seconds, score, total_marks,
+      percentage, correct_count, wrong_count, needs_manual_review, section_scores, status,
+      retest_key_used, submission_key, submitted_at
+    )
+    VALUES (
+      v_new.test_id, v_new.student_name, v_new.father_name, v_new.class_applying_for, v_new.student_code, v_new.slot_number,
+      v_new.tab_switch_count, v_new.malpractice_detected, v_new.time_taken_seconds, v_new.score, v_new.total_marks,
+      v_new.percentage, v_new.correct_count, v_new.wrong_count, v_new.needs_manual_review,
+      COALESCE(v_new.section_scores, '[]'::jsonb), v_new.status,
+      v_new.retest_key_used, v_new.submission_key, now()
+    )
+    ON CONFLICT (submission_key) DO NOTHING
+    RETURNING id INTO v_submission_id;
+
+    -- A concurrent call with the same key won the race
+    IF v_submission_id IS NULL THEN
+      SELECT id INTO v_submission_id FROM submissions WHERE submission_key = v_new.submission_key;
+      RETURN v_submission_id;
+    END IF;
+  END IF;
+
+  INSERT INTO answers (submission_id, question_id, student_answer, is_correct, marks_awarded, confidence)
+  SELECT v_submission_id, a.question_id, a.student_answer, a.is_correct, a.marks_awarded, a.confidence
+  FROM jsonb_populate_recordset(NULL::answers, p_answers) a;
+
+  IF v_previous_id IS NOT NULL THEN
+    UPDATE submissions SET status = 'invalidated_by_retest' WHERE id = v_previous_id;
+  END IF;
+
+  IF v_new.retest_key_used IS NOT NULL THEN
+    UPDATE retest_keys
+    SET is_used = true, used_by_submission_id = v_submission_id
+    WHERE id = v_new.retest_key_used
+      AND is_used = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Retest key has already been used';
+    END IF;
+  END IF;
+
+  RETURN v_submission_id;
+END;
+$$;
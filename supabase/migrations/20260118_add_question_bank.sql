@@ -0,0 +1,131 @@
+/*
+  # Question Bank
+
+  ## Overview
+  Questions can be kept in a bank independent of any test, tagged by subject,
+  class level, topic and difficulty, and added to tests either by reference
+  (the test question follows later edits of the bank question) or as a copy.
+
+  ## Tables Created
+  ### question_bank
+  - `id` (uuid, primary key)
+  - `subject`, `class_level`, `topic` (text) - Free-text tags used for filtering
+  - `difficulty` (text) - 'easy', 'medium' or 'hard'
+  - The same content columns as `questions`: `question_type`, `question_text`,
+    `options`, `correct_answers`, `marks`, `negative_marks`, `is_case_sensitive`,
+    `scoring_mode`, `answer_config`, `image_url`, `option_images`, `explanation`,
+    `rubric`
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+  ### questions
+  - `bank_question_id` (uuid, nullable) - Bank question this one was added from
+  - `bank_linked` (boolean) - Added by reference: the content is kept in sync
+    with the bank question and is read-only in the test editor
+
+  ### Triggers
+  - Updating a bank question copies its content to every linked question
+  - Deleting a bank question turns its linked questions into plain copies
+
+  ## Views Created
+  ### question_bank_usage
+  Per bank question: number of tests using it (linked or copied), answers
+  given in completed submissions, how many were correct and the average marks.
+
+  ## Security
+  - `question_bank` has the same open admin policy as the other admin tables
+
+  ## Not Included
+  - Automatic re-grading. Fixing the answer key of a linked bank question
+    changes the key of the linked test questions; existing submissions are
+    re-graded from the Re-grade dialog as before.
+*/
+
+CREATE TABLE IF NOT EXISTS question_bank (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject text NOT NULL DEFAULT '',
+  class_level text NOT NULL DEFAULT '',
+  topic text NOT NULL DEFAULT '',
+  difficulty text NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  question_type text NOT NULL CHECK (question_type IN ('mcq_single', 'mcq_multiple', 'fill_blank', 'true_false', 'numerical', 'short_answer', 'paragraph', 'matching', 'ordering')),
+  question_text text NOT NULL,
+  options jsonb DEFAULT '[]'::jsonb,
+  correct_answers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  marks integer NOT NULL DEFAULT 1,
+  negative_marks numeric,
+  is_case_sensitive boolean DEFAULT false,
+  scoring_mode text NOT NULL DEFAULT 'all_or_nothing',
+  answer_config jsonb DEFAULT '{}'::jsonb,
+  image_url text,
+  option_images jsonb DEFAULT '{}'::jsonb,
+  explanation text DEFAULT '',
+  rubric jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_subject ON question_bank(subject, class_level);
+
+ALTER TABLE question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on question_bank"
+  ON question_bank FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS bank_question_id uuid REFERENCES question_bank(id) ON DELETE SET NULL;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS bank_linked boolean NOT NULL DEFAULT false;
+CREATE INDEX IF NOT EXISTS idx_questions_bank_question_id ON questions(bank_question_id);
+
+CREATE OR REPLACE FUNCTION sync_linked_bank_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE questions SET bank_linked = false WHERE bank_question_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  UPDATE questions
+  SET question_type = NEW.question_type,
+      question_text = NEW.question_text,
+      options = NEW.options,
+      correct_answers = NEW.correct_answers,
+      marks = NEW.marks,
+      negative_marks = NEW.negative_marks,
+      is_case_sensitive = NEW.is_case_sensitive,
+      scoring_mode = NEW.scoring_mode,
+      answer_config = NEW.answer_config,
+      image_url = NEW.image_url,
+      option_images = NEW.option_images,
+      explanation = NEW.explanation,
+      rubric = NEW.rubric
+  WHERE bank_question_id = NEW.id
+    AND bank_linked;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_linked_bank_questions_on_update
+  AFTER UPDATE ON question_bank
+  FOR EACH ROW EXECUTE FUNCTION sync_linked_bank_questions();
+
+CREATE TRIGGER sync_linked_bank_questions_on_delete
+  BEFORE DELETE ON question_bank
+  FOR EACH ROW EXECUTE FUNCTION sync_linked_bank_questions();
+
+CREATE OR REPLACE VIEW question_bank_usage AS
+SELECT
+  b.id AS bank_question_id,
+  count(DISTINCT q.test_id) AS test_count,
+  count(a.id) AS answer_count,
+  count(a.id) FILTER (WHERE a.is_correct) AS correct_count,
+  COALESCE(round(avg(a.marks_awarded), 2), 0) AS average_marks
+FROM question_bank b
+LEFT JOIN questions q ON q.bank_question_id = b.id
+LEFT JOIN (
+  answers a
+  JOIN submissions s ON s.id = a.submission_id AND s.status IN ('completed', 'auto_submitted')
+) ON a.question_id = q.id
+GROUP BY b.id;
@@ -0,0 +1,275 @@
+/*
+  # Question Pools
+
+  ## Overview
+  Authors can group questions of a test into pools and have each attempt draw
+  a fixed number of questions from every pool ("10 of these 30 Maths
+  questions"). Questions outside any pool are always on the paper. The draw is
+  made once, when the attempt starts, and stored on the submission so a resume
+  shows the same paper and scoring, review and re-grading use exactly the
+  questions the student saw.
+
+  Draws are balanced by marks: a pool draws from each mark value in proportion
+  to how many questions it has of that value (largest remainder, ties going to
+  the lower mark value). Every attempt therefore gets the same number of 1-mark,
+  2-mark, ... questions from a pool and every paper is worth the same total.
+
+  ## Tables Created
+  ### question_pools
+  - `id` (uuid, primary key)
+  - `test_id` (uuid, foreign key) - Test the pool belongs to
+  - `title` (text) - Shown in the editor and in the paper composition report
+  - `draw_count` (integer) - Questions drawn per attempt; a pool with fewer
+    questions is drawn in full
+  - `position` (integer) - Order of the pool in the editor
+  - `created_at` (timestamptz)
+
+  ## Changes
+  ### questions
+  - `pool_id` (uuid, nullable) - Pool of the question; set to NULL when the
+    pool is removed, which puts the question on every paper
+
+  ### submissions
+  - `drawn_question_ids` (jsonb, nullable) - Ids of the questions on this
+    student's paper. NULL for tests without pools and for older submissions,
+    meaning every question of the test
+
+  ### Functions
+  - `draw_question_set(p_test_id)` - Draws a paper, or NULL for a test without pools
+  - `start_attempt` stores a new draw on the submission it creates
+  - `get_test_questions` takes `p_submission_key` and returns only the
+    questions drawn for that attempt; without one, pooled questions are left out
+
+  ## Security
+  - `question_pools` has the same open admin policy as the other admin tables
+  - `draw_question_set` is not granted to students; it only runs inside `start_attempt`
+*/
+
+CREATE TABLE IF NOT EXISTS question_pools (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  draw_count integer NOT NULL CHECK (draw_count > 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_pools_test_id ON question_pools(test_id);
+
+ALTER TABLE question_pools ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on question_pools"
+  ON question_pools FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS pool_id uuid REFERENCES question_pools(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_pool_id ON questions(pool_id);
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS drawn_question_ids jsonb;
+
+-- Keep the quota rule in step with getPoolQuotas in src/lib/pools.ts, which shows the paper total in the editor
+CREATE OR REPLACE FUNCTION draw_question_set(p_test_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  WITH pool_sizes AS (
+    SELECT p.id AS pool_id, LEAST(p.draw_count, count(q.id))::integer AS draw, count(q.id)::integer AS size
+    FROM question_pools p
+    JOIN questions q ON q.pool_id = p.id AND q.test_id = p_test_id
+    WHERE p.test_id = p_test_id
+    GROUP BY p.id, p.draw_count
+  ),
+  mark_groups AS (
+    SELECT q.pool_id, q.marks, count(*)::integer AS n
+    FROM questions q
+    JOIN pool_sizes ps ON ps.pool_id = q.pool_id
+    WHERE q.test_id = p_test_id
+    GROUP BY q.pool_id, q.marks
+  ),
+  quotas AS (
+    SELECT
+      g.pool_id,
+      g.marks,
+      (ps.draw * g.n) / ps.size AS base,
+      row_number() OVER (PARTITION BY g.pool_id ORDER BY (ps.draw * g.n) % ps.size DESC, g.marks) AS remainder_rank,
+      ps.draw - sum((ps.draw * g.n) / ps.size) OVER (PARTITION BY g.pool_id) AS leftover
+    FROM mark_groups g
+    JOIN pool_sizes ps ON ps.pool_id = g.pool_id
+  ),
+  candidates AS (
+    SELECT q.id, q.question_number, q.pool_id, q.marks,
+      row_number() OVER (PARTITION BY q.pool_id, q.marks ORDER BY random()) AS pick
+    FROM questions q
+    JOIN pool_sizes ps ON ps.pool_id = q.pool_id
+    WHERE q.test_id = p_test_id
+  ),
+  drawn AS (
+    SELECT q.id, q.question_number
+    FROM questions q
+    WHERE q.test_id = p_test_id
+      AND q.pool_id IS NULL
+    UNION ALL
+    SELECT c.id, c.question_number
+    FROM candidates c
+    JOIN quotas qu ON qu.pool_id = c.pool_id AND qu.marks = c.marks
+    WHERE c.pick <= qu.base + CASE WHEN qu.remainder_rank <= qu.leftover THEN 1 ELSE 0 END
+  )
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM question_pools p WHERE p.test_id = p_test_id)
+      THEN COALESCE((SELECT jsonb_agg(d.id ORDER BY d.question_number) FROM drawn d), '[]'::jsonb)
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION draw_question_set(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION start_attempt(
+  p_test_id uuid,
+  p_access_code text,
+  p_student_name text,
+  p_father_name text,
+  p_class_applying_for text,
+  p_student_code text,
+  p_submission_key uuid,
+  p_retest_key_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_key uuid,
+  student_code text,
+  slot_number integer,
+  draft_answers jsonb,
+  current_question_id uuid,
+  tab_switch_count integer,
+  remaining_seconds integer,
+  section_time_used jsonb,
+  resumed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_slot_number integer;
+  v_duration_minutes integer;
+  v_attempt submissions;
+BEGIN
+  SELECT s.slot_number INTO v_slot_number
+  FROM access_codes ac
+  JOIN slots s ON s.id = ac.slot_id
+  WHERE s.test_id = p_test_id
+    AND ac.code = upper(trim(p_access_code))
+    AND ac.valid_until > now()
+  LIMIT 1;
+
+  IF v_slot_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired access code';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM submissions sub
+  WHERE sub.test_id = p_test_id
+    AND sub.slot_number = v_slot_number
+    AND sub.student_name = p_student_name
+    AND sub.father_name IS NOT DISTINCT FROM p_father_name
+    AND sub.status = 'in_progress'
+  ORDER BY sub.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- The clock kept running while the student was away
+    RETURN QUERY SELECT
+      v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+      v_attempt.draft_answers, v_attempt.current_question_id, v_attempt.tab_switch_count,
+      CASE
+        WHEN v_attempt.deadline_at IS NOT NULL
+          THEN GREATEST(0, floor(extract(epoch FROM v_attempt.deadline_at - now())))::integer
+        ELSE v_attempt.remaining_seconds
+      END,
+      v_attempt.section_time_used,
+      true;
+    RETURN;
+  END IF;
+
+  SELECT t.duration_minutes INTO v_duration_minutes FROM tests t WHERE t.id = p_test_id;
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code,
+    slot_number, status, retest_key_used, submission_key, started_at, deadline_at,
+    drawn_question_ids
+  )
+  VALUES (
+    p_test_id, p_student_name, p_father_name, p_class_applying_for,
+    p_student_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+    v_slot_number, 'in_progress', p_retest_key_id, p_submission_key,
+    now(), now() + make_interval(mins => v_duration_minutes),
+    draw_question_set(p_test_id)
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN QUERY SELECT
+    v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+    v_attempt.draft_answers, NULL::uuid, v_attempt.tab_switch_count, v_duration_minutes * 60,
+    v_attempt.section_time_used, false;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_test_questions(uuid);
+
+CREATE OR REPLACE FUNCTION get_test_questions(p_test_id uuid, p_submission_key uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  test_id uuid,
+  question_number integer,
+  question_type text,
+  question_text text,
+  options jsonb,
+  marks integer,
+  negative_marks numeric,
+  scoring_mode text,
+  answer_config jsonb,
+  image_url text,
+  option_images jsonb,
+  section_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.test_id,
+    q.question_number,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.scoring_mode,
+    jsonb_strip_nulls(jsonb_build_object(
+      'units', q.answer_config->'units',
+      'require_unit', q.answer_config->'require_unit'
+    )),
+    q.image_url,
+    q.option_images,
+    q.section_id
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  LEFT JOIN submissions s ON s.submission_key = p_submission_key AND s.test_id = q.test_id
+  WHERE q.test_id = p_test_id
+    AND t.is_published = true
+    AND CASE
+      -- The paper drawn for this attempt
+      WHEN s.drawn_question_ids IS NOT NULL THEN s.drawn_question_ids ? q.id::text
+      -- An attempt on a test without pools
+      WHEN s.id IS NOT NULL THEN true
+      -- No attempt: pooled questions stay hidden
+      ELSE q.pool_id IS NULL
+    END
+  ORDER BY q.question_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_test_questions(uuid, uuid) TO anon, authenticated;
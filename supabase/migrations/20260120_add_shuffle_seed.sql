@@ -0,0 +1,130 @@
+/*
+  # Reproducible Shuffling
+
+  ## Overview
+  Question and option order used to come from `Math.random` in the browser,
+  so nobody could tell afterwards which question a student saw as "question 7".
+  Each attempt now gets a random seed when it starts. The browser derives the
+  question and option order from it (see `orderPaper` in src/lib/paperOrder.ts),
+  so a resume shows the same order and the results pages can rebuild it.
+
+  ## Changes
+  ### submissions
+  - `shuffle_seed` (integer, nullable) - Seed of the attempt's question and
+    option order. NULL for submissions made before this change, which are
+    shown in test order
+  - Attempts still in progress get a seed now, so their order is fixed from
+    the next resume on
+
+  ### Functions
+  - `start_attempt` sets `shuffle_seed` on the attempt it creates and returns it
+
+  ## Not Included
+  - Rebuilt orders follow the questions as they are now. Editing a question's
+    options after the test changes the option order shown for it.
+*/
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS shuffle_seed integer;
+
+UPDATE submissions
+SET shuffle_seed = floor(random() * 2147483647)::integer
+WHERE status = 'in_progress'
+  AND shuffle_seed IS NULL;
+
+-- The result columns change, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS start_attempt(uuid, text, text, text, text, text, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION start_attempt(
+  p_test_id uuid,
+  p_access_code text,
+  p_student_name text,
+  p_father_name text,
+  p_class_applying_for text,
+  p_student_code text,
+  p_submission_key uuid,
+  p_retest_key_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_key uuid,
+  student_code text,
+  slot_number integer,
+  draft_answers jsonb,
+  current_question_id uuid,
+  tab_switch_count integer,
+  remaining_seconds integer,
+  section_time_used jsonb,
+  shuffle_seed integer,
+  resumed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_slot_number integer;
+  v_duration_minutes integer;
+  v_attempt submissions;
+BEGIN
+  SELECT s.slot_number INTO v_slot_number
+  FROM access_codes ac
+  JOIN slots s ON s.id = ac.slot_id
+  WHERE s.test_id = p_test_id
+    AND ac.code = upper(trim(p_access_code))
+    AND ac.valid_until > now()
+  LIMIT 1;
+
+  IF v_slot_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired access code';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM submissions sub
+  WHERE sub.test_id = p_test_id
+    AND sub.slot_number = v_slot_number
+    AND sub.student_name = p_student_name
+    AND sub.father_name IS NOT DISTINCT FROM p_father_name
+    AND sub.status = 'in_progress'
+  ORDER BY sub.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- The clock kept running while the student was away
+    RETURN QUERY SELECT
+      v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+      v_attempt.draft_answers, v_attempt.current_question_id, v_attempt.tab_switch_count,
+      CASE
+        WHEN v_attempt.deadline_at IS NOT NULL
+          THEN GREATEST(0, floor(extract(epoch FROM v_attempt.deadline_at - now())))::integer
+        ELSE v_attempt.remaining_seconds
+      END,
+      v_attempt.section_time_used,
+      v_attempt.shuffle_seed,
+      true;
+    RETURN;
+  END IF;
+
+  SELECT t.duration_minutes INTO v_duration_minutes FROM tests t WHERE t.id = p_test_id;
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code,
+    slot_number, status, retest_key_used, submission_key, started_at, deadline_at,
+    drawn_question_ids, shuffle_seed
+  )
+  VALUES (
+    p_test_id, p_student_name, p_father_name, p_class_applying_for,
+    p_student_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+    v_slot_number, 'in_progress', p_retest_key_id, p_submission_key,
+    now(), now() + make_interval(mins => v_duration_minutes),
+    draw_question_set(p_test_id), floor(random() * 2147483647)::integer
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN QUERY SELECT
+    v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+    v_attempt.draft_answers, NULL::uuid, v_attempt.tab_switch_count, v_duration_minutes * 60,
+    v_attempt.section_time_used, v_attempt.shuffle_seed, false;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_attempt(uuid, text, text, text, text, text, uuid, uuid) TO anon, authenticated;
@@ -0,0 +1,146 @@
+/*
+  # Shuffle Settings
+
+  ## Overview
+  Question and option shuffling can be configured per test and per question,
+  e.g. to keep a reading passage ahead of its questions or "All of the above"
+  as the last option. The order is still derived from the attempt's
+  `shuffle_seed`; these settings decide what the seed may move.
+
+  ## Changes
+  ### tests
+  - `question_shuffle` (text) - 'none' keeps the test order, 'within_sections'
+    (the default, and the behaviour so far) shuffles questions inside each
+    section, 'all' also shuffles the order of the sections
+  - `shuffle_options` (boolean) - Shuffle the options of choice, ordering and
+    matching questions
+
+  ### questions
+  - `keep_position` (boolean) - The question keeps its place in its section
+    while the others are shuffled around it
+  - `shuffle_options` (boolean) - Set to false to keep this question's options
+    in the order they were entered, even when the test shuffles options
+  - `pinned_options` (jsonb) - Options that always come last when the options
+    are shuffled, in the order they were entered
+
+  ### question_bank
+  - `shuffle_options` and `pinned_options`, kept in sync with linked questions
+    like the other content columns
+
+  ### Functions
+  - `get_test_questions` also returns `keep_position`, `shuffle_options` and
+    `pinned_options`
+
+  ## Not Included
+  - Results pages rebuild a student's order with the settings as they are
+    now. Changing them after students have sat the test changes the order
+    shown for earlier attempts.
+*/
+
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS question_shuffle text NOT NULL DEFAULT 'within_sections'
+  CHECK (question_shuffle IN ('none', 'within_sections', 'all'));
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS shuffle_options boolean NOT NULL DEFAULT true;
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS keep_position boolean NOT NULL DEFAULT false;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS shuffle_options boolean NOT NULL DEFAULT true;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS pinned_options jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE question_bank ADD COLUMN IF NOT EXISTS shuffle_options boolean NOT NULL DEFAULT true;
+ALTER TABLE question_bank ADD COLUMN IF NOT EXISTS pinned_options jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION sync_linked_bank_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE questions SET bank_linked = false WHERE bank_question_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  UPDATE questions
+  SET question_type = NEW.question_type,
+      question_text = NEW.question_text,
+      options = NEW.options,
+      correct_answers = NEW.correct_answers,
+      marks = NEW.marks,
+      negative_marks = NEW.negative_marks,
+      is_case_sensitive = NEW.is_case_sensitive,
+      scoring_mode = NEW.scoring_mode,
+      answer_config = NEW.answer_config,
+      image_url = NEW.image_url,
+      option_images = NEW.option_images,
+      explanation = NEW.explanation,
+      rubric = NEW.rubric,
+      shuffle_options = NEW.shuffle_options,
+      pinned_options = NEW.pinned_options
+  WHERE bank_question_id = NEW.id
+    AND bank_linked;
+  RETURN NEW;
+END;
+$$;
+
+-- The result columns change, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS get_test_questions(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_test_questions(p_test_id uuid, p_submission_key uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  test_id uuid,
+  question_number integer,
+  question_type text,
+  question_text text,
+  options jsonb,
+  marks integer,
+  negative_marks numeric,
+  scoring_mode text,
+  answer_config jsonb,
+  image_url text,
+  option_images jsonb,
+  section_id uuid,
+  keep_position boolean,
+  shuffle_options boolean,
+  pinned_options jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.test_id,
+    q.question_number,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.scoring_mode,
+    jsonb_strip_nulls(jsonb_build_object(
+      'units', q.answer_config->'units',
+      'require_unit', q.answer_config->'require_unit'
+    )),
+    q.image_url,
+    q.option_images,
+    q.section_id,
+    q.keep_position,
+    q.shuffle_options,
+    q.pinned_options
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  LEFT JOIN submissions s ON s.submission_key = p_submission_key AND s.test_id = q.test_id
+  WHERE q.test_id = p_test_id
+    AND t.is_published = true
+    AND CASE
+      -- The paper drawn for this attempt
+      WHEN s.drawn_question_ids IS NOT NULL THEN s.drawn_question_ids ? q.id::text
+      -- An attempt on a test without pools
+      WHEN s.id IS NOT NULL THEN true
+      -- No attempt: pooled questions stay hidden
+      ELSE q.pool_id IS NULL
+    END
+  ORDER BY q.question_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_test_questions(uuid, uuid) TO anon, authenticated;
@@ -0,0 +1,128 @@
+/*
+  # Question Groups
+
+  ## Overview
+  Reading comprehension and data-interpretation questions share one passage,
+  image or table (the stimulus). Questions of a group are shown next to their
+  stimulus while the test is taken and always stay together, in test order,
+  when questions are shuffled.
+
+  ## Tables Created
+  ### question_groups
+  - `id` (uuid, primary key)
+  - `test_id` (uuid, foreign key) - Test the group belongs to
+  - `title` (text) - Shown above the stimulus, e.g. "Passage 1"
+  - `stimulus_text` (text) - Passage text; supports maths like question text
+  - `stimulus_image_url` (text, nullable) - Image, chart or diagram
+  - `stimulus_table` (jsonb) - Table as a list of rows of cell text, the first
+    row being the header; an empty list for no table
+  - `position` (integer) - Order of the group in the editor
+  - `created_at` (timestamptz)
+
+  ## Changes
+  ### questions
+  - `group_id` (uuid, nullable) - Group of the question; set to NULL when the
+    group is removed
+
+  ### Functions
+  - `get_test_questions` also returns `group_id`
+
+  ## Security
+  - `question_groups` has the same open policy as the other admin tables;
+    students read the stimulus of the test they are taking directly
+
+  ## Not Included
+  - Pools draw questions one by one, so a paper can carry only some of a
+    group's questions
+  - Groups cannot be kept in the question bank
+*/
+
+CREATE TABLE IF NOT EXISTS question_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT '',
+  stimulus_text text NOT NULL DEFAULT '',
+  stimulus_image_url text,
+  stimulus_table jsonb NOT NULL DEFAULT '[]'::jsonb,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_groups_test_id ON question_groups(test_id);
+
+ALTER TABLE question_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on question_groups"
+  ON question_groups FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES question_groups(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_group_id ON questions(group_id);
+
+-- The result columns change, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS get_test_questions(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_test_questions(p_test_id uuid, p_submission_key uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  test_id uuid,
+  question_number integer,
+  question_type text,
+  question_text text,
+  options jsonb,
+  marks integer,
+  negative_marks numeric,
+  scoring_mode text,
+  answer_config jsonb,
+  image_url text,
+  option_images jsonb,
+  section_id uuid,
+  keep_position boolean,
+  shuffle_options boolean,
+  pinned_options jsonb,
+  group_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.test_id,
+    q.question_number,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.scoring_mode,
+    jsonb_strip_nulls(jsonb_build_object(
+      'units', q.answer_config->'units',
+      'require_unit', q.answer_config->'require_unit'
+    )),
+    q.image_url,
+    q.option_images,
+    q.section_id,
+    q.keep_position,
+    q.shuffle_options,
+    q.pinned_options,
+    q.group_id
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  LEFT JOIN submissions s ON s.submission_key = p_submission_key AND s.test_id = q.test_id
+  WHERE q.test_id = p_test_id
+    AND t.is_published = true
+    AND CASE
+      -- The paper drawn for this attempt
+      WHEN s.drawn_question_ids IS NOT NULL THEN s.drawn_question_ids ? q.id::text
+      -- An attempt on a test without pools
+      WHEN s.id IS NOT NULL THEN true
+      -- No attempt: pooled questions stay hidden
+      ELSE q.pool_id IS NULL
+    END
+  ORDER BY q.question_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_test_questions(uuid, uuid) TO anon, authenticated;
@@ -0,0 +1,94 @@
+/*
+  # Atomic Re-grade
+
+  ## Overview
+  A re-grade used to update answers and submissions one request at a time
+  from the browser and record the audit last, so a dropped connection could
+  leave scores changed with no audit entry. The `admin-actions` edge function
+  now computes the new results and writes them through `apply_answer_grades`,
+  which updates the answers and submissions and inserts the audit in one
+  transaction.
+
+  ## Functions Created
+  ### apply_answer_grades(p_answers jsonb, p_results jsonb, p_audit jsonb) returns void
+  - `p_answers`: one object per answer, with its `id` and the columns to
+    change; columns not in the object keep their stored value
+  - `p_results`: one object per submission, with its `id`, `score`,
+    `percentage`, `correct_count`, `wrong_count`, `needs_manual_review` and
+    `section_scores`
+  - `p_audit`: the `regrade_audits` row to insert, or NULL for manual grading
+  - Only callable with the service role key (used by the edge function)
+
+  ## Security
+  - `regrade_audits` can only be read and inserted through the anon key; the
+    audit trail can no longer be edited or deleted
+*/
+
+CREATE OR REPLACE FUNCTION apply_answer_grades(
+  p_answers jsonb,
+  p_results jsonb,
+  p_audit jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_patch jsonb;
+  v_answer answers;
+  v_result submissions;
+BEGIN
+  IF p_audit IS NOT NULL THEN
+    INSERT INTO regrade_audits (test_id, question_id, performed_by, changes, submissions_affected)
+    SELECT a.test_id, a.question_id, COALESCE(a.performed_by, ''), COALESCE(a.changes, '[]'::jsonb), COALESCE(a.submissions_affected, 0)
+    FROM jsonb_populate_record(NULL::regrade_audits, p_audit) a;
+  END IF;
+
+  FOR v_patch IN SELECT value FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) LOOP
+    SELECT * INTO v_answer FROM answers WHERE id = (v_patch->>'id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Answer % not found', v_patch->>'id';
+    END IF;
+
+    v_answer := jsonb_populate_record(v_answer, v_patch - 'id');
+    UPDATE answers
+    SET is_correct = v_answer.is_correct,
+        marks_awarded = v_answer.marks_awarded,
+        confidence = v_answer.confidence,
+        grader_comment = v_answer.grader_comment,
+        graded_by = v_answer.graded_by,
+        graded_at = v_answer.graded_at,
+        rubric_scores = v_answer.rubric_scores
+    WHERE id = v_answer.id;
+  END LOOP;
+
+  FOR v_result IN SELECT * FROM jsonb_populate_recordset(NULL::submissions, COALESCE(p_results, '[]'::jsonb)) LOOP
+    UPDATE submissions
+    SET score = v_result.score,
+        percentage = v_result.percentage,
+        correct_count = v_result.correct_count,
+        wrong_count = v_result.wrong_count,
+        needs_manual_review = v_result.needs_manual_review,
+        section_scores = COALESCE(v_result.section_scores, '[]'::jsonb)
+    WHERE id = v_result.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Submission % not found', v_result.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_answer_grades(jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_answer_grades(jsonb, jsonb, jsonb) TO service_role;
+
+DROP POLICY IF EXISTS "Allow all operations on regrade_audits" ON regrade_audits;
+
+CREATE POLICY "Allow reads on regrade_audits"
+  ON regrade_audits FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow inserts on regrade_audits"
+  ON regrade_audits FOR INSERT
+  WITH CHECK (true);
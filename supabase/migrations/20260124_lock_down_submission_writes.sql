@@ -0,0 +1,116 @@
+/*
+  # Lock Down Submission Writes
+
+  ## Overview
+  The anon key could still update and delete any submission or answer, so
+  anyone with the public key could rewrite scores. Grading, re-grades and
+  deleting a submission now go through the `admin-actions` edge function,
+  which checks the admin password and writes with the service role key, so
+  these policies are dropped.
+
+  `submit_test` no longer inserts a submission when no attempt was started
+  with the given `submission_key`. That fallback skipped the access code
+  check, the server deadline and the late flag set up by `start_attempt`.
+
+  ## Changes
+  - `submit_test` raises for a `submission_key` that has no attempt of the
+    given test, instead of inserting a new scored submission
+
+  ## Security
+  - Dropped "Allow updates on submissions" and "Allow deletes on submissions"
+  - Dropped "Allow updates on answers" and "Allow deletes on answers"
+  - The anon key keeps read access to both tables
+*/
+
+DROP POLICY IF EXISTS "Allow updates on submissions" ON submissions;
+DROP POLICY IF EXISTS "Allow deletes on submissions" ON submissions;
+DROP POLICY IF EXISTS "Allow updates on answers" ON answers;
+DROP POLICY IF EXISTS "Allow deletes on answers" ON answers;
+
+CREATE OR REPLACE FUNCTION submit_test(
+  p_submission jsonb,
+  p_answers jsonb,
+  p_invalidate_previous boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new submissions;
+  v_existing submissions;
+  v_previous_id uuid;
+  v_grace constant interval := interval '2 minutes';
+BEGIN
+  v_new := jsonb_populate_record(NULL::submissions, p_submission);
+
+  SELECT * INTO v_existing
+  FROM submissions
+  WHERE submission_key = v_new.submission_key
+    AND test_id = v_new.test_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No attempt of this test was started with this submission key';
+  END IF;
+
+  IF v_existing.status <> 'in_progress' THEN
+    RETURN v_existing.id;
+  END IF;
+
+  IF p_invalidate_previous THEN
+    SELECT id INTO v_previous_id
+    FROM submissions
+    WHERE test_id = v_existing.test_id
+      AND slot_number IS NOT DISTINCT FROM v_existing.slot_number
+      AND student_name = v_existing.student_name
+      AND father_name IS NOT DISTINCT FROM v_existing.father_name
+      AND status IN ('completed', 'auto_submitted')
+    ORDER BY submitted_at DESC
+    LIMIT 1;
+  END IF;
+
+  -- Finalise the attempt created by start_attempt; its code and slot stay as they are
+  UPDATE submissions
+  SET tab_switch_count = GREATEST(tab_switch_count, COALESCE(v_new.tab_switch_count, 0)),
+      malpractice_detected = v_new.malpractice_detected,
+      time_taken_seconds = CASE
+        WHEN started_at IS NOT NULL THEN floor(extract(epoch FROM now() - started_at))::integer
+        ELSE v_new.time_taken_seconds
+      END,
+      submitted_late = deadline_at IS NOT NULL AND now() > deadline_at + v_grace,
+      score = v_new.score,
+      total_marks = v_new.total_marks,
+      percentage = v_new.percentage,
+      correct_count = v_new.correct_count,
+      wrong_count = v_new.wrong_count,
+      needs_manual_review = v_new.needs_manual_review,
+      section_scores = COALESCE(v_new.section_scores, '[]'::jsonb),
+      status = v_new.status,
+      retest_key_used = COALESCE(v_new.retest_key_used, retest_key_used),
+      draft_answers = '{}'::jsonb,
+      remaining_seconds = NULL,
+      submitted_at = now()
+  WHERE id = v_existing.id;
+
+  INSERT INTO answers (submission_id, question_id, student_answer, is_correct, marks_awarded, confidence)
+  SELECT v_existing.id, a.question_id, a.student_answer, a.is_correct, a.marks_awarded, a.confidence
+  FROM jsonb_populate_recordset(NULL::answers, p_answers) a;
+
+  IF v_previous_id IS NOT NULL THEN
+    UPDATE submissions SET status = 'invalidated_by_retest' WHERE id = v_previous_id;
+  END IF;
+
+  IF v_new.retest_key_used IS NOT NULL THEN
+    UPDATE retest_keys
+    SET is_used = true, used_by_submission_id = v_existing.id
+    WHERE id = v_new.retest_key_used
+      AND is_used = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Retest key has already been used';
+    END IF;
+  END IF;
+
+  RETURN v_existing.id;
+END;
+$$;
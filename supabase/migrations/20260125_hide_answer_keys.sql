@@ -0,0 +1,65 @@
+/*
+  # Hide Answer Keys
+
+  ## Overview
+  `get_test_questions` hid the answer key from the test page, but the anon
+  key could still select `correct_answers`, `answer_config`, `rubric` and
+  `explanation` straight from `questions` (and from `question_bank`, which
+  holds the same keys for linked questions). Those columns are no longer
+  readable with the anon key. The admin panel reads them through the
+  `admin-actions` edge function, which uses the service role key.
+
+  ## Functions Created
+  ### get_submission_review(p_submission_id uuid) returns jsonb
+  - The answers of a finished submission, each with its question (answer key
+    and explanation included) under `questions`, for the results page and
+    the admin's view of a student's paper
+  - Returns an empty array for an attempt still in progress
+
+  ## Security
+  - `questions`: SELECT on every column except `correct_answers`,
+    `answer_config`, `rubric` and `explanation`
+  - `question_bank`: the same
+  - Insert and update grants are unchanged, so the test editor and the bank
+    still save through the anon key
+  - Columns added later must be granted explicitly to be readable
+
+  ## Not Included
+  - Tying the review to the student. Anyone who knows the id of a finished
+    submission can see its answer key, as before
+*/
+
+REVOKE SELECT ON questions FROM anon, authenticated;
+GRANT SELECT (
+  id, test_id, question_number, question_type, question_text, options, marks,
+  is_case_sensitive, negative_marks, scoring_mode, image_url, option_images,
+  section_id, bank_question_id, bank_linked, pool_id, keep_position,
+  shuffle_options, pinned_options, group_id, created_at
+) ON questions TO anon, authenticated;
+
+REVOKE SELECT ON question_bank FROM anon, authenticated;
+GRANT SELECT (
+  id, subject, class_level, topic, difficulty, question_type, question_text,
+  options, marks, negative_marks, is_case_sensitive, scoring_mode, image_url,
+  option_images, shuffle_options, pinned_options, created_at, updated_at
+) ON question_bank TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_submission_review(p_submission_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(to_jsonb(a) || jsonb_build_object('questions', to_jsonb(q)) ORDER BY q.question_number),
+    '[]'::jsonb
+  )
+  FROM submissions s
+  JOIN answers a ON a.submission_id = s.id
+  LEFT JOIN questions q ON q.id = a.question_id
+  WHERE s.id = p_submission_id
+    AND s.status <> 'in_progress';
+$$;
+
+GRANT EXECUTE ON FUNCTION get_submission_review(uuid) TO anon, authenticated;
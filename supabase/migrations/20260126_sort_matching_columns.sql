@@ -0,0 +1,32 @@
+/*
+  # Sort Matching Columns
+
+  ## Overview
+  The right column of a matching question was stored with the correct
+  matches first, in the order of the left column, and `get_test_questions`
+  returns `options` as stored. The editor now saves the right column in
+  alphabetical order, like the items of an ordering question; this sorts the
+  questions saved before that.
+
+  ## Changes
+  - `questions.options->'right'` of matching questions sorted alphabetically
+  - `question_bank.options->'right'` likewise
+*/
+
+UPDATE questions
+SET options = jsonb_set(
+  options,
+  '{right}',
+  (SELECT COALESCE(jsonb_agg(item ORDER BY item #>> '{}'), '[]'::jsonb) FROM jsonb_array_elements(options->'right') item)
+)
+WHERE question_type = 'matching'
+  AND jsonb_typeof(options->'right') = 'array';
+
+UPDATE question_bank
+SET options = jsonb_set(
+  options,
+  '{right}',
+  (SELECT COALESCE(jsonb_agg(item ORDER BY item #>> '{}'), '[]'::jsonb) FROM jsonb_array_elements(options->'right') item)
+)
+WHERE question_type = 'matching'
+  AND jsonb_typeof(options->'right') = 'array';
@@ -0,0 +1,109 @@
+/*
+  # Stop Bank Sync for Sat Tests
+
+  ## Overview
+  Editing a bank question overwrote the answer key and marks of every linked
+  test question, including tests students had already sat. Their stored
+  marks, `tests.total_marks` and `submissions.total_marks` then no longer
+  matched the question, and nothing recorded the change.
+
+  A linked question in a test that has any submission (in progress or
+  finished) is now unlinked instead of updated, so it keeps the content its
+  students answered. Changes to an already sat test go through the test
+  editor and the Re-grade dialog as usual. Tests without submissions still
+  follow the bank, and their `total_marks` is recomputed when marks change.
+
+  ## Functions Created
+  ### paper_total_marks(p_test_id uuid) returns integer
+  - Marks of one paper: every question outside a pool plus each pool's
+    balanced draw, the same total the test editor saves
+
+  ## Changes
+  - `sync_linked_bank_questions` unlinks the question in tests with
+    submissions, and updates `tests.total_marks` of the tests it syncs
+*/
+
+-- Keep the quota rule in step with draw_question_set and getPoolQuotas in src/lib/pools.ts
+CREATE OR REPLACE FUNCTION paper_total_marks(p_test_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH pool_sizes AS (
+    SELECT p.id AS pool_id, LEAST(p.draw_count, count(q.id))::integer AS draw, count(q.id)::integer AS size
+    FROM question_pools p
+    JOIN questions q ON q.pool_id = p.id AND q.test_id = p_test_id
+    WHERE p.test_id = p_test_id
+    GROUP BY p.id, p.draw_count
+  ),
+  mark_groups AS (
+    SELECT q.pool_id, q.marks, count(*)::integer AS n
+    FROM questions q
+    JOIN pool_sizes ps ON ps.pool_id = q.pool_id
+    WHERE q.test_id = p_test_id
+    GROUP BY q.pool_id, q.marks
+  ),
+  quotas AS (
+    SELECT
+      g.marks,
+      (ps.draw * g.n) / ps.size AS base,
+      row_number() OVER (PARTITION BY g.pool_id ORDER BY (ps.draw * g.n) % ps.size DESC, g.marks) AS remainder_rank,
+      ps.draw - sum((ps.draw * g.n) / ps.size) OVER (PARTITION BY g.pool_id) AS leftover
+    FROM mark_groups g
+    JOIN pool_sizes ps ON ps.pool_id = g.pool_id
+  )
+  SELECT (
+    COALESCE((SELECT sum(q.marks) FROM questions q WHERE q.test_id = p_test_id AND q.pool_id IS NULL), 0)
+    + COALESCE((
+      SELECT sum(qu.marks * (qu.base + CASE WHEN qu.remainder_rank <= qu.leftover THEN 1 ELSE 0 END))
+      FROM quotas qu
+    ), 0)
+  )::integer;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_linked_bank_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE questions SET bank_linked = false WHERE bank_question_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  -- Students have answered this version; changing it would leave their marks and totals stale
+  UPDATE questions q
+  SET bank_linked = false
+  WHERE q.bank_question_id = NEW.id
+    AND q.bank_linked
+    AND EXISTS (SELECT 1 FROM submissions s WHERE s.test_id = q.test_id);
+
+  UPDATE questions
+  SET question_type = NEW.question_type,
+      question_text = NEW.question_text,
+      options = NEW.options,
+      correct_answers = NEW.correct_answers,
+      marks = NEW.marks,
+      negative_marks = NEW.negative_marks,
+      is_case_sensitive = NEW.is_case_sensitive,
+      scoring_mode = NEW.scoring_mode,
+      answer_config = NEW.answer_config,
+      image_url = NEW.image_url,
+      option_images = NEW.option_images,
+      explanation = NEW.explanation,
+      rubric = NEW.rubric,
+      shuffle_options = NEW.shuffle_options,
+      pinned_options = NEW.pinned_options
+  WHERE bank_question_id = NEW.id
+    AND bank_linked;
+
+  IF NEW.marks IS DISTINCT FROM OLD.marks THEN
+    UPDATE tests t
+    SET total_marks = paper_total_marks(t.id)
+    WHERE t.id IN (SELECT q.test_id FROM questions q WHERE q.bank_question_id = NEW.id AND q.bank_linked);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
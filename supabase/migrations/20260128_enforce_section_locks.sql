@@ -0,0 +1,89 @@
+/*
+  # Enforce Section Locks
+
+  ## Overview
+  Sections that lock when their time runs out were only locked in the
+  browser, so a client could still change their answers through autosave
+  or in the final submission. The server now counts a section as locked once
+  the `section_time_used` it has stored reaches the section's limit, and
+  keeps the answers saved before that point.
+
+  ## Changes
+  - `save_attempt` keeps the stored draft answers of questions in locked
+    sections, whatever the client sends for them
+  - `save_attempt` never lowers the seconds stored per section, so a client
+    cannot unlock a section by reporting less time
+  - The submit-test edge function scores questions in locked sections on
+    the stored draft answers instead of the submitted ones
+
+  ## Not Included
+  - Section time is still counted by the browser and reported with each
+    autosave; only the overall deadline is measured by the server
+*/
+
+CREATE OR REPLACE FUNCTION save_attempt(
+  p_submission_key uuid,
+  p_draft_answers jsonb,
+  p_current_question_id uuid,
+  p_tab_switch_count integer,
+  p_section_time_used jsonb DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt submissions;
+  v_locked_question_ids text[];
+BEGIN
+  SELECT * INTO v_attempt
+  FROM submissions
+  WHERE submission_key = p_submission_key
+    AND status = 'in_progress'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Locked by the time stored before this save, so answers given just before the lock still count
+  SELECT COALESCE(array_agg(q.id::text), '{}')
+  INTO v_locked_question_ids
+  FROM questions q
+  JOIN test_sections s ON s.id = q.section_id
+  WHERE q.test_id = v_attempt.test_id
+    AND s.lock_on_expiry
+    AND s.duration_minutes IS NOT NULL
+    AND COALESCE((v_attempt.section_time_used ->> s.id::text)::numeric, 0) >= s.duration_minutes * 60;
+
+  UPDATE submissions
+  SET draft_answers = (COALESCE(p_draft_answers, '{}'::jsonb) - v_locked_question_ids)
+        || (
+          SELECT COALESCE(jsonb_object_agg(d.key, d.value), '{}'::jsonb)
+          FROM jsonb_each(COALESCE(v_attempt.draft_answers, '{}'::jsonb)) d
+          WHERE d.key = ANY (v_locked_question_ids)
+        ),
+      current_question_id = p_current_question_id,
+      tab_switch_count = GREATEST(tab_switch_count, COALESCE(p_tab_switch_count, 0)),
+      section_time_used = (
+        SELECT COALESCE(jsonb_object_agg(
+          k.key,
+          GREATEST(
+            COALESCE((v_attempt.section_time_used ->> k.key)::numeric, 0),
+            COALESCE((p_section_time_used ->> k.key)::numeric, 0)
+          )
+        ), '{}'::jsonb)
+        FROM jsonb_object_keys(COALESCE(v_attempt.section_time_used, '{}'::jsonb) || COALESCE(p_section_time_used, '{}'::jsonb)) AS k(key)
+      ),
+      remaining_seconds = GREATEST(0, floor(extract(epoch FROM deadline_at - now())))::integer,
+      last_saved_at = now()
+  WHERE id = v_attempt.id;
+
+  IF v_attempt.deadline_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN GREATEST(0, floor(extract(epoch FROM v_attempt.deadline_at - now())))::integer;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION save_attempt(uuid, jsonb, uuid, integer, jsonb) TO anon, authenticated;
@@ -0,0 +1,18 @@
+/*
+  # Document Shuffle Options
+
+  ## Overview
+  `shuffle_options` only applies to multiple choice options. The items of
+  ordering questions and the right column of matching questions are always
+  shuffled, since their stored order is not meant to be seen. The column
+  comments now say so.
+
+  ## Changes
+  - Comments on `tests.shuffle_options` and `questions.shuffle_options`
+*/
+
+COMMENT ON COLUMN tests.shuffle_options IS
+  'Shuffle the options of multiple choice questions. Ordering items and the right column of matching questions are always shuffled.';
+
+COMMENT ON COLUMN questions.shuffle_options IS
+  'Set to false to keep this multiple choice question''s options in the order they were entered, even when the test shuffles options.';
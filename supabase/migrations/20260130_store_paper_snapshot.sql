@@ -0,0 +1,183 @@
+/*
+  # Paper Snapshot
+
+  ## Overview
+  The results page and the admin's view of a paper rebuilt the order a
+  student saw from the attempt's seed and the test as it is now. Changing
+  the shuffle settings, or adding, removing, moving or editing questions
+  afterwards, changed the rebuilt order, so a dispute could be settled on a
+  paper the student never saw.
+
+  `start_attempt` now stores everything the order follows from when the
+  attempt starts: the shuffle settings, the sections and, for each question on
+  the paper, the fields `orderPaper` in src/lib/paperOrder.ts reads. The
+  reviews rebuild the order from this snapshot and the seed.
+
+  ## Changes
+  ### submissions
+  - `paper_snapshot` (jsonb, nullable) - `question_shuffle`, `shuffle_options`,
+    `sections` (id, position) and `questions` (id, question_number,
+    question_type, options, section_id, keep_position, shuffle_options,
+    pinned_options, group_id) as they were when the attempt started. NULL for
+    attempts started before this change, which are still rebuilt from the
+    test as it is now
+  - Attempts still in progress get a snapshot of the test as it is now
+
+  ## Functions Created
+  ### build_paper_snapshot(p_test_id uuid, p_drawn_question_ids jsonb) returns jsonb
+  - The snapshot of a test for a paper with the given drawn questions (all of
+    the test's questions when NULL)
+
+  ### Functions
+  - `start_attempt` stores `paper_snapshot` on the attempt it creates
+
+  ## Security
+  - `build_paper_snapshot` is not granted to students; it only runs inside
+    `start_attempt`
+
+  ## Not Included
+  - The exam page still orders a resumed paper from the test as it is now.
+    Editing a test while students are sitting it is not supported.
+*/
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS paper_snapshot jsonb;
+
+CREATE OR REPLACE FUNCTION build_paper_snapshot(p_test_id uuid, p_drawn_question_ids jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'question_shuffle', t.question_shuffle,
+    'shuffle_options', t.shuffle_options,
+    'sections', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('id', s.id, 'position', s.position)), '[]'::jsonb)
+      FROM test_sections s
+      WHERE s.test_id = p_test_id
+    ),
+    'questions', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'question_number', q.question_number,
+        'question_type', q.question_type,
+        'options', q.options,
+        'section_id', q.section_id,
+        'keep_position', q.keep_position,
+        'shuffle_options', q.shuffle_options,
+        'pinned_options', q.pinned_options,
+        'group_id', q.group_id
+      )), '[]'::jsonb)
+      FROM questions q
+      WHERE q.test_id = p_test_id
+        AND (p_drawn_question_ids IS NULL OR p_drawn_question_ids ? q.id::text)
+    )
+  )
+  FROM tests t
+  WHERE t.id = p_test_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION build_paper_snapshot(uuid, jsonb) FROM PUBLIC;
+
+UPDATE submissions
+SET paper_snapshot = build_paper_snapshot(test_id, drawn_question_ids)
+WHERE status = 'in_progress'
+  AND paper_snapshot IS NULL;
+
+CREATE OR REPLACE FUNCTION start_attempt(
+  p_test_id uuid,
+  p_access_code text,
+  p_student_name text,
+  p_father_name text,
+  p_class_applying_for text,
+  p_student_code text,
+  p_submission_key uuid,
+  p_retest_key_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  submission_key uuid,
+  student_code text,
+  slot_number integer,
+  draft_answers jsonb,
+  current_question_id uuid,
+  tab_switch_count integer,
+  remaining_seconds integer,
+  section_time_used jsonb,
+  shuffle_seed integer,
+  resumed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_slot_number integer;
+  v_duration_minutes integer;
+  v_drawn_question_ids jsonb;
+  v_attempt submissions;
+BEGIN
+  SELECT s.slot_number INTO v_slot_number
+  FROM access_codes ac
+  JOIN slots s ON s.id = ac.slot_id
+  WHERE s.test_id = p_test_id
+    AND ac.code = upper(trim(p_access_code))
+    AND ac.valid_until > now()
+  LIMIT 1;
+
+  IF v_slot_number IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired access code';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM submissions sub
+  WHERE sub.test_id = p_test_id
+    AND sub.slot_number = v_slot_number
+    AND sub.student_name = p_student_name
+    AND sub.father_name IS NOT DISTINCT FROM p_father_name
+    AND sub.status = 'in_progress'
+  ORDER BY sub.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- The clock kept running while the student was away
+    RETURN QUERY SELECT
+      v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+      v_attempt.draft_answers, v_attempt.current_question_id, v_attempt.tab_switch_count,
+      CASE
+        WHEN v_attempt.deadline_at IS NOT NULL
+          THEN GREATEST(0, floor(extract(epoch FROM v_attempt.deadline_at - now())))::integer
+        ELSE v_attempt.remaining_seconds
+      END,
+      v_attempt.section_time_used,
+      v_attempt.shuffle_seed,
+      true;
+    RETURN;
+  END IF;
+
+  SELECT t.duration_minutes INTO v_duration_minutes FROM tests t WHERE t.id = p_test_id;
+  v_drawn_question_ids := draw_question_set(p_test_id);
+
+  INSERT INTO submissions (
+    test_id, student_name, father_name, class_applying_for, student_code,
+    slot_number, status, retest_key_used, submission_key, started_at, deadline_at,
+    drawn_question_ids, shuffle_seed, paper_snapshot
+  )
+  VALUES (
+    p_test_id, p_student_name, p_father_name, p_class_applying_for,
+    p_student_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+    v_slot_number, 'in_progress', p_retest_key_id, p_submission_key,
+    now(), now() + make_interval(mins => v_duration_minutes),
+    v_drawn_question_ids, floor(random() * 2147483647)::integer,
+    build_paper_snapshot(p_test_id, v_drawn_question_ids)
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN QUERY SELECT
+    v_attempt.submission_key, v_attempt.student_code, v_attempt.slot_number,
+    v_attempt.draft_answers, NULL::uuid, v_attempt.tab_switch_count, v_duration_minutes * 60,
+    v_attempt.section_time_used, v_attempt.shuffle_seed, false;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_attempt(uuid, text, text, text, text, text, uuid, uuid) TO anon, authenticated;
@@ -0,0 +1,18 @@
+/*
+  # Restrict Re-grade Audits
+
+  ## Overview
+  Re-grade audit entries are written by `apply_answer_grades`, in the same
+  transaction as the grades, so the anon key no longer needs to insert them.
+  Its insert policy let anyone add forged entries, and its read policy let
+  anyone read the audit trail. The admin panel now reads the history through
+  the `admin-actions` edge function, which uses the service role key.
+
+  ## Security
+  - Dropped "Allow reads on regrade_audits" and "Allow inserts on
+    regrade_audits"; with row level security on and no policies left, only
+    the service role can read or write `regrade_audits`
+*/
+
+DROP POLICY IF EXISTS "Allow reads on regrade_audits" ON regrade_audits;
+DROP POLICY IF EXISTS "Allow inserts on regrade_audits" ON regrade_audits;
@@ -0,0 +1,119 @@
+/*
+  # Protect Answer Keys
+
+  ## Overview
+  `get_submission_review` returned the answer key of any finished submission
+  to anyone who knew its id, and submission ids can be read with the anon
+  key. As soon as one student finished, the key of a test could be read while
+  others were still sitting it. The review is now looked up by the attempt's
+  `submission_key`, which only the student's browser holds, and leaves out
+  the answer key until the test has closed for everyone.
+
+  The anon key could also still insert and update `questions` and
+  `question_bank`, so anyone could rewrite the answer key that the
+  submit-test edge function scores against. The test editor and the question
+  bank now save through the `admin-actions` edge function, which uses the
+  service role key.
+
+  ## Functions Created
+  ### test_window_closed(p_test_id uuid) returns boolean
+  - True once no attempt of the test can start (every slot has ended and
+    every access code has expired) and no started attempt is still running
+    (deadline plus the 2 minute grace period of `submit_test`)
+
+  ### get_submission_review(p_submission_key uuid) returns jsonb
+  - Replaces `get_submission_review(p_submission_id uuid)`
+  - `answer_key_released`: whether `test_window_closed` holds for the test
+  - `answers`: the answers of the finished attempt, each with its question
+    under `questions`. Until the answer key is released, the questions leave
+    out `correct_answers`, `answer_config`, `rubric` and `explanation`
+  - An attempt still in progress, or an unknown key, gives no answers
+
+  ## Security
+  - `questions` and `question_bank`: INSERT and UPDATE revoked from anon and
+    authenticated
+  - `test_window_closed` is not granted to students; it only runs inside
+    `get_submission_review`
+
+  ## Not Included
+  - Deleting questions and bank questions still goes through the anon key
+  - A retest started after the key was released sits a paper whose key the
+    student may have seen
+*/
+
+REVOKE INSERT, UPDATE ON questions FROM anon, authenticated;
+REVOKE INSERT, UPDATE ON question_bank FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION test_window_closed(p_test_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM slots s WHERE s.test_id = p_test_id AND s.end_time > now()
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM access_codes ac
+      JOIN slots s ON s.id = ac.slot_id
+      WHERE s.test_id = p_test_id
+        AND ac.valid_until > now()
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM submissions sub
+      WHERE sub.test_id = p_test_id
+        AND sub.status = 'in_progress'
+        AND sub.deadline_at + interval '2 minutes' > now()
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION test_window_closed(uuid) FROM PUBLIC;
+
+-- The parameter changes from the submission id to its key, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS get_submission_review(uuid);
+
+CREATE FUNCTION get_submission_review(p_submission_key uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_submission submissions;
+  v_released boolean;
+  v_answers jsonb;
+BEGIN
+  SELECT * INTO v_submission
+  FROM submissions
+  WHERE submission_key = p_submission_key
+    AND status <> 'in_progress';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('answer_key_released', false, 'answers', '[]'::jsonb);
+  END IF;
+
+  v_released := test_window_closed(v_submission.test_id);
+
+  SELECT COALESCE(
+    jsonb_agg(
+      to_jsonb(a) || jsonb_build_object('questions', CASE
+        WHEN v_released THEN to_jsonb(q)
+        ELSE to_jsonb(q) - ARRAY['correct_answers', 'answer_config', 'rubric', 'explanation']
+      END)
+      ORDER BY q.question_number
+    ),
+    '[]'::jsonb
+  )
+  INTO v_answers
+  FROM answers a
+  LEFT JOIN questions q ON q.id = a.question_id
+  WHERE a.submission_id = v_submission.id;
+
+  RETURN jsonb_build_object('answer_key_released', v_released, 'answers', v_answers);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_submission_review(uuid) TO anon, authenticated;
@@ -0,0 +1,35 @@
+/*
+  # Hide Attempt State
+
+  ## Overview
+  The anon key could select every column of `submissions`, including the
+  `submission_key` of each attempt. `save_attempt`, `get_test_questions` and
+  the submit-test edge function trust whoever presents that key, so anyone
+  could read another student's key while they sat the test, then overwrite
+  their draft or submit their paper for them. `get_submission_review` is now
+  keyed on it as well.
+
+  The key and the saved state of an attempt are no longer readable with the
+  anon key. The student's browser gets them back from `start_attempt`, the
+  only place that returns them.
+
+  ## Security
+  - `submissions`: SELECT on every column except `submission_key`,
+    `draft_answers`, `current_question_id`, `remaining_seconds`,
+    `last_saved_at` and `section_time_used`
+  - Columns added later must be granted explicitly to be readable
+
+  ## Not Included
+  - Student names, scores and the other result columns stay readable with
+    the anon key, which the admin panel still reads them through
+*/
+
+REVOKE SELECT ON submissions FROM anon, authenticated;
+GRANT SELECT (
+  id, test_id, student_name, father_name, class_applying_for, student_code,
+  slot_number, tab_switch_count, malpractice_detected, time_taken_seconds,
+  score, total_marks, percentage, correct_count, wrong_count,
+  needs_manual_review, status, retest_key_used, started_at, deadline_at,
+  submitted_late, section_scores, drawn_question_ids, shuffle_seed,
+  paper_snapshot, submitted_at, created_at
+) ON submissions TO anon, authenticated;